@@ -3,6 +3,12 @@ import { rimraf } from 'rimraf'
 import stylePlugin from 'esbuild-style-plugin'
 import autoprefixer from 'autoprefixer'
 import tailwindcss from 'tailwindcss'
+import { prerender } from './prerender.mjs'
+import { writeSitemap } from './sitemap.mjs'
+import { generateShareImages } from './og-images.mjs'
+import { contentPlugin } from './content.mjs'
+import { localesPlugin } from './locales.mjs'
+import { startDevServer } from './contact-server.mjs'
 
 const args = process.argv.slice(2)
 const isProd = args[0] === '--production'
@@ -24,11 +30,23 @@ const esbuildOpts = {
   minify: isProd,
   treeShaking: true,
   jsx: 'automatic',
+  define: {
+    // Contact handler URL; an empty value makes the contact form use the in-memory adapter
+    'process.env.CONTACT_ENDPOINT': JSON.stringify(process.env.CONTACT_ENDPOINT ?? '/api/contact'),
+  },
+  // Live reload only in development; production pages are static HTML
+  banner: isProd
+    ? undefined
+    : { js: "new EventSource('/esbuild').addEventListener('change', () => location.reload());" },
   loader: {
     '.html': 'copy',
     '.png': 'file',
   },
   plugins: [
+    // Invalid project content fails production builds; dev only prints the report
+    contentPlugin({ strict: isProd }),
+    // Translations are served as JSON (dist/locales) and loaded per namespace by the browser
+    localesPlugin(),
     stylePlugin({
       postcss: {
         plugins: [tailwindcss, autoprefixer],
@@ -38,13 +56,24 @@ const esbuildOpts = {
 }
 
 if (isProd) {
-  await esbuild.build(esbuildOpts)
+  try {
+    await esbuild.build(esbuildOpts)
+  } catch {
+    // esbuild has already printed the errors (including the content report)
+    process.exit(1)
+  }
+  // Render every route to static HTML so crawlers and link previews see real content
+  const rendered = await prerender('dist')
+  await writeSitemap('dist', rendered)
+  await generateShareImages('dist', rendered)
 } else {
   const ctx = await esbuild.context(esbuildOpts)
   await ctx.watch()
-  const { hosts, port } = await ctx.serve()
+  // Serve index.html for deep links (e.g. /portfolio/3) so client-side routing takes over
+  const esbuildServer = await ctx.serve({ host: '127.0.0.1', port: 8001, servedir: 'dist', fallback: 'dist/index.html' })
+  // Front server adds the contact handler (/api/contact) and proxies the rest to esbuild
+  const port = 8000
+  await startDevServer({ port, target: { host: '127.0.0.1', port: esbuildServer.port } })
   console.log(`Running on:`)
-  hosts.forEach((host) => {
-    console.log(`http://${host}:${port}`)
-  })
+  console.log(`http://localhost:${port}`)
 }
@@ -0,0 +1,69 @@
+import http from 'node:http'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { importBundled } from './import-bundled.mjs'
+
+/** Route the contact form posts to */
+export const CONTACT_PATH = '/api/contact'
+
+/** Folder inquiries are stored in (one JSON file each); override with CONTACT_STORE_DIR */
+const STORE_DIR = process.env.CONTACT_STORE_DIR || 'inquiries'
+
+/**
+ * Build the contact request handler from server/contact.ts with a file store.
+ *
+ * @returns {Promise<(req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>>}
+ */
+export async function loadContactHandler() {
+  const { createContactHandler, createFileStore } = await importBundled('server/contact.ts')
+  return createContactHandler(createFileStore(path.resolve(STORE_DIR)))
+}
+
+/**
+ * Dev server in front of esbuild's: serves the contact route itself and proxies everything else
+ * (pages, assets and the live-reload event stream) to esbuild.
+ *
+ * @param {{ port: number, target: { host: string, port: number } }} options
+ */
+export async function startDevServer({ port, target }) {
+  const handleContact = await loadContactHandler()
+
+  const server = http.createServer((req, res) => {
+    if (req.url?.split('?')[0] === CONTACT_PATH) {
+      handleContact(req, res)
+      return
+    }
+
+    const proxyReq = http.request(
+      { hostname: target.host, port: target.port, path: req.url, method: req.method, headers: req.headers },
+      (proxyRes) => {
+        res.writeHead(proxyRes.statusCode ?? 502, proxyRes.headers)
+        proxyRes.pipe(res)
+      }
+    )
+    proxyReq.on('error', () => {
+      res.writeHead(502)
+      res.end()
+    })
+    req.pipe(proxyReq)
+  })
+
+  await new Promise((resolve) => server.listen(port, resolve))
+  return server
+}
+
+// Standalone: `npm run contact-server` answers the contact route only (put it behind the site's reverse proxy)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT) || 8787
+  const handleContact = await loadContactHandler()
+  http
+    .createServer((req, res) => {
+      if (req.url?.split('?')[0] === CONTACT_PATH) {
+        handleContact(req, res)
+      } else {
+        res.writeHead(404)
+        res.end()
+      }
+    })
+    .listen(port, () => console.log(`Contact handler listening on http://localhost:${port}${CONTACT_PATH}`))
+}
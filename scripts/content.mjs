@@ -0,0 +1,307 @@
+import { readdir, readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import matter from 'gray-matter'
+import { marked } from 'marked'
+import { importBundled } from './import-bundled.mjs'
+import { downloadImage, isLocalFile, processImage, publishFile } from './images.mjs'
+
+/** Folder holding one sub-folder per project (each with an index.md) */
+export const PROJECTS_DIR = 'content/projects'
+
+/** Virtual module the app imports the compiled catalog from */
+const PROJECTS_MODULE = '@content/projects'
+
+const LANGUAGES = ['en', 'ar']
+
+/**
+ * Split a project body into its language sections.
+ * Each language is wrapped in a fenced container:
+ *
+ *   ::: en
+ *   English markdown
+ *   :::
+ *
+ * @param {string} body Markdown after the front matter
+ * @returns {Record<string, string>} Raw markdown per language
+ */
+function splitLanguages(body) {
+  const sections = {}
+  const pattern = /^:::\s*(\w+)\s*\n([\s\S]*?)^:::\s*$/gm
+  let match
+  while ((match = pattern.exec(body))) {
+    sections[match[1]] = match[2].trim()
+  }
+  return sections
+}
+
+/**
+ * Apply `fn` to every file reference of a media item (src, poster and pages).
+ * `fn` is told the field path and whether the file is an image for the image pipeline
+ * (posters, pages and image items) or a file served as-is (videos, PDFs, animations).
+ *
+ * @param {unknown} item Media item from the front matter
+ * @param {(src: string, file: { field: string, image: boolean }) => unknown} fn
+ */
+async function mapMediaFiles(item, fn) {
+  if (!item || typeof item !== 'object') return item
+  const next = { ...item }
+  if (typeof item.src === 'string') next.src = await fn(item.src, { field: 'src', image: item.type === 'image' })
+  if (typeof item.poster === 'string') next.poster = await fn(item.poster, { field: 'poster', image: true })
+  if (Array.isArray(item.pages)) {
+    next.pages = await Promise.all(
+      item.pages.map((src, i) => (typeof src === 'string' ? fn(src, { field: `pages.${i}`, image: true }) : src))
+    )
+  }
+  return next
+}
+
+/**
+ * Apply `fn` to the before/after images of a case study.
+ *
+ * @param {unknown} caseStudy Case study from the front matter
+ * @param {(src: string, file: { field: string, image: boolean }) => unknown} fn
+ */
+async function mapCaseStudyFiles(caseStudy, fn) {
+  if (!caseStudy || typeof caseStudy !== 'object' || !Array.isArray(caseStudy.beforeAfter)) return caseStudy
+  const beforeAfter = await Promise.all(
+    caseStudy.beforeAfter.map(async (pair, i) => {
+      if (!pair || typeof pair !== 'object') return pair
+      const next = { ...pair }
+      for (const side of ['before', 'after']) {
+        if (typeof pair[side] === 'string') next[side] = await fn(pair[side], { field: `beforeAfter.${i}.${side}`, image: true })
+      }
+      return next
+    })
+  )
+  return { ...caseStudy, beforeAfter }
+}
+
+/**
+ * Read and compile a single project folder.
+ *
+ * @param {string} dir Absolute or relative path to the project folder
+ */
+async function loadProject(dir) {
+  const file = path.join(dir, 'index.md')
+  const { data, content } = matter(await readFile(file, 'utf8'))
+  const sections = splitLanguages(content)
+
+  // Missing sections compile to '' and are reported by the schema as missing translations
+  const body = {}
+  for (const lang of LANGUAGES) {
+    body[lang] = sections[lang] ? await marked.parse(sections[lang]) : ''
+  }
+
+  // Plain strings are images; local files are resolved against the project folder (relative to the repo root)
+  const folder = dir.split(path.sep).join('/')
+  const resolve = (src) => (isLocalFile(src) ? path.posix.join(folder, src) : src)
+  const media = Array.isArray(data.media)
+    ? await Promise.all(
+        data.media.map((entry) => mapMediaFiles(typeof entry === 'string' ? { type: 'image', src: entry } : entry, resolve))
+      )
+    : data.media
+  const caseStudy = await mapCaseStudyFiles(data.caseStudy, resolve)
+
+  return { ...data, media, caseStudy, body }
+}
+
+/**
+ * Problems with local media files that the schema can't see (missing files).
+ *
+ * @param {unknown[]} projects Loaded (unvalidated) projects
+ * @returns {Promise<{ path: string, message: string }[][]>}
+ */
+async function collectFileIssues(projects) {
+  return Promise.all(
+    projects.map(async (project) => {
+      const media = Array.isArray(project?.media) ? project.media : []
+      const problems = []
+      const check = (prefix) => async (src, { field }) => {
+        if (!isLocalFile(src)) return
+        try {
+          await stat(src)
+        } catch {
+          problems.push({ path: `${prefix}.${field}`, message: `file not found (${src})` })
+        }
+      }
+      for (const [index, item] of media.entries()) {
+        await mapMediaFiles(item, check(`media.${index}`))
+      }
+      await mapCaseStudyFiles(project?.caseStudy, check('caseStudy'))
+      return problems
+    })
+  )
+}
+
+/**
+ * List the project folders under a content directory.
+ *
+ * @param {string} dir Content directory
+ */
+async function listProjectFolders(dir) {
+  const entries = await readdir(dir, { withFileTypes: true })
+  return entries.filter((e) => e.isDirectory()).map((e) => path.join(dir, e.name))
+}
+
+/**
+ * Format the schema problems as a per-project report.
+ *
+ * @param {string[]} folders Project folders, same order as `issues`
+ * @param {{ path: string, message: string }[][]} issues Problems per project
+ * @param {string} [marker] Symbol in front of each project folder
+ */
+function formatReport(folders, issues, marker = '✖') {
+  const lines = []
+  issues.forEach((problems, i) => {
+    if (problems.length === 0) return
+    lines.push(`  ${marker} ${folders[i]}`)
+    for (const { path: field, message } of problems) {
+      lines.push(`      ${field}: ${message}`)
+    }
+  })
+  return lines.join('\n')
+}
+
+/**
+ * Load every project under PROJECTS_DIR, validate it against src/data/schema.ts and order by id.
+ * Problems are printed as a per-project report; with `strict` they also fail the build.
+ * Warnings (such as missing alt text) are only printed, and only when `warnings` is set.
+ *
+ * @param {{ dir?: string, strict?: boolean, warnings?: boolean }} [options]
+ */
+export async function loadProjects({ dir = PROJECTS_DIR, strict = true, warnings: printWarnings = true } = {}) {
+  const folders = await listProjectFolders(dir)
+  const projects = await Promise.all(folders.map(loadProject))
+
+  const { collectProjectIssues, collectProjectWarnings } = await importBundled('src/data/schema.ts')
+  const fileIssues = await collectFileIssues(projects)
+  const issues = collectProjectIssues(projects, folders).map((list, i) => [...list, ...fileIssues[i]])
+  const problemCount = issues.reduce((sum, list) => sum + list.length, 0)
+
+  // Warnings never fail the build
+  const warnings = collectProjectWarnings(projects)
+  const warningCount = warnings.reduce((sum, list) => sum + list.length, 0)
+  if (printWarnings && warningCount > 0) {
+    console.warn(
+      `Project content has ${warningCount} warning(s) in ${warnings.filter((l) => l.length).length} project(s):\n${formatReport(folders, warnings, '⚠')}`
+    )
+  }
+
+  if (problemCount > 0) {
+    const report = formatReport(folders, issues)
+    const summary = `Project content has ${problemCount} problem(s) in ${issues.filter((l) => l.length).length} project(s):`
+    if (strict) {
+      throw new Error(`${summary}\n${report}`)
+    }
+    console.warn(`${summary}\n${report}`)
+  }
+
+  return projects.sort((a, b) => a.id - b.id)
+}
+
+/**
+ * Load the catalog and publish its media files.
+ * Images (image items, posters, PDF pages, case study before/after) are replaced by the URL of their generated fallback JPEG,
+ * and the manifest maps that URL to every variant (see src/data/images.ts). Remote images are downloaded
+ * into the build cache first, so they are self-hosted too; when a download fails the URL is kept as-is.
+ * Videos, PDFs and animations in the project folders are copied unchanged.
+ *
+ * @param {{ strict?: boolean, outdir?: string, warnings?: boolean }} [options] `outdir` receives the generated files
+ */
+export async function compileContent({ strict = true, outdir, warnings = true } = {}) {
+  const projects = await loadProjects({ strict, warnings })
+  const images = {}
+  const files = []
+  const unavailable = []
+
+  /** Publish one file and return its URL (the original reference when it can't be published) */
+  const publish = async (src, { image }) => {
+    const local = isLocalFile(src)
+    if (!local && !image) return src
+    let file = src
+    if (!local) {
+      try {
+        file = await downloadImage(src)
+      } catch (error) {
+        unavailable.push(`${src} (${error.message})`)
+        return src
+      }
+    }
+    try {
+      let url
+      if (image) {
+        const variants = await processImage(file, { outdir })
+        images[variants.src] = variants
+        url = variants.src
+      } else {
+        url = await publishFile(file, { outdir })
+      }
+      if (local) files.push(path.resolve(file))
+      return url
+    } catch {
+      // A missing local file (only in non-strict dev builds, where the report lists it) or an undecodable download
+      return src
+    }
+  }
+
+  for (const project of projects) {
+    if (Array.isArray(project.media)) {
+      project.media = await Promise.all(project.media.map((item) => mapMediaFiles(item, publish)))
+    }
+    if (project.caseStudy) project.caseStudy = await mapCaseStudyFiles(project.caseStudy, publish)
+  }
+
+  if (warnings && unavailable.length > 0) {
+    console.warn(
+      `Images: ${unavailable.length} remote image(s) could not be downloaded and are linked as-is:\n${unavailable.map((u) => `  ⚠ ${u}`).join('\n')}`
+    )
+  }
+
+  return { projects, images, files }
+}
+
+/**
+ * esbuild plugin exposing the compiled catalog as `@content/projects` and the image manifest as `@content/images`.
+ * The content folder is watched in dev mode so edits rebuild the bundle.
+ *
+ * @param {{ strict?: boolean, warnings?: boolean }} [options] Fail the build on invalid content (production);
+ *   print content warnings (off for secondary builds of the same content, so the report appears once)
+ * @returns {import('esbuild').Plugin}
+ */
+export function contentPlugin({ strict = true, warnings = true } = {}) {
+  return {
+    name: 'content',
+    setup(build) {
+      // Both virtual modules come from one compile per build
+      let compiled
+      build.onStart(() => {
+        compiled = undefined
+      })
+
+      build.onResolve({ filter: /^@content\/(projects|images)$/ }, (args) => ({
+        path: args.path,
+        namespace: 'content',
+      }))
+
+      build.onLoad({ filter: /.*/, namespace: 'content' }, async (args) => {
+        compiled ??= compileContent({ strict, outdir: build.initialOptions.outdir, warnings })
+        let result
+        try {
+          result = await compiled
+        } catch (error) {
+          // Report as a plain build error (no plugin stack trace) so the report stays readable
+          return { errors: [{ text: error.message }], watchDirs: [path.resolve(PROJECTS_DIR)] }
+        }
+        return {
+          contents: JSON.stringify(args.path === PROJECTS_MODULE ? result.projects : result.images),
+          loader: 'json',
+          watchDirs: [path.resolve(PROJECTS_DIR)],
+          watchFiles: [
+            ...(await listProjectFolders(PROJECTS_DIR)).map((dir) => path.resolve(dir, 'index.md')),
+            ...result.files,
+          ],
+        }
+      })
+    },
+  }
+}
@@ -0,0 +1,158 @@
+import { createHash } from 'node:crypto'
+import { copyFile, mkdir, readFile, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import sharp from 'sharp'
+
+/** Output widths; only those below the original's width are generated (plus the original width itself) */
+export const IMAGE_WIDTHS = [320, 640, 960, 1280, 1920]
+
+/** Site URL prefix of the generated files (dist/images/...) */
+const IMAGES_URL = '/images'
+
+/** Site URL prefix of other published media files (dist/media/...) */
+const MEDIA_URL = '/media'
+
+const CACHE_DIR = 'node_modules/.cache/build/images'
+
+/** Encoders, best compression first; JPEG is the <img> fallback */
+const FORMATS = [
+  { ext: 'avif', type: 'image/avif', encode: (image) => image.avif({ quality: 50 }) },
+  { ext: 'webp', type: 'image/webp', encode: (image) => image.webp({ quality: 75 }) },
+  { ext: 'jpg', type: 'image/jpeg', encode: (image) => image.jpeg({ quality: 80, mozjpeg: true }) },
+]
+
+/**
+ * True for a content file reference in the project folder rather than a remote URL.
+ *
+ * @param {string} src
+ */
+export function isLocalFile(src) {
+  return !/^[a-z]+:\/\//i.test(src)
+}
+
+/**
+ * File name with the first 10 hex digits of the content hash, so changed files get new URLs.
+ *
+ * @param {string} file
+ * @param {Buffer} input File contents
+ */
+function hashedName(file, input) {
+  const hash = createHash('sha1').update(input).digest('hex').slice(0, 10)
+  return `${path.basename(file, path.extname(file)).replace(/[^a-z0-9-]+/gi, '-').toLowerCase()}-${hash}`
+}
+
+/**
+ * Widths to generate for an original of `width` pixels.
+ *
+ * @param {number} width
+ */
+function targetWidths(width) {
+  const largest = Math.min(width, IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1])
+  return [...IMAGE_WIDTHS.filter((w) => w < largest), largest]
+}
+
+/**
+ * Write a file into the cache unless it is already there (keyed by content hash).
+ *
+ * @param {string} file
+ * @param {() => Promise<unknown>} create
+ */
+async function cached(file, create) {
+  try {
+    await stat(file)
+  } catch {
+    await create()
+  }
+}
+
+/**
+ * Download a remote image into the build cache (once per URL) so it can go through the pipeline like a local file.
+ * Throws when it can't be fetched (offline builds, removed files).
+ *
+ * @param {string} url Absolute http(s) URL
+ * @returns {Promise<string>} Path of the cached copy
+ */
+export async function downloadImage(url) {
+  const ext = path.extname(new URL(url).pathname).toLowerCase()
+  const file = path.join(CACHE_DIR, 'remote', `${createHash('sha1').update(url).digest('hex').slice(0, 10)}${ext}`)
+  await cached(file, async () => {
+    const response = await fetch(url, { signal: AbortSignal.timeout(20_000) })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(file, Buffer.from(await response.arrayBuffer()))
+  })
+  return file
+}
+
+/**
+ * Turn one local image into responsive variants: every target width in AVIF, WebP and JPEG,
+ * a blurred placeholder and the intrinsic size. Variants are cached by content hash so rebuilds
+ * only encode new or changed images; with `outdir` they are also copied to <outdir>/images.
+ *
+ * @param {string} file Source image path
+ * @param {{ outdir?: string }} [options]
+ * @returns {Promise<import('../src/data/images').ResponsiveImage>}
+ */
+export async function processImage(file, { outdir } = {}) {
+  const input = await readFile(file)
+  const name = hashedName(file, input)
+
+  // EXIF orientations 5-8 are rotated by 90°, so the displayed size is swapped
+  const metadata = await sharp(input).metadata()
+  const [width, height] =
+    (metadata.orientation ?? 1) >= 5 ? [metadata.height, metadata.width] : [metadata.width, metadata.height]
+  const widths = targetWidths(width)
+
+  await mkdir(CACHE_DIR, { recursive: true })
+  const variants = []
+  for (const format of FORMATS) {
+    for (const w of widths) {
+      const fileName = `${name}-${w}.${format.ext}`
+      await cached(path.join(CACHE_DIR, fileName), () =>
+        format.encode(sharp(input).rotate().resize({ width: w })).toFile(path.join(CACHE_DIR, fileName))
+      )
+      variants.push({ format, width: w, fileName })
+    }
+  }
+
+  if (outdir) {
+    await mkdir(path.join(outdir, 'images'), { recursive: true })
+    await Promise.all(
+      variants.map(({ fileName }) => copyFile(path.join(CACHE_DIR, fileName), path.join(outdir, 'images', fileName)))
+    )
+  }
+
+  const placeholder = await sharp(input).rotate().resize({ width: 16 }).blur().webp({ quality: 40 }).toBuffer()
+  const srcSet = (format) =>
+    variants
+      .filter((v) => v.format === format)
+      .map((v) => `${IMAGES_URL}/${v.fileName} ${v.width}w`)
+      .join(', ')
+  const fallback = FORMATS[FORMATS.length - 1]
+
+  return {
+    src: `${IMAGES_URL}/${name}-${widths[widths.length - 1]}.${fallback.ext}`,
+    srcSet: srcSet(fallback),
+    sources: FORMATS.slice(0, -1).map((format) => ({ type: format.type, srcSet: srcSet(format) })),
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+  }
+}
+
+/**
+ * Publish a media file that is served unchanged (video, PDF, animation) under a content-hashed name.
+ * With `outdir` it is copied to <outdir>/media; returns its site URL.
+ *
+ * @param {string} file Source file path
+ * @param {{ outdir?: string }} [options]
+ */
+export async function publishFile(file, { outdir } = {}) {
+  const input = await readFile(file)
+  const fileName = `${hashedName(file, input)}${path.extname(file).toLowerCase()}`
+  if (outdir) {
+    await mkdir(path.join(outdir, 'media'), { recursive: true })
+    await copyFile(file, path.join(outdir, 'media', fileName))
+  }
+  return `${MEDIA_URL}/${fileName}`
+}
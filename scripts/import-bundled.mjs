@@ -0,0 +1,37 @@
+import * as esbuild from 'esbuild'
+import { mkdir } from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+
+const CACHE_DIR = 'node_modules/.cache/build'
+
+/**
+ * Bundle a TypeScript/TSX source module for Node and import it.
+ * Lets the build scripts reuse app code (routes, schemas, renderers) without a separate compile step.
+ *
+ * @param {string} entry Source entry point, relative to the project root
+ * @param {esbuild.BuildOptions} [options] Extra esbuild options (plugins, loaders)
+ */
+export async function importBundled(entry, options = {}) {
+  await mkdir(CACHE_DIR, { recursive: true })
+  const outfile = path.resolve(CACHE_DIR, `${path.basename(entry).replace(/\.[jt]sx?$/, '')}.mjs`)
+
+  await esbuild.build({
+    entryPoints: [entry],
+    outfile,
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    jsx: 'automatic',
+    packages: 'external',
+    logLevel: 'warning',
+    loader: {
+      '.css': 'empty',
+      '.png': 'empty',
+    },
+    ...options,
+  })
+
+  // Cache-bust so watch mode picks up a fresh module on every rebuild
+  return import(`${pathToFileURL(outfile).href}?t=${Date.now()}`)
+}
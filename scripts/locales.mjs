@@ -0,0 +1,61 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { importBundled } from './import-bundled.mjs'
+
+/** Translation sources, one folder per language (src/i18n/locales/ar/portfolio.ts) */
+const LOCALES_DIR = 'src/i18n/locales'
+
+/** Module bundling every namespace in every language */
+const RESOURCES_ENTRY = 'src/i18n/resources.ts'
+
+/**
+ * Write every namespace of every language to <outdir>/locales/<language>/<namespace>.json,
+ * the files the browser backend (src/i18n/backend.ts) loads on demand.
+ *
+ * @param {string} outdir Build output directory
+ */
+export async function writeLocales(outdir) {
+  const { resources } = await importBundled(RESOURCES_ENTRY)
+  for (const [language, namespaces] of Object.entries(resources)) {
+    const dir = path.join(outdir, 'locales', language)
+    await mkdir(dir, { recursive: true })
+    for (const [namespace, messages] of Object.entries(namespaces)) {
+      await writeFile(path.join(dir, `${namespace}.json`), JSON.stringify(messages))
+    }
+  }
+}
+
+/**
+ * List the translation source files, so watch mode rebuilds when one changes.
+ */
+async function listLocaleFiles() {
+  const entries = await readdir(LOCALES_DIR, { recursive: true, withFileTypes: true })
+  return entries.filter((entry) => entry.isFile()).map((entry) => path.resolve(entry.parentPath, entry.name))
+}
+
+/**
+ * esbuild plugin writing the locale JSON files after every build.
+ * The browser bundle never imports the translations (only their types), so the backend module
+ * declares them as watch files to make edits trigger a rebuild in development.
+ */
+export function localesPlugin() {
+  return {
+    name: 'locales',
+    setup(build) {
+      build.onLoad({ filter: /[\\/]i18n[\\/]backend\.ts$/ }, async (args) => ({
+        contents: await readFile(args.path, 'utf8'),
+        loader: 'ts',
+        watchFiles: await listLocaleFiles(),
+      }))
+
+      build.onEnd(async (result) => {
+        if (result.errors.length > 0) return
+        try {
+          await writeLocales(build.initialOptions.outdir)
+        } catch (error) {
+          result.errors.push({ text: `Could not write locales: ${error.message}` })
+        }
+      })
+    },
+  }
+}
@@ -0,0 +1,172 @@
+import { Resvg } from '@resvg/resvg-js'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+
+const require = createRequire(import.meta.url)
+
+const WIDTH = 1200
+const HEIGHT = 630
+const PADDING = 80
+const LOGO_SIZE = 120
+const TITLE_SIZE = 64
+const TITLE_LINE_HEIGHT = 80
+const MAX_TITLE_LINES = 3
+const CACHE_DIR = 'node_modules/.cache/build'
+
+// IBM Plex Sans Arabic (same family as the site) as TTF; resvg shapes Arabic and lays out RTL text with it
+const FONT_FAMILY = 'IBM Plex Sans Arabic'
+const FONT_FILES = ['400Regular/IBMPlexSansArabic_400Regular.ttf', '700Bold/IBMPlexSansArabic_700Bold.ttf'].map(
+  (file) => require.resolve(`@expo-google-fonts/ibm-plex-sans-arabic/${file}`)
+)
+
+/**
+ * Brand palette from tailwind.config.js (theme.extend.colors.brand).
+ *
+ * @returns {Record<'red' | 'terracotta' | 'brown' | 'sand' | 'charcoal' | 'ink', string>}
+ */
+function brandColors() {
+  return require(path.resolve('tailwind.config.js')).theme.extend.colors.brand
+}
+
+/**
+ * Escape a value for SVG text/attributes.
+ *
+ * @param {string} value
+ */
+function xml(value) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Load the logo as a data URI, downloading it once into the build cache.
+ * Returns null when it can't be fetched (offline builds); cards then show a monogram instead.
+ *
+ * @param {string} url
+ */
+async function loadLogo(url) {
+  const cached = path.join(CACHE_DIR, 'share-logo.png')
+  try {
+    return `data:image/png;base64,${(await readFile(cached)).toString('base64')}`
+  } catch {
+    /* not cached yet */
+  }
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10_000) })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    const data = Buffer.from(await response.arrayBuffer())
+    await mkdir(CACHE_DIR, { recursive: true })
+    await writeFile(cached, data)
+    return `data:image/png;base64,${data.toString('base64')}`
+  } catch (error) {
+    console.warn(`Share images: logo unavailable (${error.message}), using a monogram`)
+    return null
+  }
+}
+
+/**
+ * Render an SVG to PNG with the brand fonts.
+ *
+ * @param {string} svg
+ */
+function rasterize(svg) {
+  return new Resvg(svg, {
+    font: { fontFiles: FONT_FILES, loadSystemFonts: false, defaultFontFamily: FONT_FAMILY },
+  })
+}
+
+/**
+ * Rendered width of one line of title text (measured with the real font, so Arabic shaping is accounted for).
+ *
+ * @param {string} text
+ */
+function measure(text) {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH * 2}" height="${TITLE_LINE_HEIGHT}"><text x="0" y="${TITLE_SIZE}" font-family="${FONT_FAMILY}" font-size="${TITLE_SIZE}" font-weight="700">${xml(text)}</text></svg>`
+  return rasterize(svg).getBBox()?.width ?? 0
+}
+
+/**
+ * Greedy word wrap to the available width, ending with an ellipsis when the title is too long.
+ *
+ * @param {string} title
+ * @param {number} maxWidth
+ */
+function wrapTitle(title, maxWidth) {
+  const lines = []
+  let line = ''
+  for (const word of title.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (!line || measure(candidate) <= maxWidth) {
+      line = candidate
+    } else {
+      lines.push(line)
+      line = word
+    }
+  }
+  if (line) lines.push(line)
+  if (lines.length <= MAX_TITLE_LINES) return lines
+  const kept = lines.slice(0, MAX_TITLE_LINES)
+  kept[MAX_TITLE_LINES - 1] += ' …'
+  return kept
+}
+
+/**
+ * SVG markup of one share card.
+ * Layout mirrors for Arabic: logo, category and title are aligned to the right.
+ *
+ * @param {{ title: string, category: string }} card
+ * @param {'en' | 'ar'} language
+ * @param {ReturnType<typeof brandColors>} colors
+ * @param {string | null} logo Logo data URI
+ * @param {string} siteUrl
+ */
+function cardSvg(card, language, colors, logo, siteUrl) {
+  const rtl = language === 'ar'
+  const startX = rtl ? WIDTH - PADDING : PADDING
+  const anchor = rtl ? 'end' : 'start'
+  const direction = rtl ? 'rtl' : 'ltr'
+  const logoX = rtl ? WIDTH - PADDING - LOGO_SIZE : PADDING
+  const text = (x, y, size, weight, fill, value, options = {}) =>
+    `<text x="${x}" y="${y}" font-family="${FONT_FAMILY}" font-size="${size}" font-weight="${weight}" fill="${fill}" text-anchor="${options.anchor ?? anchor}" direction="${options.direction ?? direction}">${xml(value)}</text>`
+
+  const lines = wrapTitle(card.title, WIDTH - PADDING * 2)
+  const titleTop = 280 + ((MAX_TITLE_LINES - lines.length) * TITLE_LINE_HEIGHT) / 2
+  const logoMarkup = logo
+    ? `<image href="${logo}" x="${logoX + 12}" y="${PADDING + 12}" width="${LOGO_SIZE - 24}" height="${LOGO_SIZE - 24}" preserveAspectRatio="xMidYMid meet"/>`
+    : text(logoX + LOGO_SIZE / 2, PADDING + 84, 64, 700, colors.red, 'E', { anchor: 'middle', direction: 'ltr' })
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+  <rect width="${WIDTH}" height="${HEIGHT}" fill="${colors.sand}"/>
+  <rect x="${rtl ? WIDTH - 16 : 0}" width="16" height="${HEIGHT}" fill="${colors.red}"/>
+  <circle cx="${rtl ? 0 : WIDTH}" cy="${HEIGHT}" r="260" fill="${colors.terracotta}" fill-opacity="0.25"/>
+  <rect x="${logoX}" y="${PADDING}" width="${LOGO_SIZE}" height="${LOGO_SIZE}" rx="24" fill="#ffffff"/>
+  ${logoMarkup}
+  ${text(startX, 252, 30, 700, colors.red, card.category)}
+  ${lines.map((line, index) => text(startX, titleTop + TITLE_SIZE + index * TITLE_LINE_HEIGHT, TITLE_SIZE, 700, colors.charcoal, line)).join('\n  ')}
+  <rect x="${PADDING}" y="${HEIGHT - PADDING}" width="${WIDTH - PADDING * 2}" height="2" fill="${colors.brown}" fill-opacity="0.4"/>
+  ${text(startX, HEIGHT - 40, 28, 400, colors.brown, `Eng.EmadAlddine · ${new URL(siteUrl).host}`, { direction: 'ltr' })}
+</svg>`
+}
+
+/**
+ * Render a 1200×630 PNG share card for every prerendered page that has SEO tags.
+ * Files land at the paths the SEO component links to (dist/og/<lang>/<slug>.png).
+ *
+ * @param {string} outdir Build output directory
+ * @param {{ siteUrl: string, shareLogo: string, pages: Array<{ language: string, card: { file: string, title: string, category: string } | null }> }} options
+ */
+export async function generateShareImages(outdir, { siteUrl, shareLogo, pages }) {
+  const colors = brandColors()
+  const logo = await loadLogo(shareLogo)
+
+  let count = 0
+  for (const { language, card } of pages) {
+    if (!card) continue
+    const file = path.join(outdir, card.file)
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(file, rasterize(cardSvg(card, language, colors, logo, siteUrl)).render().asPng())
+    count++
+  }
+
+  console.log(`Generated ${count} share images`)
+}
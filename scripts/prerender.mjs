@@ -0,0 +1,44 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { importBundled } from './import-bundled.mjs'
+import { contentPlugin } from './content.mjs'
+
+/**
+ * Prerender every route in every language into dist/.
+ * Pages are written under their language prefix (dist/en/portfolio/3/index.html,
+ * dist/ar/portfolio/3/index.html) so each URL maps to a real HTML file.
+ * dist/index.html stays the client shell that redirects / to the preferred language.
+ * Returns the rendered pages (for the sitemap and share images) and the production origin.
+ *
+ * @param {string} outdir Build output directory holding the client index.html
+ * @returns {Promise<{ siteUrl: string, shareLogo: string, languages: readonly string[], pages: Array<{ route: string, language: string, indexable: boolean, card: import('../src/entry-server').ShareCard | null }> }>}
+ */
+export async function prerender(outdir) {
+  const { render, routes, languages, siteUrl, shareLogo } = await importBundled('src/entry-server.tsx', {
+    // The main build already printed the content warnings
+    plugins: [contentPlugin({ warnings: false })],
+  })
+  const template = await readFile(path.join(outdir, 'index.html'), 'utf8')
+
+  const pages = []
+  for (const language of languages) {
+    for (const route of routes) {
+      const { html, head, htmlAttributes, card } = render(route, language)
+      const page = template
+        .replace(/<html[^>]*>/, `<html ${htmlAttributes}>`)
+        // Helmet provides the real <title>; drop the template placeholder
+        .replace(/<title>.*?<\/title>/, '')
+        .replace('<!--app-head-->', head)
+        .replace('<!--app-html-->', html)
+
+      const file = path.join(outdir, language, route, 'index.html')
+      await mkdir(path.dirname(file), { recursive: true })
+      await writeFile(file, page)
+      // Pages with <meta name="robots" content="noindex"> stay out of the sitemap
+      pages.push({ route, language, indexable: !/<meta[^>]*name="robots"[^>]*noindex/.test(head), card })
+    }
+  }
+
+  console.log(`Prerendered ${pages.length} pages`)
+  return { siteUrl, shareLogo, languages, pages }
+}
@@ -0,0 +1,64 @@
+import { writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * Escape a value for XML text/attributes.
+ *
+ * @param {string} value
+ */
+function xml(value) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Absolute URL of a route in a language (mirrors localizePath in src/utils/routes.ts).
+ *
+ * @param {string} siteUrl Production origin without a trailing slash
+ * @param {string} route Route without the language prefix ("/", "/portfolio/3")
+ * @param {string} language
+ */
+function pageUrl(siteUrl, route, language) {
+  return `${siteUrl}/${language}${route === '/' ? '' : route}`
+}
+
+/**
+ * Write sitemap.xml and robots.txt into the build output.
+ * Every indexable route gets one <url> per language, each listing all language versions
+ * (plus x-default, the English page) as xhtml:link hreflang alternates.
+ * Pages marked noindex are left out.
+ *
+ * @param {string} outdir Build output directory
+ * @param {{ siteUrl: string, languages: readonly string[], pages: Array<{ route: string, language: string, indexable: boolean }> }} options
+ */
+export async function writeSitemap(outdir, { siteUrl, languages, pages }) {
+  const entries = pages
+    .filter((page) => page.indexable)
+    .map(({ route, language }) => {
+      const alternates = [
+        ...languages.map(
+          (alt) => `    <xhtml:link rel="alternate" hreflang="${alt}" href="${xml(pageUrl(siteUrl, route, alt))}"/>`
+        ),
+        `    <xhtml:link rel="alternate" hreflang="x-default" href="${xml(pageUrl(siteUrl, route, languages[0]))}"/>`,
+      ]
+      return [
+        '  <url>',
+        `    <loc>${xml(pageUrl(siteUrl, route, language))}</loc>`,
+        ...alternates,
+        '  </url>',
+      ].join('\n')
+    })
+
+  const sitemap = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...entries,
+    '</urlset>',
+    '',
+  ].join('\n')
+
+  const robots = ['User-agent: *', 'Allow: /', '', `Sitemap: ${siteUrl}/sitemap.xml`, ''].join('\n')
+
+  await writeFile(path.join(outdir, 'sitemap.xml'), sitemap)
+  await writeFile(path.join(outdir, 'robots.txt'), robots)
+  console.log(`Sitemap: ${entries.length} URLs`)
+}
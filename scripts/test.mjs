@@ -0,0 +1,15 @@
+import { readdir } from 'node:fs/promises'
+import path from 'node:path'
+import { importBundled } from './import-bundled.mjs'
+
+/**
+ * Unit tests: bundle every src/**\/*.test.ts(x) file and run it with the built-in node:test runner
+ * (tests register on import and report when the process exits).
+ */
+const files = (await readdir('src', { recursive: true }))
+  .filter((file) => /\.test\.tsx?$/.test(file))
+  .sort()
+
+for (const file of files) {
+  await importBundled(path.join('src', file))
+}
@@ -0,0 +1,117 @@
+/**
+ * Contact handler
+ * Minimal Node request handler behind POST /api/contact:
+ * validates the body against the shared inquiry schema, stores it and answers with a SubmissionResult.
+ * Used by the dev server (scripts/build.mjs) and the standalone scripts/contact-server.mjs.
+ */
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { inquirySchema, type Inquiry, type SubmissionResult } from '../src/lib/inquiry';
+
+/** Largest accepted request body in bytes */
+const MAX_BODY_BYTES = 16 * 1024;
+
+/** Where accepted inquiries go */
+export interface InquiryStore {
+  save(inquiry: Inquiry): Promise<void>;
+}
+
+/**
+ * Store writing one pretty-printed JSON file per inquiry into `dir`.
+ */
+export function createFileStore(dir: string): InquiryStore {
+  return {
+    async save(inquiry) {
+      await mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${inquiry.receivedAt.replace(/[:.]/g, '-')}-${inquiry.id}.json`);
+      await writeFile(file, `${JSON.stringify(inquiry, null, 2)}\n`, { flag: 'wx' });
+    },
+  };
+}
+
+/** Raised by readBody once the body goes past MAX_BODY_BYTES */
+class BodyTooLargeError extends Error {}
+
+/**
+ * Read the request body, rejecting bodies above MAX_BODY_BYTES.
+ * The rest of an oversized body is drained unbuffered so the 413 response still reaches the client.
+ */
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      req.resume();
+      reject(new BodyTooLargeError());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off('data', onData);
+        req.resume();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/** Write a JSON SubmissionResult */
+function send(res: ServerResponse, status: number, result: SubmissionResult, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(result));
+}
+
+/**
+ * Create the request handler for POST /api/contact.
+ */
+export function createContactHandler(store: InquiryStore) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      send(res, 405, { ok: false, error: 'invalid' });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        const issues = [{ path: '(body)', message: 'expected a body under 16 KB' }];
+        send(res, 413, { ok: false, error: 'invalid', issues }, { Connection: 'close' });
+        return;
+      }
+      send(res, 400, { ok: false, error: 'invalid', issues: [{ path: '(body)', message: 'expected a JSON body' }] });
+      return;
+    }
+
+    const parsed = inquirySchema.safeParse(payload);
+    if (!parsed.success) {
+      send(res, 400, {
+        ok: false,
+        error: 'invalid',
+        issues: parsed.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+      });
+      return;
+    }
+
+    const inquiry: Inquiry = { ...parsed.data, id: randomUUID(), receivedAt: new Date().toISOString() };
+    try {
+      await store.save(inquiry);
+    } catch (error) {
+      console.error('Failed to store inquiry', error);
+      send(res, 500, { ok: false, error: 'server' });
+      return;
+    }
+
+    send(res, 201, { ok: true, id: inquiry.id });
+  };
+}
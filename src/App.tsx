@@ -1,10 +1,17 @@
 /**
  * Main application component with routing and theme provider
  * Manages global layout and navigation between pages
+ * The router and HelmetProvider are supplied by the entry point
+ * (browser in main.tsx, static in entry-server.tsx) so the same tree can be prerendered.
+ * Every page lives under a language prefix: /en/portfolio/3, /ar/portfolio/3.
+ * Components suspend while their translation namespace loads; on hydration the prerendered markup stays in place.
  */
-import { HashRouter, Route, Routes } from 'react-router';
-import { HelmetProvider, Helmet } from 'react-helmet-async';
+import { Suspense } from 'react';
+import { Route, Routes } from 'react-router';
+import { Helmet } from 'react-helmet-async';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
+import { PackagePreviewProvider } from './contexts/PackagePreviewContext';
 import Header from './components/Header';
 import Footer from './components/Footer';
 import WhatsAppFloat from './components/WhatsAppFloat';
@@ -13,8 +20,12 @@ import PortfolioPage from './pages/Portfolio';
 import AboutPage from './pages/About';
 import ServicesPage from './pages/Services';
 import ContactPage from './pages/Contact';
+import BriefPage from './pages/Brief';
+import QuotePage from './pages/Quote';
+import InvoicePage from './pages/Invoice';
 import ProjectDetailsPage from './pages/ProjectDetails';
 import BackToTop from './components/BackToTop';
+import { LanguageOutlet, LanguageRedirect } from './components/LanguageRoute';
 
 /** 
  * Import global font stylesheet so IBM Plex Sans Arabic applies to all pages 
@@ -31,34 +42,44 @@ export default function App() {
 
   return (
     <ThemeProvider>
-      {/* HelmetProvider enables per-page SEO meta via react-helmet-async */}
-      <HelmetProvider>
-        {/* Global tab title + favicon (pages can still add OG via SEO component) */}
-        <Helmet>
-          <title>Eng.EmadAlddine</title>
-          <link rel="icon" href={faviconUrl} type="image/png" />
-          <link rel="shortcut icon" href={faviconUrl} type="image/png" />
-        </Helmet>
+      <CurrencyProvider>
+        <PackagePreviewProvider>
+          <Suspense fallback={null}>
+            {/* Global tab title + favicon (pages can still add OG via SEO component) */}
+            <Helmet>
+              <title>Eng.EmadAlddine</title>
+              <link rel="icon" href={faviconUrl} type="image/png" />
+              <link rel="shortcut icon" href={faviconUrl} type="image/png" />
+            </Helmet>
 
-        <HashRouter>
-          <div className="min-h-screen bg-[#d9cab1] dark:bg-[#1a1a1a] text-[#2d2d2d] dark:text-[#d9cab1] transition-colors duration-300">
-            <Header />
-            <main className="pt-16">
-              <Routes>
-                <Route path="/" element={<HomePage />} />
-                <Route path="/portfolio" element={<PortfolioPage />} />
-                <Route path="/portfolio/:id" element={<ProjectDetailsPage />} />
-                <Route path="/about" element={<AboutPage />} />
-                <Route path="/services" element={<ServicesPage />} />
-                <Route path="/contact" element={<ContactPage />} />
-              </Routes>
-            </main>
-            <Footer />
-            <WhatsAppFloat />
-            <BackToTop />
-          </div>
-        </HashRouter>
-      </HelmetProvider>
+            <div className="min-h-screen bg-[#d9cab1] dark:bg-[#1a1a1a] text-[#2d2d2d] dark:text-[#d9cab1] transition-colors duration-300 print:bg-white print:min-h-0">
+              <Header />
+              <main className="pt-16 print:pt-0">
+                <Suspense fallback={null}>
+                  <Routes>
+                    <Route path="/" element={<LanguageRedirect />} />
+                    <Route path="/:lang" element={<LanguageOutlet />}>
+                      <Route index element={<HomePage />} />
+                      <Route path="portfolio" element={<PortfolioPage />} />
+                      <Route path="portfolio/:id" element={<ProjectDetailsPage />} />
+                      <Route path="about" element={<AboutPage />} />
+                      <Route path="services" element={<ServicesPage />} />
+                      <Route path="contact" element={<ContactPage />} />
+                      <Route path="brief" element={<BriefPage />} />
+                      <Route path="quote" element={<QuotePage />} />
+                      <Route path="invoice" element={<InvoicePage />} />
+                    </Route>
+                    <Route path="*" element={<LanguageOutlet />} />
+                  </Routes>
+                </Suspense>
+              </main>
+              <Footer />
+              <WhatsAppFloat />
+              <BackToTop />
+            </div>
+          </Suspense>
+        </PackagePreviewProvider>
+      </CurrencyProvider>
     </ThemeProvider>
   );
 }
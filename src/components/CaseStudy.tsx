@@ -0,0 +1,170 @@
+/**
+ * CaseStudy component
+ * Renders a project's structured case study in sections on the details page:
+ * - Facts (client, year, role, deliverables)
+ * - Challenge / approach / outcome narrative
+ * - Before/after image pairs
+ * - Brand palette swatches
+ * Each section only renders when the project provides that data.
+ */
+import React from 'react';
+import { Briefcase, Calendar, Package, User } from 'lucide-react';
+import type { CaseStudy as CaseStudyData } from '../data/projects';
+import { useTheme } from '../contexts/ThemeContext';
+import { useTranslation } from '../i18n';
+import { useInView } from '../hooks/useInView';
+import ResponsiveImage from './ResponsiveImage';
+import { localize } from '../utils/localize';
+
+/** Props for CaseStudy */
+interface CaseStudyProps {
+  /** Case study data of the current project */
+  caseStudy: CaseStudyData;
+}
+
+/** Card wrapper with the shared reveal animation */
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => {
+  const reveal = useInView({ threshold: 0.1, once: true });
+  return (
+    <section
+      ref={reveal.ref as unknown as React.RefObject<HTMLElement>}
+      className={`bg-white dark:bg-[#2d2d2d] rounded-2xl p-6 sm:p-8 shadow-lg transition-all duration-500 ease-in-out ${reveal.inView ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-6'}`}
+    >
+      <h2 className="text-2xl font-bold text-[#8f1819] dark:text-[#bd7b6a] mb-6">{title}</h2>
+      {children}
+    </section>
+  );
+};
+
+/** Single fact row (icon + label + value) */
+const Fact: React.FC<{ icon: React.ElementType; label: string; children: React.ReactNode }> = ({ icon: Icon, label, children }) => (
+  <div className="flex items-start gap-3">
+    <span className="h-10 w-10 rounded-xl bg-[#8f1819]/10 dark:bg-[#bd7b6a]/10 flex items-center justify-center flex-shrink-0">
+      <Icon className="h-5 w-5 text-[#8f1819] dark:text-[#bd7b6a]" />
+    </span>
+    <div className="min-w-0">
+      <div className="text-xs uppercase tracking-wide text-[#9c7860] dark:text-[#d9cab1]/60">{label}</div>
+      <div className="font-medium text-[#2d2d2d] dark:text-[#d9cab1]">{children}</div>
+    </div>
+  </div>
+);
+
+const CaseStudy: React.FC<CaseStudyProps> = ({ caseStudy }) => {
+  const { language } = useTheme();
+  const { t } = useTranslation('project');
+
+  const hasFacts = caseStudy.client || caseStudy.year || caseStudy.role || caseStudy.deliverables?.length;
+  const story = [
+    { key: 'challenge', title: t('challenge'), text: caseStudy.challenge },
+    { key: 'approach', title: t('approach'), text: caseStudy.approach },
+    { key: 'outcome', title: t('outcome'), text: caseStudy.outcome },
+  ].filter((item) => item.text);
+
+  return (
+    <div className="space-y-8">
+      {/* Facts */}
+      {hasFacts && (
+        <Section title={t('caseStudy')}>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            {caseStudy.client && (
+              <Fact icon={Briefcase} label={t('client')}>
+                {localize(caseStudy.client, language)}
+              </Fact>
+            )}
+            {caseStudy.year && (
+              <Fact icon={Calendar} label={t('year')}>
+                {caseStudy.year}
+              </Fact>
+            )}
+            {caseStudy.role && (
+              <Fact icon={User} label={t('role')}>
+                {localize(caseStudy.role, language)}
+              </Fact>
+            )}
+            {caseStudy.deliverables?.length ? (
+              <Fact icon={Package} label={t('deliverables')}>
+                <ul className="flex flex-wrap gap-2 mt-1">
+                  {caseStudy.deliverables.map((item, idx) => (
+                    <li
+                      key={idx}
+                      className="px-3 py-1 text-xs font-medium bg-[#d9cab1] dark:bg-[#1a1a1a] text-[#8f1819] dark:text-[#bd7b6a] rounded-full"
+                    >
+                      {localize(item, language)}
+                    </li>
+                  ))}
+                </ul>
+              </Fact>
+            ) : null}
+          </div>
+        </Section>
+      )}
+
+      {/* Challenge / approach / outcome */}
+      {story.length > 0 && (
+        <div className={`grid grid-cols-1 gap-8 ${story.length > 1 ? 'lg:grid-cols-3' : ''}`}>
+          {story.map((item) => (
+            <Section key={item.key} title={item.title}>
+              <p className="text-[#9c7860] dark:text-[#d9cab1]/80 leading-relaxed">{localize(item.text!, language)}</p>
+            </Section>
+          ))}
+        </div>
+      )}
+
+      {/* Before / after */}
+      {caseStudy.beforeAfter?.length ? (
+        <Section title={t('beforeAfter')}>
+          <div className="space-y-8">
+            {caseStudy.beforeAfter.map((pair, idx) => (
+              <figure key={idx} className="space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {([
+                    ['before', pair.before],
+                    ['after', pair.after],
+                  ] as const).map(([key, src]) => (
+                    <div key={key} className="relative rounded-xl overflow-hidden aspect-[4/3] bg-[#d9cab1] dark:bg-[#1a1a1a]">
+                      <ResponsiveImage
+                        src={src}
+                        sizes="(min-width: 1152px) 536px, (min-width: 640px) 45vw, 92vw"
+                        alt={`${t(key)} ${idx + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                      <span className="absolute top-3 ltr:left-3 rtl:right-3 px-3 py-1 rounded-full text-xs font-semibold bg-black/60 text-white">
+                        {t(key)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {pair.caption && (
+                  <figcaption className="text-sm text-[#9c7860] dark:text-[#d9cab1]/80">{localize(pair.caption, language)}</figcaption>
+                )}
+              </figure>
+            ))}
+          </div>
+        </Section>
+      ) : null}
+
+      {/* Palette */}
+      {caseStudy.palette?.length ? (
+        <Section title={t('palette')}>
+          <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+            {caseStudy.palette.map((swatch) => (
+              <li key={swatch.hex} className="rounded-xl overflow-hidden shadow ring-1 ring-black/5 dark:ring-white/10">
+                <div className="h-20" style={{ backgroundColor: swatch.hex }} />
+                <div className="p-3 bg-[#fff9f3] dark:bg-[#1f1f1f]">
+                  {swatch.name && (
+                    <div className="text-sm font-semibold text-[#2d2d2d] dark:text-[#d9cab1]">{localize(swatch.name, language)}</div>
+                  )}
+                  <div className="text-xs font-mono uppercase text-[#9c7860] dark:text-[#d9cab1]/70" dir="ltr">
+                    {swatch.hex}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      ) : null}
+    </div>
+  );
+};
+
+export default CaseStudy;
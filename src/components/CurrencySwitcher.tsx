@@ -0,0 +1,59 @@
+/**
+ * Currency switcher for the header
+ * Dropdown of the supported display currencies; the choice applies to every price on the site.
+ */
+import React from 'react';
+import { Coins } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useTranslation } from '../i18n';
+import { CURRENCIES } from '../config/currency';
+import { isCurrencyCode } from '../utils/currency';
+
+const CurrencySwitcher: React.FC = () => {
+  const { language } = useTheme();
+  const { t } = useTranslation('common');
+  const { currency, setCurrency } = useCurrency();
+
+  return (
+    <DropdownMenu dir={language === 'ar' ? 'rtl' : 'ltr'}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          aria-label={t('currency.label', { code: currency })}
+          className="border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent"
+        >
+          <Coins className="h-4 w-4 mr-1 rtl:mr-0 rtl:ml-1" />
+          <span dir="ltr">{currency}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-[#f5efe6] dark:bg-[#2d2d2d] border-[#9c7860]/30">
+        <DropdownMenuLabel className="text-[#8f1819] dark:text-[#bd7b6a]">
+          {t('currency.showPricesIn')}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={currency} onValueChange={(value) => isCurrencyCode(value) && setCurrency(value)}>
+          {CURRENCIES.map((code) => (
+            <DropdownMenuRadioItem key={code} value={code} className="text-[#2d2d2d] dark:text-[#d9cab1] gap-2">
+              <span className="font-medium w-9" dir="ltr">{code}</span>
+              <span className="text-[#9c7860] dark:text-[#d9cab1]/70">{t(`currency.names.${code}`)}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default CurrencySwitcher;
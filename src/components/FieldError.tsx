@@ -0,0 +1,33 @@
+/**
+ * FieldError component
+ * Field-level validation message for forms built on components/ui/form.tsx.
+ * Schema messages are keys of the forms namespace (see lib/inquiry.ts); the text is shown in the current
+ * language and rendered with role="alert" so screen readers announce it.
+ */
+import React from 'react';
+import { useFormField } from './ui/form';
+import type { ParseKeys } from 'i18next';
+import { useTranslation } from '../i18n';
+
+/** Props for FieldError */
+interface FieldErrorProps {
+  /** Max length substituted into the "too long" message (its plural count) */
+  max?: number;
+}
+
+const FieldError: React.FC<FieldErrorProps> = ({ max }) => {
+  const { error, formMessageId } = useFormField();
+  const { t } = useTranslation('forms');
+  if (!error?.message) return null;
+
+  // Unknown messages (not a key of the forms namespace) are shown as-is
+  const text = t(error.message as ParseKeys<'forms'>, { count: max, defaultValue: error.message });
+
+  return (
+    <p id={formMessageId} role="alert" className="mt-1 text-sm font-medium text-red-600 dark:text-red-400">
+      {text}
+    </p>
+  );
+};
+
+export default FieldError;
@@ -3,11 +3,15 @@
  * Shows a floating, auto-playing carousel of provided images with controls
  * - Fixed position bottom-left to avoid the WhatsApp FAB on the right
  * - Collapsible with state persisted in localStorage
- * - Autoplay with pause-on-hover
+ * - Autoplay with pause-on-hover (and while the lightbox is open)
+ * - Click a slide to view the images full screen
  */
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import useEmblaCarousel, { EmblaCarouselType } from 'embla-carousel-react';
 import { ChevronLeft, ChevronRight, Pause, Play, Minus, Plus } from 'lucide-react';
+import Lightbox from './Lightbox';
+import ResponsiveImage from './ResponsiveImage';
+import type { MediaItem } from '../data/projects';
 
 /** Props for FloatingSlideshow */
 interface FloatingSlideshowProps {
@@ -43,6 +47,7 @@ const FloatingSlideshow: React.FC<FloatingSlideshowProps> = ({ images, ariaLabel
   // Persist collapsed state so it remembers user's preference.
   const [collapsed, setCollapsed] = useState<boolean>(() => storage.getBoolean('portfolio_slideshow_collapsed', false));
   const [isPlaying, setIsPlaying] = useState<boolean>(true);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
 
   /** Embla carousel setup */
   const [emblaRef, emblaApi] = useEmblaCarousel({ loop: true, align: 'start', speed: 6 });
@@ -69,10 +74,10 @@ const FloatingSlideshow: React.FC<FloatingSlideshowProps> = ({ images, ariaLabel
 
   /** Initialize autoplay when embla is ready */
   useEffect(() => {
-    if (!emblaApi || !isPlaying) return;
+    if (!emblaApi || !isPlaying || lightboxIndex !== null) return;
     start();
     return () => stop();
-  }, [emblaApi, isPlaying, start, stop]);
+  }, [emblaApi, isPlaying, lightboxIndex, start, stop]);
 
   /** Handlers */
   const onPrev = useCallback(() => emblaApi?.scrollPrev(), [emblaApi]);
@@ -83,8 +88,8 @@ const FloatingSlideshow: React.FC<FloatingSlideshowProps> = ({ images, ariaLabel
   }, [stop]);
 
   const onMouseLeave = useCallback(() => {
-    if (isPlaying) start();
-  }, [isPlaying, start]);
+    if (isPlaying && lightboxIndex === null) start();
+  }, [isPlaying, lightboxIndex, start]);
 
   /** Persist collapsed state when it changes */
   useEffect(() => {
@@ -97,6 +102,9 @@ const FloatingSlideshow: React.FC<FloatingSlideshowProps> = ({ images, ariaLabel
     return unique.length ? unique : images;
   }, [images]);
 
+  /** The same images as lightbox items */
+  const items = useMemo(() => slides.map((src): MediaItem => ({ type: 'image', src })), [slides]);
+
   if (!slides?.length) return null;
 
   return (
@@ -154,27 +162,37 @@ const FloatingSlideshow: React.FC<FloatingSlideshowProps> = ({ images, ariaLabel
               <div className="flex">
                 {slides.map((src, idx) => (
                   <div key={idx} className="min-w-0 flex-[0_0_100%]">
-                    <div className="aspect-[4/3] bg-[#d9cab1] dark:bg-[#1a1a1a] image-zoom">
-                      <img src={src} alt={`Project ${idx + 1}`} className="w-full h-full object-cover" />
-                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setLightboxIndex(idx)}
+                      aria-label={`Open image ${idx + 1}`}
+                      className="block w-full aspect-[4/3] bg-[#d9cab1] dark:bg-[#1a1a1a] image-zoom cursor-zoom-in"
+                    >
+                      <ResponsiveImage
+                        src={src}
+                        sizes="(min-width: 416px) 384px, 92vw"
+                        alt={`Project ${idx + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                    </button>
                   </div>
                 ))}
               </div>
             </div>
 
             {/* Prev / Next */}
-            <div className="absolute inset-0 flex items-center justify-between px-1">
+            <div className="pointer-events-none absolute inset-0 flex items-center justify-between px-1">
               <button
                 aria-label="Previous slide"
                 onClick={onPrev}
-                className="m-1 p-2 rounded-full bg-white/80 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] backdrop-blur-sm shadow"
+                className="pointer-events-auto m-1 p-2 rounded-full bg-white/80 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] backdrop-blur-sm shadow"
               >
                 <ChevronLeft className="h-5 w-5" />
               </button>
               <button
                 aria-label="Next slide"
                 onClick={onNext}
-                className="m-1 p-2 rounded-full bg-white/80 dark:bg.black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] backdrop-blur-sm shadow"
+                className="pointer-events-auto m-1 p-2 rounded-full bg-white/80 dark:bg.black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] backdrop-blur-sm shadow"
               >
                 <ChevronRight className="h-5 w-5" />
               </button>
@@ -187,6 +205,14 @@ const FloatingSlideshow: React.FC<FloatingSlideshowProps> = ({ images, ariaLabel
           </div>
         </div>
       )}
+
+      <Lightbox
+        items={items}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+        title="Portfolio Preview"
+      />
     </div>
   );
 };
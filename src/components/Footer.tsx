@@ -4,15 +4,13 @@
  */
 import React from 'react';
 import { Instagram, Linkedin, Mail, Phone, MapPin } from 'lucide-react';
-import { useTheme } from '../contexts/ThemeContext';
-import { useTranslation } from '../utils/translations';
+import { useTranslation } from '../i18n';
 
 /** Centralized contact email */
 const CONTACT_EMAIL = 'info@emadalddine.com';
 
 const Footer: React.FC = () => {
-  const { language } = useTheme();
-  const { t } = useTranslation(language);
+  const { t } = useTranslation('common');
 
   // Social media links (Dribbble removed as requested)
   const socialLinks = [
@@ -38,7 +36,7 @@ const Footer: React.FC = () => {
   ];
 
   return (
-    <footer className="bg-[#a76552] dark:bg-[#1a1a1a] text-white dark:text-[#d9cab1]">
+    <footer className="print:hidden bg-[#a76552] dark:bg-[#1a1a1a] text-white dark:text-[#d9cab1]">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           {/* Logo and Description */}
@@ -47,7 +45,7 @@ const Footer: React.FC = () => {
               <div className="w-12 h-12 rounded-full overflow-hidden bg-white p-1">
                 <img
                   src="https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/2f8833bb-848a-4376-9d94-4e9992a5b2b2.png"
-                  alt="EmadAlddine Logo"
+                  alt={t('logoAlt')}
                   className="w-full h-full object-contain"
                 />
               </div>
@@ -57,10 +55,7 @@ const Footer: React.FC = () => {
               </div>
             </div>
             <p className="text-sm opacity-80 leading-relaxed">
-              {language === 'en' 
-                ? 'Creative graphic designer with 9+ years of experience in branding and visual identity development.'
-                : 'مصمم جرافيك مبدع بخبرة تزيد عن 9 سنوات في تطوير العلامات التجارية والهوية البصرية.'
-              }
+              {t('footerAbout')}
             </p>
           </div>
 
@@ -78,7 +73,7 @@ const Footer: React.FC = () => {
               </a>
               <div className="flex items-center gap-3 opacity-90">
                 <MapPin className="h-4 w-4" />
-                <span>Al-Madina, Saudi Arabia</span>
+                <span>{t('location')}</span>
               </div>
             </div>
           </div>
@@ -4,49 +4,55 @@
  * - Sticky with shrink-on-scroll
  * - Sliding underline for current page
  * - Animated hamburger icon
+ * - Site search palette (button or Ctrl/Cmd+K)
+ * - Currency switcher for displayed prices
  */
 import React, { useState, useMemo } from 'react';
 import { Link, useLocation } from 'react-router';
-import { Menu, X, Sun, Moon, Globe } from 'lucide-react';
+import { Menu, X, Sun, Moon, Globe, Search } from 'lucide-react';
 import { Button } from './ui/button';
+import SearchPalette from './SearchPalette';
+import CurrencySwitcher from './CurrencySwitcher';
 import { useTheme } from '../contexts/ThemeContext';
-import { useTranslation } from '../utils/translations';
+import { useTranslation } from '../i18n';
 import { useScrollTrigger } from '../hooks/useScrollTrigger';
+import { localizePath } from '../utils/routes';
 
 const Header: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const { theme, language, toggleTheme, toggleLanguage } = useTheme();
-  const { t } = useTranslation(language);
+  const { t } = useTranslation('common');
   const location = useLocation();
   const scrolled = useScrollTrigger(10);
 
   const navigation = useMemo(
     () => [
-      { name: t('home'), href: '/' },
-      { name: t('portfolio'), href: '/portfolio' },
-      { name: t('about'), href: '/about' },
-      { name: t('services'), href: '/services' },
-      { name: t('contact'), href: '/contact' },
+      { name: t('home'), href: localizePath('/', language) },
+      { name: t('portfolio'), href: localizePath('/portfolio', language) },
+      { name: t('about'), href: localizePath('/about', language) },
+      { name: t('services'), href: localizePath('/services', language) },
+      { name: t('contact'), href: localizePath('/contact', language) },
     ],
-    [t]
+    [t, language]
   );
 
   const isActiveRoute = (href: string) => location.pathname === href;
 
   return (
     <header
-      className={`fixed top-0 left-0 right-0 z-50 backdrop-blur-md border-b border-[#9c7860]/20 dark:border-[#d9cab1]/20 transition-all duration-300 
+      className={`print:hidden fixed top-0 left-0 right-0 z-50 backdrop-blur-md border-b border-[#9c7860]/20 dark:border-[#d9cab1]/20 transition-all duration-300 
       ${scrolled ? 'bg-[#d9cab1]/90 dark:bg-[#1a1a1a]/90 shadow-md' : 'bg-[#d9cab1]/80 dark:bg-[#1a1a1a]/80'} 
       ${scrolled ? 'py-1' : 'py-2'}`}
     >
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className={`flex justify-between items-center transition-all duration-300 ${scrolled ? 'h-14' : 'h-16'}`}>
           {/* Logo */}
-          <Link to="/" className="flex items-center space-x-3 rtl:space-x-reverse group">
+          <Link to={localizePath('/', language)} className="flex items-center space-x-3 rtl:space-x-reverse group">
             <div className={`rounded-full overflow-hidden transition-all duration-300 ${theme === 'light' ? 'bg-white p-1' : ''} ${scrolled ? 'w-9 h-9' : 'w-10 h-10'}`}>
               <img
                 src="https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/2f8833bb-848a-4376-9d94-4e9992a5b2b2.png"
-                alt="EmadAlddine Logo"
+                alt={t('logoAlt')}
                 className="w-full h-full object-contain"
               />
             </div>
@@ -83,6 +89,22 @@ const Header: React.FC = () => {
 
           {/* Actions */}
           <div className="hidden md:flex items-center space-x-4 rtl:space-x-reverse">
+            {/* Search */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsSearchOpen(true)}
+              aria-label={t('search.label')}
+              aria-keyshortcuts="Control+K Meta+K"
+              className="border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent"
+            >
+              <Search className="h-4 w-4" />
+              <kbd className="hidden lg:inline ml-2 rtl:ml-0 rtl:mr-2 text-[10px] font-sans opacity-70" dir="ltr">Ctrl K</kbd>
+            </Button>
+
+            {/* Currency */}
+            <CurrencySwitcher />
+
             {/* Theme Toggle */}
             <Button
               variant="outline"
@@ -101,12 +123,22 @@ const Header: React.FC = () => {
               className="border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent"
             >
               <Globe className="h-4 w-4 mr-1 rtl:mr-0 rtl:ml-1" />
-              {language === 'en' ? 'ع' : 'EN'}
+              {t('switchLanguage')}
             </Button>
           </div>
 
           {/* Mobile menu button */}
           <div className="md:hidden flex items-center space-x-2 rtl:space-x-reverse">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsSearchOpen(true)}
+              aria-label={t('search.label')}
+              className="border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent"
+            >
+              <Search className="h-4 w-4" />
+            </Button>
+            <CurrencySwitcher />
             <Button
               variant="outline"
               size="sm"
@@ -121,12 +153,12 @@ const Header: React.FC = () => {
               onClick={toggleLanguage}
               className="border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent"
             >
-              {language === 'en' ? 'ع' : 'EN'}
+              {t('switchLanguage')}
             </Button>
             <button
               onClick={() => setIsMenuOpen((v) => !v)}
               className={`text-[#9c7860] dark:text-[#d9cab1] hover:text-[#8f1819] dark:hover:text-[#bd7b6a] transition-transform duration-300 ${isMenuOpen ? 'rotate-90' : 'rotate-0'}`}
-              aria-label="Toggle menu"
+              aria-label={t('toggleMenu')}
             >
               {isMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
             </button>
@@ -158,6 +190,8 @@ const Header: React.FC = () => {
           </div>
         )}
       </div>
+
+      <SearchPalette open={isSearchOpen} onOpenChange={setIsSearchOpen} />
     </header>
   );
 };
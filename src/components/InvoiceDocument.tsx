@@ -0,0 +1,185 @@
+/**
+ * InvoiceDocument component
+ * A4 quotation / tax invoice: seller (with its VAT number) and client blocks, document number and dates,
+ * line items with 15% VAT and totals in SAR. Labels are bilingual (page language first),
+ * and the layout follows the page direction so it prints correctly in Arabic and English.
+ */
+import React from 'react';
+import Price from './Price';
+import { useTranslation } from '../i18n';
+import { quoteLineLabel, type Quote, type QuoteLine } from '../lib/quote';
+import { allocateLineVat, formatDocumentDate, type ClientDetails, type DocumentMeta } from '../lib/invoice';
+import { SELLER_VAT_NUMBER } from '../config/invoice';
+import { formatSar } from '../utils/currency';
+import type invoiceMessages from '../i18n/locales/en/invoice';
+
+/** Seller contact shown on every document */
+const SELLER_EMAIL = 'info@emadalddine.com';
+const SELLER_PHONE = '+966 504487308';
+const SELLER_LOGO =
+  'https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/2f8833bb-848a-4376-9d94-4e9992a5b2b2.png';
+
+type Label = { en: string; ar: string };
+
+/** Printed labels (invoice namespace, `document.*`) */
+type DocumentLabels = (typeof invoiceMessages)['document'];
+
+/** Label in the page language with the other language underneath */
+const Bi: React.FC<{ label: Label; language: 'en' | 'ar' }> = ({ label, language }) => {
+  const other = language === 'en' ? 'ar' : 'en';
+  return (
+    <span className="block">
+      <span className="block">{label[language]}</span>
+      <span className="block text-[0.8em] font-normal opacity-70" lang={other} dir={other === 'ar' ? 'rtl' : 'ltr'}>
+        {label[other]}
+      </span>
+    </span>
+  );
+};
+
+/** Props for InvoiceDocument */
+interface InvoiceDocumentProps {
+  meta: DocumentMeta;
+  client: ClientDetails;
+  quote: Quote;
+  language: 'en' | 'ar';
+}
+
+const InvoiceDocument: React.FC<InvoiceDocumentProps> = ({ meta, client, quote, language }) => {
+  const { t } = useTranslation('common');
+  const { t: en } = useTranslation('invoice', 'en');
+  const { t: ar } = useTranslation('invoice', 'ar');
+  const { t: enQuote } = useTranslation('quote', 'en');
+  const { t: arQuote } = useTranslation('quote', 'ar');
+  const { t: enCommon } = useTranslation('common', 'en');
+  const { t: arCommon } = useTranslation('common', 'ar');
+  const label = (key: keyof DocumentLabels): Label => ({ en: en(`document.${key}`), ar: ar(`document.${key}`) });
+  const lineLabel = (line: QuoteLine): Label => ({
+    en: quoteLineLabel(line, 'en', enQuote, enCommon),
+    ar: quoteLineLabel(line, 'ar', arQuote, arCommon),
+  });
+  const title: Label = { en: en(`kind.${meta.kind}`), ar: ar(`kind.${meta.kind}`) };
+  const amount = (value: number) => <Price amount={value} currency="SAR" iconVariant="light" />;
+  const clientLines = [client.company, client.address, client.email, client.phone].filter(Boolean);
+  const lineVat = allocateLineVat(quote);
+
+  return (
+    <article
+      className="invoice-document bg-white text-[#2d2d2d] rounded-2xl shadow-lg p-8 sm:p-12 print:shadow-none print:rounded-none print:p-0 text-sm"
+      aria-label={title[language]}
+    >
+      {/* Header: seller + title */}
+      <header className="flex items-start justify-between gap-6 pb-6 border-b-2 border-[#8f1819]">
+        <div className="flex items-center gap-3">
+          <img src={SELLER_LOGO} alt="" className="h-14 w-14 object-contain" />
+          <div>
+            <div className="text-base font-bold text-[#8f1819]">{t('title')}</div>
+            <div className="text-[#9c7860]">{t('subtitle')}</div>
+            <div className="text-[#9c7860]" dir="ltr">
+              {SELLER_EMAIL} · {SELLER_PHONE}
+            </div>
+            {SELLER_VAT_NUMBER && (
+              <div className="text-[#9c7860]">
+                {label('vatNumber')[language]}: <span dir="ltr">{SELLER_VAT_NUMBER}</span>
+              </div>
+            )}
+          </div>
+        </div>
+        <h1 className="text-end text-3xl font-bold text-[#8f1819]">
+          <Bi language={language} label={title} />
+        </h1>
+      </header>
+
+      {/* Parties + meta */}
+      <section className="grid grid-cols-2 gap-8 py-6 border-b border-[#d9cab1]">
+        <div>
+          <h2 className="text-xs font-semibold uppercase tracking-wide text-[#9c7860] mb-2">
+            <Bi language={language} label={label('billTo')} />
+          </h2>
+          <div className="font-semibold text-base">{client.name || '—'}</div>
+          {clientLines.map((line, idx) => (
+            <div key={idx} className="whitespace-pre-line">
+              {line}
+            </div>
+          ))}
+          {client.vatNumber && (
+            <div>
+              {label('vatNumber')[language]}: <span dir="ltr">{client.vatNumber}</span>
+            </div>
+          )}
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 content-start">
+          <dt className="text-[#9c7860]"><Bi language={language} label={label('number')} /></dt>
+          <dd className="font-semibold text-end" dir="ltr">{meta.number}</dd>
+          <dt className="text-[#9c7860]"><Bi language={language} label={label('issueDate')} /></dt>
+          <dd className="text-end">{formatDocumentDate(meta.issueDate, language)}</dd>
+          <dt className="text-[#9c7860]"><Bi language={language} label={label(meta.kind === 'invoice' ? 'dueDate' : 'validUntil')} /></dt>
+          <dd className="text-end">{formatDocumentDate(meta.dueDate, language)}</dd>
+        </dl>
+      </section>
+
+      {/* Line items */}
+      <table className="w-full mt-6">
+        <thead>
+          <tr className="text-[#9c7860] border-b border-[#d9cab1] align-bottom">
+            <th className="py-2 text-start font-medium w-8">#</th>
+            <th className="py-2 text-start font-medium"><Bi language={language} label={label('item')} /></th>
+            <th className="py-2 text-end font-medium"><Bi language={language} label={label('unitPrice')} /></th>
+            <th className="py-2 text-end font-medium"><Bi language={language} label={label('qty')} /></th>
+            {quote.includeVat && <th className="py-2 text-end font-medium"><Bi language={language} label={label('vat')} /></th>}
+            <th className="py-2 text-end font-medium"><Bi language={language} label={label('amount')} /></th>
+          </tr>
+        </thead>
+        <tbody>
+          {quote.lines.map((line, idx) => (
+            <tr key={idx} className="border-b border-[#d9cab1]/60 break-inside-avoid">
+              <td className="py-3 align-top tabular-nums">{formatSar(idx + 1, language)}</td>
+              <td className="py-3 align-top">
+                <Bi language={language} label={lineLabel(line)} />
+              </td>
+              <td className="py-3 align-top text-end">{amount(line.unitPrice)}</td>
+              <td className="py-3 align-top text-end tabular-nums">{formatSar(line.quantity, language)}</td>
+              {quote.includeVat && (
+                <td className="py-3 align-top text-end">{amount(lineVat[idx])}</td>
+              )}
+              <td className="py-3 align-top text-end">{amount(line.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Totals */}
+      <div className="flex justify-end mt-6 break-inside-avoid">
+        <dl className="w-full max-w-xs space-y-2">
+          <div className="flex justify-between gap-4">
+            <dt><Bi language={language} label={label('subtotal')} /></dt>
+            <dd>{amount(quote.subtotal)}</dd>
+          </div>
+          {quote.includeVat && (
+            <div className="flex justify-between gap-4">
+              <dt><Bi language={language} label={label('vatTotal')} /></dt>
+              <dd>{amount(quote.vat)}</dd>
+            </div>
+          )}
+          <div className="flex justify-between gap-4 pt-2 border-t-2 border-[#8f1819] text-lg font-bold text-[#8f1819]">
+            <dt><Bi language={language} label={label(quote.includeVat ? 'total' : 'totalNoVat')} /></dt>
+            <dd>{amount(quote.total)}</dd>
+          </div>
+        </dl>
+      </div>
+
+      {/* Notes */}
+      <footer className="mt-10 pt-6 border-t border-[#d9cab1] text-xs text-[#9c7860] space-y-2 break-inside-avoid">
+        {meta.notes && (
+          <div>
+            <h2 className="font-semibold text-[#2d2d2d]">{label('notes')[language]}</h2>
+            <p className="whitespace-pre-line">{meta.notes}</p>
+          </div>
+        )}
+        <p>{label('currencyNote')[language]}</p>
+      </footer>
+    </article>
+  );
+};
+
+export default InvoiceDocument;
@@ -0,0 +1,32 @@
+/**
+ * Language route guards
+ * - LanguageOutlet: renders child routes when the :lang segment is a supported language,
+ *   otherwise treats the whole path as unprefixed and redirects to the preferred language.
+ * - LanguageRedirect: sends the bare root URL to the visitor's preferred language.
+ */
+import React from 'react';
+import { Navigate, Outlet, useLocation, useParams } from 'react-router';
+import { isLanguage, languageFromPathname, localizePath, preferredLanguage } from '../utils/routes';
+
+/** Outlet for /:lang/* routes */
+export const LanguageOutlet: React.FC = () => {
+  const { lang } = useParams();
+  const location = useLocation();
+
+  if (!isLanguage(lang)) {
+    // Unknown page under a valid prefix: fall back to that language's home page
+    const prefixed = languageFromPathname(location.pathname);
+    if (prefixed) return <Navigate replace to={localizePath('/', prefixed)} />;
+
+    // e.g. an old unprefixed link like /portfolio/3
+    return <Navigate replace to={{ pathname: localizePath(location.pathname, preferredLanguage()), search: location.search }} />;
+  }
+
+  return <Outlet />;
+};
+
+/** Redirect for the root URL */
+export const LanguageRedirect: React.FC = () => {
+  const location = useLocation();
+  return <Navigate replace to={{ pathname: localizePath('/', preferredLanguage()), search: location.search }} />;
+};
@@ -0,0 +1,397 @@
+/**
+ * Lightbox component
+ * Full-screen gallery viewer for a project's media, shared by the details page, project cards and the slideshow.
+ * - Arrow keys, buttons and swipe navigate (mirrored in Arabic); Escape closes
+ * - Images, PDF pages and animated images zoom with wheel, pinch, double-click and +/-; drag pans while zoomed
+ * - Videos play with controls; PDFs page with Up/Down (or PageUp/PageDown) and can be downloaded
+ * - Focus is trapped inside and restored on close (Radix Dialog)
+ * - Shows each item's caption and credit from the content
+ * - Controlled by index, so pages can mirror it in the URL (?image=3)
+ */
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import * as DialogPrimitive from '@radix-ui/react-dialog';
+import { ChevronLeft, ChevronRight, Download, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { AnimationClip, getMediaAlt, getMediaCaption, getMediaCredit } from './ProjectMedia';
+import ResponsiveImage from './ResponsiveImage';
+import { isVideoFile, type MediaItem } from '../data/projects';
+import { useTheme } from '../contexts/ThemeContext';
+import { useTranslation } from '../i18n';
+
+/** Props for Lightbox */
+interface LightboxProps {
+  /** Gallery items, in order */
+  items: MediaItem[];
+  /** Index of the image shown, or null when closed */
+  index: number | null;
+  /** Called with the new index when the visitor navigates */
+  onIndexChange: (index: number) => void;
+  /** Called when the visitor closes the viewer */
+  onClose: () => void;
+  /** Gallery title (project name), used for the dialog label and as fallback alt text */
+  title: string;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+/** Scale applied by double-click and the zoom buttons */
+const ZOOM_STEP = 1.5;
+/** Horizontal drag distance (px) that counts as a swipe */
+const SWIPE_THRESHOLD = 60;
+
+/** Zoom and pan of the current image */
+interface ViewState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const INITIAL_VIEW: ViewState = { scale: 1, x: 0, y: 0 };
+
+/** A gesture in progress on the image stage */
+type Gesture =
+  | { type: 'swipe'; startX: number }
+  | { type: 'pan'; startX: number; startY: number; originX: number; originY: number }
+  | { type: 'pinch'; distance: number; scale: number };
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/** Videos have their own controls, so they are neither zoomed nor swiped */
+function isZoomable(item: MediaItem): boolean {
+  return item.type !== 'video' && !(item.type === 'animation' && isVideoFile(item.src));
+}
+
+const Lightbox: React.FC<LightboxProps> = ({ items, index, onIndexChange, onClose, title }) => {
+  const { language } = useTheme();
+  const { t } = useTranslation('common');
+  const rtl = language === 'ar';
+  const open = index !== null && items.length > 0;
+  const current = open ? clamp(index, 0, items.length - 1) : 0;
+  const item = items[current];
+
+  const [view, setView] = useState<ViewState>(INITIAL_VIEW);
+  const [swipeOffset, setSwipeOffset] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const [page, setPage] = useState(0);
+  const [stage, setStage] = useState<HTMLDivElement | null>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<Gesture | null>(null);
+
+  // Every item starts unzoomed, documents on their first page
+  useEffect(() => {
+    setView(INITIAL_VIEW);
+    setSwipeOffset(0);
+    setPage(0);
+  }, [current, open]);
+
+  const pageCount = item?.type === 'pdf' ? item.pages.length : 0;
+  // Clamped, as the page of the previous document is only reset after the first render of the next one
+  const currentPage = clamp(page, 0, Math.max(pageCount - 1, 0));
+  const itemAlt = open ? getMediaAlt(item, language, `${title} - ${current + 1}`) : '';
+  const zoomable = open && isZoomable(item);
+
+  /**
+   * Apply a new scale, keeping the pan inside the enlarged image so it never drifts off screen
+   */
+  const zoomTo = useCallback(
+    (scale: number, pan?: { x: number; y: number }) => {
+      setView((prev) => {
+        const nextScale = clamp(scale, MIN_SCALE, MAX_SCALE);
+        const rect = stage?.getBoundingClientRect();
+        const maxX = rect ? (rect.width * (nextScale - 1)) / 2 : 0;
+        const maxY = rect ? (rect.height * (nextScale - 1)) / 2 : 0;
+        const target = pan ?? prev;
+        return { scale: nextScale, x: clamp(target.x, -maxX, maxX), y: clamp(target.y, -maxY, maxY) };
+      });
+    },
+    [stage]
+  );
+
+  /** Step through the gallery, wrapping at both ends like the carousels */
+  const go = useCallback(
+    (step: number) => {
+      if (!open) return;
+      onIndexChange((current + step + items.length) % items.length);
+    },
+    [open, current, items.length, onIndexChange]
+  );
+
+  /** Turn a PDF page, starting unzoomed */
+  const turnPage = (step: number) => {
+    setPage((prev) => clamp(prev + step, 0, Math.max(pageCount - 1, 0)));
+    setView(INITIAL_VIEW);
+  };
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    if (!stage || !zoomable) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView((prev) => {
+        const scale = clamp(prev.scale * Math.exp(-e.deltaY * 0.002), MIN_SCALE, MAX_SCALE);
+        return scale === MIN_SCALE ? INITIAL_VIEW : { ...prev, scale };
+      });
+    };
+    stage.addEventListener('wheel', onWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', onWheel);
+  }, [stage, zoomable]);
+
+  /**
+   * Keyboard: arrows follow the reading direction, Home/End jump, +/-/0 zoom, Up/Down turn PDF pages
+   */
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const forward = rtl ? 'ArrowLeft' : 'ArrowRight';
+    const back = rtl ? 'ArrowRight' : 'ArrowLeft';
+    if (e.key === forward) go(1);
+    else if (e.key === back) go(-1);
+    else if (e.key === 'Home') onIndexChange(0);
+    else if (e.key === 'End') onIndexChange(items.length - 1);
+    else if (pageCount > 1 && (e.key === 'ArrowDown' || e.key === 'PageDown')) turnPage(1);
+    else if (pageCount > 1 && (e.key === 'ArrowUp' || e.key === 'PageUp')) turnPage(-1);
+    else if (zoomable && (e.key === '+' || e.key === '=')) zoomTo(view.scale * ZOOM_STEP);
+    else if (zoomable && e.key === '-') zoomTo(view.scale / ZOOM_STEP);
+    else if (e.key === '0') setView(INITIAL_VIEW);
+    else return;
+    e.preventDefault();
+  };
+
+  /**
+   * Pointer gestures: one pointer swipes (or pans when zoomed), two pointers pinch
+   */
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setDragging(true);
+    const [a, b] = Array.from(pointers.current.values());
+    if (b) {
+      setSwipeOffset(0);
+      gesture.current = { type: 'pinch', distance: distance(a, b), scale: view.scale };
+    } else if (view.scale > MIN_SCALE) {
+      gesture.current = { type: 'pan', startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y };
+    } else {
+      gesture.current = { type: 'swipe', startX: e.clientX };
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const active = gesture.current;
+    if (!active) return;
+
+    if (active.type === 'pinch') {
+      const [a, b] = Array.from(pointers.current.values());
+      if (b) zoomTo((active.scale * distance(a, b)) / active.distance);
+    } else if (active.type === 'pan') {
+      zoomTo(view.scale, { x: active.originX + e.clientX - active.startX, y: active.originY + e.clientY - active.startY });
+    } else {
+      setSwipeOffset(e.clientX - active.startX);
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    const active = gesture.current;
+    gesture.current = null;
+    setDragging(false);
+    if (active?.type === 'swipe') {
+      const dx = e.clientX - active.startX;
+      setSwipeOffset(0);
+      // Dragging towards the reading start reveals the next image
+      if (Math.abs(dx) > SWIPE_THRESHOLD) go((dx < 0) !== rtl ? 1 : -1);
+    } else if (active?.type === 'pinch' && view.scale <= MIN_SCALE) {
+      setView(INITIAL_VIEW);
+    }
+  };
+
+  const caption = open ? getMediaCaption(item, language) : '';
+  const credit = open ? getMediaCredit(item, language) : '';
+  const PrevIcon = rtl ? ChevronRight : ChevronLeft;
+  const NextIcon = rtl ? ChevronLeft : ChevronRight;
+  const controlClass =
+    'p-2.5 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-[#bd7b6a] disabled:opacity-40';
+
+  return (
+    <DialogPrimitive.Root open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay className="fixed inset-0 z-50 bg-black/90 backdrop-blur-sm animate-fade-in" />
+        <DialogPrimitive.Content
+          dir={rtl ? 'rtl' : 'ltr'}
+          onKeyDown={onKeyDown}
+          className="fixed inset-0 z-50 flex flex-col text-white focus:outline-none"
+        >
+          {/* Top bar */}
+          <div className="flex items-center justify-between gap-4 px-4 py-3">
+            <DialogPrimitive.Title className="text-sm font-medium truncate">{title}</DialogPrimitive.Title>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => zoomTo(view.scale / ZOOM_STEP)}
+                disabled={!zoomable || view.scale <= MIN_SCALE}
+                aria-label={t('lightbox.zoomOut')}
+                className={controlClass}
+              >
+                <ZoomOut className="h-5 w-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => zoomTo(view.scale * ZOOM_STEP)}
+                disabled={!zoomable || view.scale >= MAX_SCALE}
+                aria-label={t('lightbox.zoomIn')}
+                className={controlClass}
+              >
+                <ZoomIn className="h-5 w-5" />
+              </button>
+              <DialogPrimitive.Close aria-label={t('lightbox.close')} className={controlClass}>
+                <X className="h-5 w-5" />
+              </DialogPrimitive.Close>
+            </div>
+          </div>
+
+          {/* Media stage */}
+          <div className="relative flex-1 min-h-0">
+            {open && zoomable && (
+              <div
+                ref={setStage}
+                className={`absolute inset-0 overflow-hidden touch-none select-none ${view.scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+                onPointerDown={onPointerDown}
+                onPointerMove={onPointerMove}
+                onPointerUp={onPointerUp}
+                onPointerCancel={onPointerUp}
+                onDoubleClick={() => (view.scale > MIN_SCALE ? setView(INITIAL_VIEW) : zoomTo(ZOOM_STEP * ZOOM_STEP))}
+              >
+                <div
+                  className={`w-full h-full flex items-center justify-center p-4 ${dragging ? '' : 'transition-transform duration-200 ease-out'}`}
+                  style={{ transform: `translate(${view.x + swipeOffset}px, ${view.y}px) scale(${view.scale})` }}
+                >
+                  {item.type === 'animation' ? (
+                    <AnimationClip
+                      key={item.src}
+                      item={item}
+                      sizes="100vw"
+                      loading="eager"
+                      alt={itemAlt}
+                      className="max-w-full max-h-full w-auto h-auto object-contain pointer-events-none"
+                    />
+                  ) : (
+                    <ResponsiveImage
+                      key={item.type === 'pdf' ? item.pages[currentPage] : item.src}
+                      src={item.type === 'pdf' ? item.pages[currentPage] : item.src}
+                      sizes="100vw"
+                      loading="eager"
+                      draggable={false}
+                      alt={item.type === 'pdf' ? t('lightbox.pageAlt', { alt: itemAlt, page: currentPage + 1 }) : itemAlt}
+                      className="max-w-full max-h-full w-auto h-auto object-contain pointer-events-none"
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+            {open && !zoomable && (
+              <div className="absolute inset-0 flex items-center justify-center p-4 sm:px-20">
+                {item.type === 'video' ? (
+                  <video
+                    key={item.src}
+                    src={item.src}
+                    poster={item.poster}
+                    controls
+                    autoPlay
+                    playsInline
+                    aria-label={itemAlt}
+                    className="max-w-full max-h-full"
+                  />
+                ) : (
+                  item.type === 'animation' && (
+                    <AnimationClip item={item} sizes="100vw" loading="eager" alt={itemAlt} className="max-w-full max-h-full" />
+                  )
+                )}
+              </div>
+            )}
+
+            {items.length > 1 && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => go(-1)}
+                  aria-label={t('lightbox.previousItem')}
+                  className={`absolute top-1/2 -translate-y-1/2 start-3 ${controlClass}`}
+                >
+                  <PrevIcon className="h-6 w-6" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => go(1)}
+                  aria-label={t('lightbox.nextItem')}
+                  className={`absolute top-1/2 -translate-y-1/2 end-3 ${controlClass}`}
+                >
+                  <NextIcon className="h-6 w-6" />
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* Caption and position */}
+          <div className="px-4 py-3 text-center text-sm text-white/80">
+            <DialogPrimitive.Description className={caption ? '' : 'sr-only'}>
+              {caption || t('lightbox.instructions')}
+            </DialogPrimitive.Description>
+            {credit && (
+              <p className="mt-1 text-xs text-white/60">
+                {t('credit', { credit })}
+              </p>
+            )}
+            {item?.type === 'pdf' && (
+              <div className="mt-2 flex items-center justify-center gap-3">
+                {pageCount > 1 && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => turnPage(-1)}
+                      disabled={currentPage === 0}
+                      aria-label={t('lightbox.previousPage')}
+                      className={controlClass}
+                    >
+                      <PrevIcon className="h-4 w-4" />
+                    </button>
+                    <span aria-live="polite" className="text-xs">
+                      {t('lightbox.pageOf', { page: currentPage + 1, total: pageCount })}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => turnPage(1)}
+                      disabled={currentPage === pageCount - 1}
+                      aria-label={t('lightbox.nextPage')}
+                      className={controlClass}
+                    >
+                      <NextIcon className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+                <a
+                  href={item.src}
+                  download
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-xs font-medium transition-colors"
+                >
+                  <Download className="h-4 w-4" />
+                  {t('lightbox.downloadPdf', { pages: t('pageCount', { count: pageCount }) })}
+                </a>
+              </div>
+            )}
+            <p aria-live="polite" className="mt-1 text-xs text-white/60" dir="ltr">
+              {current + 1} / {items.length}
+            </p>
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  );
+};
+
+export default Lightbox;
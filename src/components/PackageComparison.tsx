@@ -0,0 +1,175 @@
+/**
+ * PackageComparison component
+ * Basic / Standard / Premium comparison for one service at a time:
+ * price, revisions, delivery time and a feature matrix, with a WhatsApp CTA per tier.
+ * Scrolls horizontally on small screens (ui/table wrapper).
+ */
+import React from 'react';
+import { ArrowRight, Check, Minus, Star } from 'lucide-react';
+import { Button } from './ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import Price from './Price';
+import {
+  formatDelivery,
+  formatRevisions,
+  type Service,
+  type ServiceId,
+  type ServiceTier,
+} from '../data/services';
+import { useTranslation } from '../i18n';
+
+/** Props for PackageComparison */
+interface PackageComparisonProps {
+  services: Service[];
+  /** Id of the service being compared */
+  serviceId: ServiceId;
+  onServiceChange: (id: ServiceId) => void;
+  /** Called with the chosen tier (WhatsApp CTA) */
+  onChoose: (service: Service, tier: ServiceTier) => void;
+  language: 'en' | 'ar';
+}
+
+/**
+ * Feature rows: every feature offered by any tier, in first-seen order (tiers are cheapest first).
+ */
+function featureRows(service: Service, language: 'en' | 'ar'): string[] {
+  const rows: string[] = [];
+  service.tiers.forEach((tier) => {
+    tier.features[language].forEach((feature) => {
+      if (!rows.includes(feature)) rows.push(feature);
+    });
+  });
+  return rows;
+}
+
+const PackageComparison: React.FC<PackageComparisonProps> = ({
+  services,
+  serviceId,
+  onServiceChange,
+  onChoose,
+  language,
+}) => {
+  const { t } = useTranslation('services');
+  const { t: tc } = useTranslation('common');
+  const service = services.find((s) => s.id === serviceId) ?? services[0];
+  const rows = featureRows(service, language);
+  const rowHeadClass = 'text-start font-medium text-[#2d2d2d] dark:text-[#d9cab1]';
+  const cellClass = 'text-center';
+  const highlight = (tier: ServiceTier) => (tier.recommended ? 'bg-[#8f1819]/5 dark:bg-[#bd7b6a]/10' : '');
+
+  return (
+    <section id="packages" className="mb-20 scroll-mt-24" aria-labelledby="packages-title">
+      <div className="text-center space-y-3 mb-8">
+        <h2 id="packages-title" className="text-4xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">
+          {t('comparison.title')}
+        </h2>
+        <p className="text-lg text-[#9c7860] dark:text-[#d9cab1]/80 max-w-2xl mx-auto">
+          {t('comparison.subtitle')}
+        </p>
+      </div>
+
+      {/* Service picker */}
+      <div className="flex flex-wrap justify-center gap-2 mb-6" role="group" aria-label={t('comparison.service')}>
+        {services.map((s) => (
+          <button
+            key={s.id}
+            type="button"
+            onClick={() => onServiceChange(s.id)}
+            aria-pressed={s.id === service.id}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+              s.id === service.id
+                ? 'bg-[#8f1819] dark:bg-[#bd7b6a] text-white'
+                : 'bg-white dark:bg-[#2d2d2d] text-[#9c7860] dark:text-[#d9cab1] hover:text-[#8f1819] dark:hover:text-[#bd7b6a]'
+            }`}
+          >
+            {s.title[language]}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-[#2d2d2d] rounded-2xl shadow-lg p-4 sm:p-6">
+        <Table className="min-w-[640px]">
+          <caption className="sr-only">
+            {t('comparison.caption', { service: service.title[language] })}
+          </caption>
+          <TableHeader>
+            <TableRow className="hover:bg-transparent border-[#d9cab1] dark:border-[#9c7860]/30">
+              <TableHead className="w-1/4 text-start text-[#9c7860] dark:text-[#d9cab1]/70">
+                {t('comparison.package')}
+              </TableHead>
+              {service.tiers.map((tier) => (
+                <TableHead key={tier.id} scope="col" className={`h-auto py-4 text-center align-top rounded-t-xl ${highlight(tier)}`}>
+                  <div className="space-y-2">
+                    {tier.recommended && (
+                      <span className="inline-flex items-center gap-1 rounded-full bg-[#8f1819] dark:bg-[#bd7b6a] text-white px-2.5 py-0.5 text-[11px] font-medium">
+                        <Star className="h-3 w-3" />
+                        {t('comparison.recommended')}
+                      </span>
+                    )}
+                    <div className="text-lg font-bold text-[#8f1819] dark:text-[#bd7b6a]">{tc(`tier.${tier.id}`)}</div>
+                    <Price amount={tier.priceSar} className="text-xl font-bold text-[#2d2d2d] dark:text-[#d9cab1]" />
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow className="border-[#d9cab1] dark:border-[#9c7860]/30">
+              <TableHead scope="row" className={rowHeadClass}>{t('comparison.revisions')}</TableHead>
+              {service.tiers.map((tier) => (
+                <TableCell key={tier.id} className={`${cellClass} ${highlight(tier)}`}>{formatRevisions(tier, t)}</TableCell>
+              ))}
+            </TableRow>
+            <TableRow className="border-[#d9cab1] dark:border-[#9c7860]/30">
+              <TableHead scope="row" className={rowHeadClass}>{t('comparison.delivery')}</TableHead>
+              {service.tiers.map((tier) => (
+                <TableCell key={tier.id} className={`${cellClass} ${highlight(tier)}`}>{formatDelivery(tier, t)}</TableCell>
+              ))}
+            </TableRow>
+            {rows.map((feature) => (
+              <TableRow key={feature} className="border-[#d9cab1] dark:border-[#9c7860]/30">
+                <TableHead scope="row" className={`${rowHeadClass} font-normal`}>{feature}</TableHead>
+                {service.tiers.map((tier) => {
+                  const included = tier.features[language].includes(feature);
+                  return (
+                    <TableCell key={tier.id} className={`${cellClass} ${highlight(tier)}`}>
+                      {included ? (
+                        <Check className="h-5 w-5 mx-auto text-[#8f1819] dark:text-[#bd7b6a]" aria-hidden="true" />
+                      ) : (
+                        <Minus className="h-5 w-5 mx-auto text-[#d9cab1] dark:text-[#9c7860]/60" aria-hidden="true" />
+                      )}
+                      <span className="sr-only">
+                        {included ? t('comparison.included') : t('comparison.notIncluded')}
+                      </span>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+            <TableRow className="hover:bg-transparent border-0">
+              <TableCell />
+              {service.tiers.map((tier) => (
+                <TableCell key={tier.id} className={`${cellClass} py-4 rounded-b-xl ${highlight(tier)}`}>
+                  <Button
+                    onClick={() => onChoose(service, tier)}
+                    variant={tier.recommended ? 'default' : 'outline'}
+                    className={
+                      tier.recommended
+                        ? 'bg-[#8f1819] hover:bg-[#bd7b6a] text-white'
+                        : 'border-[#8f1819] text-[#8f1819] hover:bg-[#8f1819] hover:text-white dark:border-[#bd7b6a] dark:text-[#bd7b6a] dark:hover:bg-[#bd7b6a] dark:hover:text-white bg-transparent'
+                    }
+                  >
+                    {t('comparison.choose', { tier: tc(`tier.${tier.id}`) })}
+                    <ArrowRight className="h-4 w-4 ltr:ml-2 rtl:mr-2 rtl:rotate-180" />
+                  </Button>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+    </section>
+  );
+};
+
+export default PackageComparison;
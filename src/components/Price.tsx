@@ -0,0 +1,44 @@
+/**
+ * Price component
+ * Shows a SAR amount in the visitor's chosen currency:
+ * the SR logo + number for SAR, the currency's own symbol otherwise.
+ */
+import React from 'react';
+import SRLogoIcon, { type SRLogoIconProps } from './icons/SRLogo';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { formatPrice } from '../utils/currency';
+import type { CurrencyCode } from '../config/currency';
+
+interface PriceProps {
+  /** Amount in SAR */
+  amount: number;
+  className?: string;
+  /** Class for the SR logo (sized relative to the text by default) */
+  iconClassName?: string;
+  /** Force the SR logo variant, e.g. 'light' on printed documents */
+  iconVariant?: SRLogoIconProps['variant'];
+  /** Force a currency instead of the visitor's choice (e.g. SAR on tax invoices) */
+  currency?: CurrencyCode;
+}
+
+const Price: React.FC<PriceProps> = ({
+  amount,
+  className = '',
+  iconClassName = 'h-[0.9em] w-[0.9em]',
+  iconVariant,
+  currency: forcedCurrency,
+}) => {
+  const { language } = useTheme();
+  const { currency: chosenCurrency } = useCurrency();
+  const currency = forcedCurrency ?? chosenCurrency;
+
+  return (
+    <span className={`inline-flex items-center gap-1 tabular-nums ${className}`}>
+      {currency === 'SAR' && <SRLogoIcon className={iconClassName} variant={iconVariant} />}
+      {formatPrice(amount, currency, language)}
+    </span>
+  );
+};
+
+export default Price;
@@ -3,17 +3,23 @@
  * Renders a single project with an embedded, swipeable carousel and action button
  * - On-scroll reveal
  * - Hover lift + overlay reveal
- * - Images are repeated 5x to create a longer carousel per request
+ * - One slide and dot per media item (image, video, PDF, animation); a single item stays static
+ * - Off-screen slides load lazily; swiping follows the page direction
+ * - Click a slide to browse the project's gallery in the lightbox
  */
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import useEmblaCarousel from 'embla-carousel-react';
+import React, { useState } from 'react';
 import { ChevronLeft, ChevronRight, Eye } from 'lucide-react';
 import { Button } from './ui/button';
+import Lightbox from './Lightbox';
+import ProjectMedia, { getMediaAlt } from './ProjectMedia';
 import { Project } from '../data/projects';
 import { useTheme } from '../contexts/ThemeContext';
 import { Link } from 'react-router';
+import { useCarousel } from '../hooks/useCarousel';
 import { useInView } from '../hooks/useInView';
+import { useTranslation } from '../i18n';
 import { localize } from '../utils/localize';
+import { localizePath } from '../utils/routes';
 
 /** Props for ProjectCard */
 interface ProjectCardProps {
@@ -22,56 +28,34 @@ interface ProjectCardProps {
 }
 
 /** Dot indicator component */
-const Dot: React.FC<{ active: boolean; onClick: () => void }> = ({ active, onClick }) => (
+const Dot: React.FC<{ active: boolean; label: string; onClick: () => void }> = ({ active, label, onClick }) => (
   <button
-    aria-label="Slide indicator"
+    aria-label={label}
+    aria-current={active}
     onClick={onClick}
     className={`h-1.5 w-4 rounded-full transition-colors ${active ? 'bg-[#8f1819]' : 'bg-[#d9cab1] dark:bg-[#1a1a1a]'}`}
   />
 );
 
-/**
- * Build repeated slides array
- * Repeats the project's images 5 times to satisfy the requirement.
- */
-function buildRepeatedSlides(images: string[], times: number): string[] {
-  // Defensive: ensure at least one placeholder if array is empty
-  const base = images && images.length > 0 ? images : [];
-  // Repeat N times and flatten
-  return Array.from({ length: times }).flatMap(() => base);
-}
-
 /** Project card with carousel */
 const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
   const { language } = useTheme();
-  const [emblaRef, embla] = useEmblaCarousel({ loop: true, align: 'start', skipSnaps: false, dragFree: false });
-  const [selectedIndex, setSelectedIndex] = useState(0);
+  const { t } = useTranslation('common');
+  const media = project.media;
+  const multiple = media.length > 1;
+  // A single item stays static: no dragging, arrows or dots
+  const { emblaRef, selectedIndex, isLoaded, scrollPrev, scrollNext, scrollTo } = useCarousel({
+    loop: true,
+    align: 'start',
+    active: multiple,
+  });
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
   const { ref, inView } = useInView({ threshold: 0.15, once: true });
 
   // Localized strings (defensive)
   const title = localize(project.title, language);
   const description = localize(project.description, language);
 
-  /** Memoize slides: repeat images 5x */
-  const slides = useMemo(() => buildRepeatedSlides(project.images, 5), [project.images]);
-
-  /** Keep selected index in sync with Embla */
-  const onSelect = useCallback(() => {
-    if (!embla) return;
-    setSelectedIndex(embla.selectedScrollSnap());
-  }, [embla]);
-
-  useEffect(() => {
-    if (!embla) return;
-    embla.on('select', onSelect);
-    onSelect();
-  }, [embla, onSelect]);
-
-  /** Carousel controls */
-  const scrollPrev = useCallback(() => embla?.scrollPrev(), [embla]);
-  const scrollNext = useCallback(() => embla?.scrollNext(), [embla]);
-  const scrollTo = useCallback((i: number) => embla?.scrollTo(i), [embla]);
-
   return (
     <div
       ref={ref as unknown as React.RefObject<HTMLDivElement>}
@@ -82,11 +66,23 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
       <div className="relative">
         <div className="overflow-hidden" ref={emblaRef}>
           <div className="flex">
-            {slides.map((src, idx) => (
+            {media.map((item, idx) => (
               <div key={idx} className="min-w-0 flex-[0_0_100%]">
-                <div className="aspect-[4/3] bg-[#d9cab1] dark:bg-[#1a1a1a]">
-                  <img src={src} alt={`${title} - ${idx + 1}`} className="w-full h-full object-cover" />
-                </div>
+                <button
+                  type="button"
+                  onClick={() => setLightboxIndex(idx)}
+                  className="block w-full aspect-[4/3] bg-[#d9cab1] dark:bg-[#1a1a1a] cursor-zoom-in"
+                  aria-label={t('openMedia', { type: t(`mediaType.${item.type}`), number: idx + 1 })}
+                >
+                  {isLoaded(idx) && (
+                    <ProjectMedia
+                      item={item}
+                      sizes="(min-width: 1280px) 395px, (min-width: 1024px) 30vw, (min-width: 768px) 45vw, 92vw"
+                      alt={getMediaAlt(item, language, `${title} - ${idx + 1}`)}
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </button>
               </div>
             ))}
           </div>
@@ -95,30 +91,39 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
         {/* On-hover overlay reveal */}
         <div className="pointer-events-none absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-transparent opacity-0 transition-opacity duration-300 group-hover:opacity-100" />
 
-        {/* Arrows */}
-        <div className="absolute inset-0 flex items-center justify-between px-1">
-          <button
-            aria-label="Previous"
-            onClick={scrollPrev}
-            className="m-1 p-2 rounded-full bg-white/90 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] shadow transition-colors"
-          >
-            <ChevronLeft className="h-5 w-5" />
-          </button>
-          <button
-            aria-label="Next"
-            onClick={scrollNext}
-            className="m-1 p-2 rounded-full bg-white/90 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] shadow transition-colors"
-          >
-            <ChevronRight className="h-5 w-5" />
-          </button>
-        </div>
-
-        {/* Dots */}
-        <div className="absolute bottom-2 left-0 right-0 flex items-center justify-center gap-1.5">
-          {slides.map((_, i) => (
-            <Dot key={i} active={i === selectedIndex} onClick={() => scrollTo(i)} />
-          ))}
-        </div>
+        {multiple && (
+          <>
+            {/* Arrows (mirrored in Arabic) */}
+            <div className="pointer-events-none absolute inset-0 flex items-center justify-between px-1">
+              <button
+                aria-label={t('previous')}
+                onClick={scrollPrev}
+                className="pointer-events-auto m-1 p-2 rounded-full bg-white/90 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] shadow transition-colors"
+              >
+                <ChevronLeft className="h-5 w-5 rtl:rotate-180" />
+              </button>
+              <button
+                aria-label={t('next')}
+                onClick={scrollNext}
+                className="pointer-events-auto m-1 p-2 rounded-full bg-white/90 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] shadow transition-colors"
+              >
+                <ChevronRight className="h-5 w-5 rtl:rotate-180" />
+              </button>
+            </div>
+
+            {/* Dots */}
+            <div className="absolute bottom-2 left-0 right-0 flex items-center justify-center gap-1.5">
+              {media.map((_, i) => (
+                <Dot
+                  key={i}
+                  active={i === selectedIndex}
+                  label={t('slide', { number: i + 1 })}
+                  onClick={() => scrollTo(i)}
+                />
+              ))}
+            </div>
+          </>
+        )}
       </div>
 
       {/* Info */}
@@ -146,12 +151,20 @@ const ProjectCard: React.FC<ProjectCardProps> = ({ project }) => {
 
         {/* CTA */}
         <Button asChild className="w-full bg-[#8f1819] hover:bg-[#bd7b6a] text-white active:brightness-95 transition-all duration-300 ease-in-out">
-          <Link to={`/portfolio/${project.id}`}>
+          <Link to={localizePath(`/portfolio/${project.id}`, language)}>
             <Eye className="h-4 w-4 mr-2" />
-            {language === 'en' ? 'View Project' : 'عرض المشروع'}
+            {t('viewProject')}
           </Link>
         </Button>
       </div>
+
+      <Lightbox
+        items={media}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+        title={title}
+      />
     </div>
   );
 };
@@ -0,0 +1,107 @@
+/**
+ * ProjectMedia component
+ * Preview of one gallery item in carousels and cards:
+ * - Images render as responsive images
+ * - Videos show their poster with a play badge (they play in the lightbox)
+ * - PDFs show their cover page with a page count
+ * - Animations loop silently on their own (poster instead when reduced motion is requested)
+ */
+import React from 'react';
+import { FileText, Play } from 'lucide-react';
+import ResponsiveImage from './ResponsiveImage';
+import { getMediaPoster, isVideoFile, type AnimationMedia, type MediaItem } from '../data/projects';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { useTranslation } from '../i18n';
+import { localize } from '../utils/localize';
+
+/** Props for ProjectMedia */
+interface ProjectMediaProps {
+  /** The item to preview */
+  item: MediaItem;
+  /** Alternative text */
+  alt: string;
+  /** Rendered width per breakpoint (see ResponsiveImage) */
+  sizes: string;
+  /** Native lazy loading (default lazy) */
+  loading?: 'eager' | 'lazy';
+  /** Classes for the image or video element */
+  className?: string;
+}
+
+/** Alt text of an item in the page language, or `fallback` when the content has none */
+export function getMediaAlt(item: MediaItem, language: 'en' | 'ar', fallback: string): string {
+  return item.alt ? localize(item.alt, language) : fallback;
+}
+
+/** Caption of an item in the page language ('' when it has none) */
+export function getMediaCaption(item: MediaItem, language: 'en' | 'ar'): string {
+  return item.caption ? localize(item.caption, language) : '';
+}
+
+/** Credit line of an item in the page language ('' when it has none) */
+export function getMediaCredit(item: MediaItem, language: 'en' | 'ar'): string {
+  if (!item.credit) return '';
+  return typeof item.credit === 'string' ? item.credit : localize(item.credit, language);
+}
+
+/**
+ * Silent looping animation: a muted inline video for MP4/WebM, otherwise an animated image
+ */
+export const AnimationClip: React.FC<Omit<ProjectMediaProps, 'item'> & { item: AnimationMedia }> = ({
+  item,
+  alt,
+  sizes,
+  loading = 'lazy',
+  className,
+}) => {
+  const reducedMotion = useReducedMotion();
+
+  if (reducedMotion && item.poster) {
+    return <ResponsiveImage src={item.poster} sizes={sizes} loading={loading} alt={alt} className={className} />;
+  }
+  if (isVideoFile(item.src)) {
+    return (
+      <video
+        src={item.src}
+        poster={item.poster}
+        autoPlay={!reducedMotion}
+        muted
+        loop
+        playsInline
+        preload={loading === 'eager' ? 'auto' : 'metadata'}
+        aria-label={alt}
+        className={className}
+      />
+    );
+  }
+  return <ResponsiveImage src={item.src} sizes={sizes} loading={loading} alt={alt} className={className} />;
+};
+
+const ProjectMedia: React.FC<ProjectMediaProps> = ({ item, alt, sizes, loading = 'lazy', className }) => {
+  const { t } = useTranslation('common');
+
+  if (item.type === 'animation') {
+    return <AnimationClip item={item} alt={alt} sizes={sizes} loading={loading} className={className} />;
+  }
+
+  return (
+    <div className="relative w-full h-full">
+      <ResponsiveImage src={getMediaPoster(item)} sizes={sizes} loading={loading} alt={alt} className={className} />
+      {item.type === 'video' && (
+        <span className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <span className="p-3 rounded-full bg-black/55 text-white shadow-lg">
+            <Play className="h-6 w-6" fill="currentColor" />
+          </span>
+        </span>
+      )}
+      {item.type === 'pdf' && (
+        <span className="pointer-events-none absolute top-2 start-2 inline-flex items-center gap-1 px-2 py-1 rounded-full bg-black/60 text-white text-xs font-medium">
+          <FileText className="h-3.5 w-3.5" />
+          {t('pdfBadge', { pages: t('pageCount', { count: item.pages.length }) })}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ProjectMedia;
@@ -0,0 +1,294 @@
+/**
+ * QuoteCalculator component
+ * Lets visitors combine services (at a package tier) with quantities and add-ons, toggle 15% VAT and see a live total
+ * in the currency chosen in the header.
+ * The quote can be opened as a printable page or sent as a WhatsApp / email message.
+ */
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router';
+import { Mail, MessageSquare, Minus, Plus, Printer } from 'lucide-react';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import Price from './Price';
+import { hasPackages, type Service, type ServiceId } from '../data/services';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useTranslation } from '../i18n';
+import { formatSar } from '../utils/currency';
+import { localizePath } from '../utils/routes';
+import {
+  ADD_ONS,
+  MAX_QUANTITY,
+  buildQuoteText,
+  calculateQuote,
+  clampQuantity,
+  emptySelection,
+  isTierId,
+  quoteLineLabel,
+  serializeSelection,
+  type QuoteSelection,
+} from '../lib/quote';
+
+/** WhatsApp number and email for sending quotes */
+const WHATSAPP_NUMBER = '+966504487308';
+const CONTACT_EMAIL = 'info@emadalddine.com';
+
+/** Props for QuoteCalculator */
+interface QuoteCalculatorProps {
+  /** Services that can be added to the quote */
+  services: Service[];
+  /** Current UI language */
+  language: 'en' | 'ar';
+}
+
+/** Minus / value / plus control */
+const Stepper: React.FC<{ value: number; min?: number; onChange: (value: number) => void; label: string }> = ({
+  value,
+  min = 0,
+  onChange,
+  label,
+}) => (
+  <div className="inline-flex items-center rounded-lg border border-[#d9cab1] dark:border-[#9c7860]/40" role="group" aria-label={label}>
+    <button
+      type="button"
+      onClick={() => onChange(Math.max(value - 1, min))}
+      disabled={value <= min}
+      className="h-8 w-8 flex items-center justify-center text-[#8f1819] dark:text-[#bd7b6a] disabled:opacity-40"
+      aria-label={`− ${label}`}
+    >
+      <Minus className="h-4 w-4" />
+    </button>
+    <span className="w-8 text-center text-sm font-semibold tabular-nums" aria-live="polite">
+      {value}
+    </span>
+    <button
+      type="button"
+      onClick={() => onChange(clampQuantity(value + 1))}
+      disabled={value >= MAX_QUANTITY}
+      className="h-8 w-8 flex items-center justify-center text-[#8f1819] dark:text-[#bd7b6a] disabled:opacity-40"
+      aria-label={`+ ${label}`}
+    >
+      <Plus className="h-4 w-4" />
+    </button>
+  </div>
+);
+
+const QuoteCalculator: React.FC<QuoteCalculatorProps> = ({ services, language }) => {
+  const { t } = useTranslation('quote');
+  const { t: tc } = useTranslation('common');
+  const { currency } = useCurrency();
+  const [selection, setSelection] = useState<QuoteSelection>(emptySelection);
+  const quote = useMemo(() => calculateQuote(selection, services), [selection, services]);
+  const hasServices = quote.lines.length > 0;
+
+  const setServiceQuantity = (id: ServiceId, quantity: number) =>
+    setSelection((prev) => ({ ...prev, services: { ...prev.services, [id]: clampQuantity(quantity) } }));
+
+  const setServiceTier = (id: ServiceId, tier: string) => {
+    if (isTierId(tier)) setSelection((prev) => ({ ...prev, tiers: { ...prev.tiers, [id]: tier } }));
+  };
+
+  const setAddOnQuantity = (id: string, quantity: number) =>
+    setSelection((prev) => ({ ...prev, addOns: { ...prev.addOns, [id]: clampQuantity(quantity) } }));
+
+  const message = buildQuoteText(quote, language, t, tc, currency);
+  const subject = t('emailSubject');
+  const printHref = `${localizePath('/quote', language)}?${serializeSelection(selection).toString()}`;
+
+  return (
+    <section className="mb-20" aria-labelledby="quote-builder-title">
+      <div className="text-center space-y-3 mb-10">
+        <h2 id="quote-builder-title" className="text-4xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">
+          {t('builderTitle')}
+        </h2>
+        <p className="text-lg text-[#9c7860] dark:text-[#d9cab1]/80 max-w-2xl mx-auto">
+          {t('builderSubtitle')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Choices */}
+        <div className="lg:col-span-2 space-y-8">
+          <div className="bg-white dark:bg-[#2d2d2d] rounded-2xl p-6 shadow-lg">
+            <h3 className="text-xl font-bold text-[#8f1819] dark:text-[#bd7b6a] mb-4">{t('services')}</h3>
+            <ul className="divide-y divide-[#d9cab1] dark:divide-[#9c7860]/20">
+              {services.map((service) => {
+                const Icon = service.icon;
+                const tierId = selection.tiers[service.id] ?? 'basic';
+                const tier = service.tiers.find((option) => option.id === tierId) ?? service.tiers[0];
+                return (
+                  <li key={service.id} className="flex flex-wrap items-center justify-between gap-4 py-3">
+                    <div className="flex items-center gap-3 min-w-0 flex-1">
+                      <Icon className="h-5 w-5 flex-shrink-0 text-[#8f1819] dark:text-[#bd7b6a]" />
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{service.title[language]}</div>
+                        <Price amount={tier.priceSar} className="text-sm text-[#9c7860] dark:text-[#d9cab1]/70" />
+                      </div>
+                    </div>
+                    {hasPackages(service) && (
+                      <Select value={tier.id} onValueChange={(value) => setServiceTier(service.id, value)}>
+                        <SelectTrigger
+                          className="w-32 h-8 border-[#d9cab1] dark:border-[#9c7860]/40 bg-transparent text-sm"
+                          aria-label={t('servicePackage', { service: service.title[language] })}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {service.tiers.map((option) => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {tc(`tier.${option.id}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Stepper
+                      value={selection.services[service.id] ?? 0}
+                      onChange={(value) => setServiceQuantity(service.id, value)}
+                      label={service.title[language]}
+                    />
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div className="bg-white dark:bg-[#2d2d2d] rounded-2xl p-6 shadow-lg">
+            <h3 className="text-xl font-bold text-[#8f1819] dark:text-[#bd7b6a] mb-4">{t('addOns')}</h3>
+            <ul className="divide-y divide-[#d9cab1] dark:divide-[#9c7860]/20">
+              {ADD_ONS.map((addOn) => {
+                const quantity = selection.addOns[addOn.id] ?? 0;
+                const label = t(`addOn.${addOn.id}.label`);
+                const { pricing } = addOn;
+                const price =
+                  pricing.type === 'percent' ? (
+                    <span className="tabular-nums">+{formatSar(pricing.rate * 100, language)}%</span>
+                  ) : (
+                    <>
+                      <Price amount={pricing.amount} />
+                      {pricing.type === 'perService' && <span>{t('perService')}</span>}
+                    </>
+                  );
+                return (
+                  <li key={addOn.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <div className="font-medium">{label}</div>
+                      <div className="text-sm text-[#9c7860] dark:text-[#d9cab1]/70">{t(`addOn.${addOn.id}.description`)}</div>
+                      <div className="text-sm text-[#8f1819] dark:text-[#bd7b6a]">{price}</div>
+                    </div>
+                    {addOn.hasQuantity ? (
+                      <Stepper value={quantity} onChange={(value) => setAddOnQuantity(addOn.id, value)} label={label} />
+                    ) : (
+                      <Switch
+                        checked={quantity > 0}
+                        onCheckedChange={(checked) => setAddOnQuantity(addOn.id, checked ? 1 : 0)}
+                        aria-label={label}
+                        className="data-[state=checked]:bg-[#8f1819] dark:data-[state=checked]:bg-[#bd7b6a]"
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <aside className="lg:sticky lg:top-24 self-start bg-white dark:bg-[#2d2d2d] rounded-2xl p-6 shadow-lg space-y-5">
+          <h3 className="text-xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">{t('estimate')}</h3>
+
+          {hasServices ? (
+            <ul className="space-y-2 text-sm">
+              {quote.lines.map((line, idx) => (
+                <li key={idx} className="flex justify-between gap-3">
+                  <span className="text-[#9c7860] dark:text-[#d9cab1]/80">
+                    {quoteLineLabel(line, language, t, tc)}
+                    {line.quantity > 1 && <span className="tabular-nums"> × {formatSar(line.quantity, language)}</span>}
+                  </span>
+                  <Price amount={line.total} />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-[#9c7860] dark:text-[#d9cab1]/70">
+              {t('emptyEstimate')}
+            </p>
+          )}
+
+          <div className="flex items-center justify-between gap-3 pt-4 border-t border-[#d9cab1] dark:border-[#9c7860]/20">
+            <label htmlFor="quote-vat" className="text-sm">
+              {t('includeVat')}
+            </label>
+            <Switch
+              id="quote-vat"
+              checked={selection.includeVat}
+              onCheckedChange={(checked) => setSelection((prev) => ({ ...prev, includeVat: checked }))}
+              className="data-[state=checked]:bg-[#8f1819] dark:data-[state=checked]:bg-[#bd7b6a]"
+            />
+          </div>
+
+          <dl className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <dt>{t('subtotal')}</dt>
+              <dd><Price amount={quote.subtotal} /></dd>
+            </div>
+            {quote.includeVat && (
+              <div className="flex justify-between">
+                <dt>{t('vat')}</dt>
+                <dd><Price amount={quote.vat} /></dd>
+              </div>
+            )}
+            <div className="flex justify-between pt-2 text-xl font-bold text-[#8f1819] dark:text-[#bd7b6a]" aria-live="polite">
+              <dt>{t('total')}</dt>
+              <dd><Price amount={quote.total} /></dd>
+            </div>
+          </dl>
+
+          <div className="grid grid-cols-1 gap-2">
+            <Button asChild disabled={!hasServices} className="bg-[#8f1819] hover:bg-[#bd7b6a] text-white">
+              <Link
+                to={printHref}
+                target="_blank"
+                aria-disabled={!hasServices}
+                className={hasServices ? '' : 'pointer-events-none opacity-50'}
+              >
+                <Printer className="h-4 w-4 ltr:mr-2 rtl:ml-2" />
+                {t('printable')}
+              </Link>
+            </Button>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                disabled={!hasServices}
+                onClick={() => window.open(`https://wa.me/${WHATSAPP_NUMBER}?text=${encodeURIComponent(message)}`, '_blank')}
+                className="bg-[#25D366] hover:bg-[#128C7E] text-white"
+              >
+                <MessageSquare className="h-4 w-4 ltr:mr-2 rtl:ml-2" />
+                {t('whatsapp')}
+              </Button>
+              <Button
+                asChild
+                variant="outline"
+                className={`border-[#8f1819] text-[#8f1819] hover:bg-[#8f1819] hover:text-white dark:border-[#bd7b6a] dark:text-[#bd7b6a] dark:hover:bg-[#bd7b6a] dark:hover:text-white bg-transparent ${hasServices ? '' : 'pointer-events-none opacity-50'}`}
+              >
+                <a
+                  href={`mailto:${CONTACT_EMAIL}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(message)}`}
+                  aria-disabled={!hasServices}
+                >
+                  <Mail className="h-4 w-4 ltr:mr-2 rtl:ml-2" />
+                  {t('email')}
+                </a>
+              </Button>
+            </div>
+          </div>
+
+          <p className="text-xs text-[#9c7860] dark:text-[#d9cab1]/60">
+            {t('estimateNote')}
+          </p>
+        </aside>
+      </div>
+    </section>
+  );
+};
+
+export default QuoteCalculator;
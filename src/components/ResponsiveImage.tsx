@@ -0,0 +1,69 @@
+/**
+ * ResponsiveImage component
+ * Renders a project image as <picture> with AVIF/WebP/JPEG srcsets, intrinsic size and a blurred
+ * placeholder when it was generated by the image pipeline (data/images.ts); remote URLs fall back to a plain <img>.
+ * The <picture> wrapper uses display: contents, so classes on the image size it exactly like a bare <img>.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { getResponsiveImage } from '../data/images';
+
+/** Props for ResponsiveImage */
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  /** Image URL from the project catalog */
+  src: string;
+  /** Rendered width per breakpoint, e.g. "(min-width: 1024px) 33vw, 100vw" */
+  sizes: string;
+}
+
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({
+  src,
+  sizes,
+  loading = 'lazy',
+  decoding = 'async',
+  style,
+  onLoad,
+  ...rest
+}) => {
+  const image = getResponsiveImage(src);
+  const ref = useRef<HTMLImageElement>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  // Prerendered images may finish loading before hydration, when onLoad can no longer fire
+  useEffect(() => {
+    setLoaded(Boolean(ref.current?.complete));
+  }, [src]);
+
+  if (!image) {
+    return <img src={src} loading={loading} decoding={decoding} style={style} onLoad={onLoad} {...rest} />;
+  }
+
+  const placeholderStyle: React.CSSProperties = loaded
+    ? {}
+    : { backgroundImage: `url(${image.placeholder})`, backgroundSize: 'cover', backgroundPosition: 'center' };
+
+  return (
+    <picture className="contents">
+      {image.sources.map((source) => (
+        <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+      ))}
+      <img
+        ref={ref}
+        src={image.src}
+        srcSet={image.srcSet}
+        sizes={sizes}
+        width={image.width}
+        height={image.height}
+        loading={loading}
+        decoding={decoding}
+        style={{ ...placeholderStyle, ...style }}
+        onLoad={(event) => {
+          setLoaded(true);
+          onLoad?.(event);
+        }}
+        {...rest}
+      />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
@@ -2,9 +2,40 @@
  * SEO component
  * Provides per-page meta and Open Graph tags using react-helmet-async.
  * Reuse on any page to customize og/meta without overriding the global tab title unless desired.
+ * With `path`, also links the page's other language versions (hreflang + og:locale:alternate)
+ * and uses the share image generated for the page at build time (scripts/og-images.mjs).
  */
 import React from 'react';
 import { Helmet } from 'react-helmet-async';
+import { useTheme } from '../contexts/ThemeContext';
+import { LANGUAGES, OG_LOCALES, SITE_URL, absoluteUrl, shareImagePath } from '../utils/routes';
+
+/** Site name (og:site_name and the title suffix) */
+const SITE_NAME = 'Eng.EmadAlddine';
+
+/** Share image used when a page has none of its own */
+const DEFAULT_IMAGE =
+  'https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/2f8833bb-848a-4376-9d94-4e9992a5b2b2.png';
+
+/** Image MIME types by file extension */
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Guess an image's MIME type from its URL extension (query and hash ignored).
+ * Returns undefined when the extension is unknown, so no og:image:type is emitted.
+ */
+export function imageMimeType(url: string): string | undefined {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+  return IMAGE_TYPES[extension];
+}
 
 /** Props for SEO meta tags */
 export interface SEOProps {
@@ -12,16 +43,20 @@ export interface SEOProps {
   title: string;
   /** Short description for search/OG */
   description: string;
-  /** Absolute URL to preview image (1200x630 recommended) */
-  image: string;
-  /** Canonical page URL (absolute) */
-  url: string;
+  /** Absolute URL to preview image (1200x630 recommended); defaults to the generated card for `path`, else the logo */
+  image?: string;
+  /** Alt text of the preview image (defaults to the title) */
+  imageAlt?: string;
+  /** Canonical page URL (absolute); defaults to the current language version of `path` */
+  url?: string;
+  /** Route without the language prefix (e.g. "/portfolio/3"), used for hreflang alternates */
+  path?: string;
   /** Open Graph type (e.g., "website", "article") */
   type?: 'website' | 'article' | string;
-  /** Optional locale (defaults to en) */
+  /** Open Graph locale (defaults to the page language: en_US or ar_SA) */
   locale?: string;
   /**
-   * Whether to also set the document title (<title>).
+   * Whether to also set the document title (<title>) as "Title — Eng.EmadAlddine".
    * Defaults to false to keep the global tab title stable.
    */
   setTitle?: boolean;
@@ -35,20 +70,34 @@ const SEO: React.FC<SEOProps> = ({
   title,
   description,
   image,
+  imageAlt,
   url,
+  path,
   type = 'website',
-  locale = 'en',
+  locale,
   setTitle = false,
 }) => {
+  const { language } = useTheme();
   const safeDescription = description?.slice(0, 300);
+  const ogLocale = locale ?? OG_LOCALES[language];
+  const generatedImage = image === undefined && path !== undefined;
+  const shareImage = image ?? (path !== undefined ? `${SITE_URL}${shareImagePath(path, language)}` : DEFAULT_IMAGE);
+  const imageType = imageMimeType(shareImage);
+  const documentTitle = title === SITE_NAME ? title : `${title} — ${SITE_NAME}`;
+  const canonical = url ?? (path !== undefined ? absoluteUrl(path, language) : undefined);
 
   return (
     <Helmet prioritizeSeoTags>
       {/* Optionally set the document title if requested */}
-      {setTitle && <title>{title}</title>}
+      {setTitle && <title>{documentTitle}</title>}
 
       {/* Canonical */}
-      <link rel="canonical" href={url} />
+      {canonical && <link rel="canonical" href={canonical} />}
+
+      {/* Language versions */}
+      {path !== undefined &&
+        LANGUAGES.map((lang) => <link key={lang} rel="alternate" hrefLang={lang} href={absoluteUrl(path, lang)} />)}
+      {path !== undefined && <link rel="alternate" hrefLang="x-default" href={absoluteUrl(path, LANGUAGES[0])} />}
 
       {/* Primary Meta (description) */}
       <meta name="description" content={safeDescription} />
@@ -56,21 +105,28 @@ const SEO: React.FC<SEOProps> = ({
       {/* Open Graph */}
       <meta property="og:title" content={title} />
       <meta property="og:description" content={safeDescription} />
-      <meta property="og:image" content={image} />
-      <meta property="og:url" content={url} />
+      <meta property="og:image" content={shareImage} />
+      {canonical && <meta property="og:url" content={canonical} />}
       <meta property="og:type" content={type} />
-      <meta property="og:site_name" content={title} />
-      <meta property="og:locale" content={locale} />
+      <meta property="og:site_name" content={SITE_NAME} />
+      <meta property="og:locale" content={ogLocale} />
+      {path !== undefined &&
+        LANGUAGES.filter((lang) => lang !== language).map((lang) => (
+          <meta key={lang} property="og:locale:alternate" content={OG_LOCALES[lang]} />
+        ))}
 
       {/* Optional hints for scrapers */}
-      <meta property="og:image:alt" content={title} />
-      <meta property="og:image:type" content="image/png" />
+      <meta property="og:image:alt" content={imageAlt ?? title} />
+      {imageType && <meta property="og:image:type" content={imageType} />}
+      {generatedImage && <meta property="og:image:width" content="1200" />}
+      {generatedImage && <meta property="og:image:height" content="630" />}
 
       {/* Twitter Card */}
       <meta name="twitter:card" content="summary_large_image" />
       <meta name="twitter:title" content={title} />
       <meta name="twitter:description" content={safeDescription} />
-      <meta name="twitter:image" content={image} />
+      <meta name="twitter:image" content={shareImage} />
+      <meta name="twitter:image:alt" content={imageAlt ?? title} />
     </Helmet>
   );
 };
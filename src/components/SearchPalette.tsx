@@ -0,0 +1,121 @@
+/**
+ * SearchPalette component
+ * Command palette searching projects, services and testimonials in both languages.
+ * - Opens from the header button or Ctrl/Cmd+K
+ * - Arabic-aware matching (see utils/search.ts)
+ * - Results grouped by type; Enter navigates to the localized page
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { Briefcase, FolderOpen, MessageSquareQuote } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from './ui/dialog';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { projects } from '../data/projects';
+import { services } from '../data/services';
+import { useTheme } from '../contexts/ThemeContext';
+import { useTranslation } from '../i18n';
+import { localize } from '../utils/localize';
+import { localizePath } from '../utils/routes';
+import { buildSearchIndex, searchIndex, type SearchResultType } from '../utils/search';
+
+/** Props for SearchPalette */
+interface SearchPaletteProps {
+  /** Whether the palette is open */
+  open: boolean;
+  /** Open state setter (also used by the keyboard shortcut) */
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Group order and icon per result type (headings are search.groups.<type>) */
+const groups: Array<{ type: SearchResultType; icon: React.ElementType }> = [
+  { type: 'project', icon: FolderOpen },
+  { type: 'service', icon: Briefcase },
+  { type: 'testimonial', icon: MessageSquareQuote },
+];
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ open, onOpenChange }) => {
+  const { language } = useTheme();
+  const { t } = useTranslation('common');
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+
+  const index = useMemo(() => buildSearchIndex(projects, services), []);
+  const results = useMemo(() => searchIndex(index, query), [index, query]);
+
+  // Global shortcut: Ctrl+K / Cmd+K toggles the palette
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [open, onOpenChange]);
+
+  // Start fresh each time the palette opens
+  useEffect(() => {
+    if (open) setQuery('');
+  }, [open]);
+
+  const handleSelect = (path: string) => {
+    onOpenChange(false);
+    navigate(localizePath(path, language));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="overflow-hidden p-0 bg-[#fff9f3] dark:bg-[#1f1f1f] border-[#9c7860]/30 dark:border-[#d9cab1]/20"
+        dir={language === 'ar' ? 'rtl' : 'ltr'}
+      >
+        <DialogTitle className="sr-only">{t('search.label')}</DialogTitle>
+        <Command
+          shouldFilter={false}
+          className="bg-transparent text-[#2d2d2d] dark:text-[#d9cab1] [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-[#9c7860] [&_[cmdk-input]]:h-12"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder={t('search.placeholder')}
+            className="ltr:pr-8 rtl:pl-8"
+          />
+          <CommandList className="max-h-[60vh]">
+            {query.trim() === '' ? (
+              <div className="py-6 text-center text-sm text-[#9c7860] dark:text-[#d9cab1]/70">{t('search.hint')}</div>
+            ) : (
+              <CommandEmpty className="py-6 text-center text-sm text-[#9c7860] dark:text-[#d9cab1]/70">{t('search.noResults')}</CommandEmpty>
+            )}
+            {groups.map(({ type, icon: Icon }) => {
+              const items = results.filter((r) => r.document.type === type);
+              if (items.length === 0) return null;
+              return (
+                <CommandGroup key={type} heading={t(`search.groups.${type}`)}>
+                  {items.map(({ document }) => (
+                    <CommandItem
+                      key={document.key}
+                      value={document.key}
+                      onSelect={() => handleSelect(document.path)}
+                      className="flex items-start gap-3 px-2 py-2 cursor-pointer data-[selected=true]:bg-[#8f1819]/10 dark:data-[selected=true]:bg-[#bd7b6a]/15"
+                    >
+                      <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-[#8f1819] dark:text-[#bd7b6a]" />
+                      <div className="min-w-0">
+                        <div className="font-medium truncate">{localize(document.title, language)}</div>
+                        <div className="text-xs text-[#9c7860] dark:text-[#d9cab1]/70 line-clamp-1">
+                          {localize(document.subtitle, language)}
+                        </div>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchPalette;
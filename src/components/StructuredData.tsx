@@ -0,0 +1,26 @@
+/**
+ * StructuredData component
+ * Emits schema.org JSON-LD nodes (lib/structuredData.ts) as a single @graph script in <head>.
+ */
+import React from 'react';
+import { Helmet } from 'react-helmet-async';
+import type { JsonLdNode } from '../lib/structuredData';
+
+/** Props for StructuredData */
+interface StructuredDataProps {
+  /** Nodes to publish; they may reference each other by @id */
+  nodes: JsonLdNode[];
+}
+
+const StructuredData: React.FC<StructuredDataProps> = ({ nodes }) => {
+  // Escape "<" so content can never close the script element early
+  const json = JSON.stringify({ '@context': 'https://schema.org', '@graph': nodes }).replace(/</g, '\\u003c');
+
+  return (
+    <Helmet>
+      <script type="application/ld+json">{json}</script>
+    </Helmet>
+  );
+};
+
+export default StructuredData;
@@ -13,6 +13,7 @@ import { useTheme } from '../contexts/ThemeContext';
 import { localize } from '../utils/localize';
 import { Button } from './ui/button';
 import { useInView } from '../hooks/useInView';
+import { useTranslation } from '../i18n';
 
 /** Derived opinion item combining project title and its localized comment */
 interface OpinionItem {
@@ -73,6 +74,8 @@ const OpinionCard: React.FC<{ item: OpinionItem; index: number }> = ({ item, ind
  */
 const Testimonials: React.FC = () => {
   const { language } = useTheme();
+  const { t } = useTranslation('home');
+  const { t: tc } = useTranslation('common');
   const containerRef = useRef<HTMLDivElement | null>(null);
   const sectionReveal = useInView({ threshold: 0.1, once: true });
 
@@ -97,9 +100,6 @@ const Testimonials: React.FC = () => {
   const handlePrev = () => scrollByAmount(containerRef.current, -Math.min(window.innerWidth * 0.8, 600));
   const handleNext = () => scrollByAmount(containerRef.current, Math.min(window.innerWidth * 0.8, 600));
 
-  // Localized title
-  const sectionTitle = language === 'ar' ? 'ماذا يقول عملاؤنا' : 'What Our Customers Say';
-
   return (
     <section
       ref={sectionReveal.ref as unknown as React.RefObject<HTMLElement>}
@@ -113,12 +113,10 @@ const Testimonials: React.FC = () => {
         {/* Section Header */}
         <div className="text-center space-y-4 mb-12">
           <h2 className="text-4xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">
-            {sectionTitle}
+            {t('testimonialsTitle')}
           </h2>
           <p className="text-[#9c7860] dark:text-[#d9cab1]/80 max-w-2xl mx-auto">
-            {language === 'ar'
-              ? 'آراء حقيقية مرتبطة بكل مشروع — تُعرض كبطاقات منبثقة جذابة.'
-              : 'Real opinions tied to each project — presented as engaging pop-up cards.'}
+            {t('testimonialsSubtitle')}
           </p>
         </div>
 
@@ -131,8 +129,8 @@ const Testimonials: React.FC = () => {
               variant="outline"
               size="icon"
               className="pointer-events-auto bg-transparent h-10 w-10 rounded-full border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] shadow-sm"
-              aria-label={language === 'ar' ? 'السابق' : 'Previous'}
-              title={language === 'ar' ? 'السابق' : 'Previous'}
+              aria-label={tc('previous')}
+              title={tc('previous')}
             >
               <ChevronLeft className="h-5 w-5" />
             </Button>
@@ -155,8 +153,8 @@ const Testimonials: React.FC = () => {
               variant="outline"
               size="icon"
               className="pointer-events-auto bg-transparent h-10 w-10 rounded-full border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] shadow-sm"
-              aria-label={language === 'ar' ? 'التالي' : 'Next'}
-              title={language === 'ar' ? 'التالي' : 'Next'}
+              aria-label={tc('next')}
+              title={tc('next')}
             >
               <ChevronRight className="h-5 w-5" />
             </Button>
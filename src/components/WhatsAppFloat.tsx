@@ -6,10 +6,10 @@
  * - Clicking the messages area or CTA opens WhatsApp with a prefilled message.
  * - Localized EN/AR and supports dark/light themes.
  */
-import React, { useMemo, useState, MouseEvent } from 'react';
+import React, { useState, MouseEvent } from 'react';
 import WhatsAppIcon from './icons/WhatsAppIcon';
-import { useTheme } from '../contexts/ThemeContext';
 import { Button } from './ui/button';
+import { useTranslation } from '../i18n';
 
 /**
  * Single chat message definition for the sample preview.
@@ -17,12 +17,19 @@ import { Button } from './ui/button';
 interface ChatMessage {
   /** Who sent the message */
   from: 'me' | 'them';
-  /** Message content (localized) */
-  text: { en: string; ar: string };
-  /** Optional timestamp string (localized) */
-  time?: { en: string; ar: string };
+  /** Message content key (whatsapp.sample.*) */
+  text: 'greeting' | 'request' | 'reply';
+  /** Optional timestamp */
+  time?: string;
 }
 
+/** Sample messages for the preview */
+const messages: ChatMessage[] = [
+  { from: 'them', text: 'greeting', time: '11:18' },
+  { from: 'me', text: 'request', time: '11:19' },
+  { from: 'them', text: 'reply', time: '11:20' },
+];
+
 /**
  * Open WhatsApp chat in a new tab with a prefilled message.
  */
@@ -59,54 +66,20 @@ const ChevronIcon: React.FC<{ className?: string }> = ({ className }) => (
  * - When expanded, shows the full chat-style card with messages and a CTA.
  */
 const WhatsAppFloat: React.FC = () => {
-  const { language } = useTheme();
+  const { t } = useTranslation('common');
   const [expanded, setExpanded] = useState<boolean>(false);
 
   // Business profile data
   const whatsappNumber = '+966504487308';
-  const prefillMessage =
-    language === 'ar'
-      ? 'مرحباً! أود التحدث حول مشروع تصميم جديد.'
-      : "Hello! I'd like to discuss a new design project.";
-
-  // Sample messages (localized)
-  const messages: ChatMessage[] = useMemo(
-    () => [
-      {
-        from: 'them',
-        text: {
-          en: "Hi! 👋 I'm Emad. How can I help you today?",
-          ar: 'مرحباً! 👋 أنا عماد. كيف يمكنني مساعدتك اليوم؟',
-        },
-        time: { en: '11:18', ar: '11:18' },
-      },
-      {
-        from: 'me',
-        text: {
-          en: "Hello! I'd like to discuss a new branding project.",
-          ar: 'مرحباً! أرغب في مناقشة مشروع علامة تجارية جديد.',
-        },
-        time: { en: '11:19', ar: '11:19' },
-      },
-      {
-        from: 'them',
-        text: {
-          en: 'Great! Please share a brief, timeline, and any references.',
-          ar: 'رائع! شاركني موجزاً، والمدة الزمنية، وأي مراجع لديك.',
-        },
-        time: { en: '11:20', ar: '11:20' },
-      },
-    ],
-    [language]
-  );
+  const prefillMessage = t('whatsapp.prefill');
 
   // Localized header bits
-  const headerName = language === 'ar' ? 'م. عماد الدين' : 'Emad Alddine';
-  const headerTitle = language === 'ar' ? 'مصمم جرافيك أول' : 'Senior Graphic Designer';
-  const onlineText = language === 'ar' ? 'متصل الآن' : 'Online';
-  const tapToChat = language === 'ar' ? 'انقر للدردشة عبر واتساب' : 'Tap to chat on WhatsApp';
-  const expandLabel = language === 'ar' ? (expanded ? 'طي المحادثة' : 'عرض المحادثة') : expanded ? 'Collapse' : 'Expand';
-  const openLabel = language === 'ar' ? 'فتح دردشة واتساب' : 'Open WhatsApp chat';
+  const headerName = t('whatsapp.name');
+  const headerTitle = t('whatsapp.jobTitle');
+  const onlineText = t('whatsapp.online');
+  const tapToChat = t('whatsapp.tapToChat');
+  const expandLabel = expanded ? t('whatsapp.collapse') : t('whatsapp.expand');
+  const openLabel = t('whatsapp.open');
 
   // Profile image (from uploaded assets)
   const avatarSrc =
@@ -128,7 +101,7 @@ const WhatsAppFloat: React.FC = () => {
   };
 
   return (
-    <div className="fixed bottom-6 right-6 z-50">
+    <div className="print:hidden fixed bottom-6 right-6 z-50">
       {/* Collapsed: icon-only button */}
       {!expanded && (
         <button
@@ -237,7 +210,7 @@ const WhatsAppFloat: React.FC = () => {
                               'border border-black/5 dark:border-white/10',
                             ].join(' ')}
                           >
-                            <p className="leading-snug">{m.text[language]}</p>
+                            <p className="leading-snug">{t(`whatsapp.sample.${m.text}`)}</p>
                             {m.time && (
                               <div
                                 className={[
@@ -246,7 +219,7 @@ const WhatsAppFloat: React.FC = () => {
                                   'text-right',
                                 ].join(' ')}
                               >
-                                {m.time[language]}
+                                {m.time}
                               </div>
                             )}
                           </div>
@@ -259,7 +232,7 @@ const WhatsAppFloat: React.FC = () => {
                 {/* Faux input hint */}
                 <div className="mt-3 flex items-center gap-2 rounded-xl bg-white dark:bg-[#1f2c34] border border-black/5 dark:border-white/10 px-3 py-2">
                   <span className="text-xs text-[#7a7a7a] dark:text-white/60 truncate">
-                    {language === 'ar' ? 'اكتب رسالة...' : 'Type a message...'}
+                    {t('whatsapp.typeMessage')}
                   </span>
                   <span className="ml-auto inline-flex items-center gap-1 text-[#25D366]">
                     <WhatsAppIcon className="h-4 w-4" />
@@ -272,7 +245,7 @@ const WhatsAppFloat: React.FC = () => {
                     onClick={handleOpenChat}
                     className="w-full bg-[#25D366] hover:bg-[#1fb257] text-white active:brightness-95 transition-all duration-300 ease-in-out"
                   >
-                    {language === 'ar' ? 'الدردشة على واتساب' : 'Chat on WhatsApp'}
+                    {t('whatsapp.chat')}
                   </Button>
                   <p className="mt-2 text-center text-[11px] text-[#6b7280] dark:text-white/50">
                     {tapToChat}
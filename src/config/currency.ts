@@ -0,0 +1,26 @@
+/**
+ * Currency configuration
+ * Prices are authored in SAR; visitors can view them in another currency.
+ * Update EXCHANGE_RATES here when rates move (value = how many SAR one unit is worth).
+ */
+
+/** Supported display currencies */
+export type CurrencyCode = 'SAR' | 'USD' | 'AED' | 'EUR' | 'EGP';
+
+/** Currency shown by default (prices are stored in it) */
+export const BASE_CURRENCY: CurrencyCode = 'SAR';
+
+/** Switcher entries, in display order (names are in the common namespace, `currency.names.*`) */
+export const CURRENCIES: CurrencyCode[] = ['SAR', 'USD', 'AED', 'EUR', 'EGP'];
+
+/**
+ * SAR per one unit of each currency.
+ * SAR and AED are pegged to USD (3.75 and 3.6725); EUR and EGP are indicative.
+ */
+export const EXCHANGE_RATES: Record<CurrencyCode, number> = {
+  SAR: 1,
+  USD: 3.75,
+  AED: 1.021,
+  EUR: 4.05,
+  EGP: 0.077,
+};
@@ -0,0 +1,11 @@
+/**
+ * Invoice configuration
+ * Seller details printed on quotations and tax invoices (pages/Invoice.tsx).
+ */
+
+/**
+ * Seller VAT registration number (15 digits, as issued by ZATCA).
+ * Fill it in to enable tax invoices: a tax invoice must show it, so while it is empty the
+ * "Tax Invoice" document kind is disabled on /invoice (which says so) and only quotations can be issued.
+ */
+export const SELLER_VAT_NUMBER = '';
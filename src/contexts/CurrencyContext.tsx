@@ -0,0 +1,48 @@
+/**
+ * Currency context for the display currency of prices
+ * Prices stay stored in SAR; the chosen currency only changes how they are shown.
+ * The choice is remembered in localStorage (SAR is used for prerendering).
+ */
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { BASE_CURRENCY, type CurrencyCode } from '../config/currency';
+import { isCurrencyCode } from '../utils/currency';
+
+interface CurrencyContextType {
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
+
+interface CurrencyProviderProps {
+  children: React.ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const [currency, setCurrencyState] = useState<CurrencyCode>(BASE_CURRENCY);
+
+  useEffect(() => {
+    // Load saved currency from localStorage
+    const saved = localStorage.getItem('currency');
+    if (isCurrencyCode(saved)) setCurrencyState(saved);
+  }, []);
+
+  const setCurrency = (next: CurrencyCode) => {
+    setCurrencyState(next);
+    localStorage.setItem('currency', next);
+  };
+
+  return (
+    <CurrencyContext.Provider value={{ currency, setCurrency }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
@@ -0,0 +1,53 @@
+/**
+ * Package preview context
+ * Standard / Premium tiers still awaiting sign-off (`draft` in data/services.ts) are hidden from visitors;
+ * the preview switch on the Services page shows them so they can be checked in the real UI.
+ * The choice is remembered in localStorage (off for prerendering).
+ */
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { previewServices, services as publishedServices, type Service } from '../data/services';
+
+interface PackagePreviewContextType {
+  /** Draft tiers are shown */
+  preview: boolean;
+  setPreview: (preview: boolean) => void;
+  /** Services with the tiers to show: published ones, plus drafts while previewing */
+  services: Service[];
+}
+
+const PackagePreviewContext = createContext<PackagePreviewContextType | undefined>(undefined);
+
+export const usePackagePreview = () => {
+  const context = useContext(PackagePreviewContext);
+  if (context === undefined) {
+    throw new Error('usePackagePreview must be used within a PackagePreviewProvider');
+  }
+  return context;
+};
+
+interface PackagePreviewProviderProps {
+  children: React.ReactNode;
+}
+
+export const PackagePreviewProvider: React.FC<PackagePreviewProviderProps> = ({ children }) => {
+  const [preview, setPreviewState] = useState(false);
+
+  useEffect(() => {
+    // Load the saved choice from localStorage
+    setPreviewState(localStorage.getItem('packagePreview') === 'on');
+  }, []);
+
+  const setPreview = (next: boolean) => {
+    setPreviewState(next);
+    if (next) localStorage.setItem('packagePreview', 'on');
+    else localStorage.removeItem('packagePreview');
+  };
+
+  const services = preview ? previewServices : publishedServices;
+
+  return (
+    <PackagePreviewContext.Provider value={{ preview, setPreview, services }}>
+      {children}
+    </PackagePreviewContext.Provider>
+  );
+};
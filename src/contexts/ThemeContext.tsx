@@ -1,8 +1,11 @@
 /**
  * Theme context for managing dark/light mode and language switching
  * Provides global state management for theme and internationalization
+ * The language is derived from the URL prefix (/en, /ar); switching it navigates to the same page in the other language.
  */
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router';
+import { languageFromPathname, localizePath } from '../utils/routes';
 
 interface ThemeContextType {
   theme: 'light' | 'dark';
@@ -25,17 +28,20 @@ interface ThemeProviderProps {
   children: React.ReactNode;
 }
 
+/**
+ * Must be rendered inside a router: the language comes from the current location.
+ */
 export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
-  const [language, setLanguage] = useState<'en' | 'ar'>('en');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const urlLanguage = languageFromPathname(location.pathname);
+  const language = urlLanguage ?? 'en';
 
   useEffect(() => {
-    // Load saved preferences from localStorage
+    // Load saved theme from localStorage (language is owned by the URL)
     const savedTheme = localStorage.getItem('theme') as 'light' | 'dark' | null;
-    const savedLanguage = localStorage.getItem('language') as 'en' | 'ar' | null;
-    
     if (savedTheme) setTheme(savedTheme);
-    if (savedLanguage) setLanguage(savedLanguage);
   }, []);
 
   useEffect(() => {
@@ -44,17 +50,22 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
     document.documentElement.dir = language === 'ar' ? 'rtl' : 'ltr';
     document.documentElement.lang = language;
     
-    // Save to localStorage
+    // Save to localStorage (language is remembered for the root URL redirect)
     localStorage.setItem('theme', theme);
-    localStorage.setItem('language', language);
-  }, [theme, language]);
+    if (urlLanguage) localStorage.setItem('language', urlLanguage);
+  }, [theme, language, urlLanguage]);
 
   const toggleTheme = () => {
     setTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
 
   const toggleLanguage = () => {
-    setLanguage(prev => prev === 'en' ? 'ar' : 'en');
+    const next = language === 'en' ? 'ar' : 'en';
+    navigate({
+      pathname: localizePath(location.pathname, next),
+      search: location.search,
+      hash: location.hash,
+    });
   };
 
   return (
@@ -0,0 +1,32 @@
+/**
+ * Responsive image manifest
+ * Project images stored in content/projects/<folder>/ are encoded at build time (scripts/images.mjs)
+ * into several widths of AVIF, WebP and JPEG. Remote image URLs have no entry and render as-is.
+ */
+import manifest from '@content/images';
+
+/** One <source> of a <picture> */
+export interface ImageSource {
+  /** MIME type, e.g. image/avif */
+  type: string;
+  /** "url 320w, url 640w, ..." */
+  srcSet: string;
+}
+
+/** Generated variants of one local image */
+export interface ResponsiveImage {
+  /** Largest JPEG (the <img> fallback); also the key in the manifest */
+  src: string;
+  /** JPEG srcset */
+  srcSet: string;
+  /** Modern formats, best first */
+  sources: ImageSource[];
+  /** Intrinsic size of the original */
+  width: number;
+  height: number;
+  /** Tiny blurred preview (data URI) shown while the image loads */
+  placeholder: string;
+}
+
+/** Responsive variants for an image URL, if it was generated from a local file */
+export const getResponsiveImage = (src: string): ResponsiveImage | undefined => manifest[src];
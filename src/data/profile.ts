@@ -0,0 +1,118 @@
+/**
+ * Designer profile data
+ * Identity, contact details, work experience, education and spoken languages.
+ * Rendered on the About page and used for the Person / ProfessionalService structured data.
+ */
+import type { LocalizedText } from './projects';
+
+/** A role in the experience timeline */
+export interface Experience {
+  title: LocalizedText;
+  company: LocalizedText;
+  /** Shown for ongoing roles only ("Present") */
+  status?: LocalizedText;
+  location: string | LocalizedText;
+  description: LocalizedText;
+}
+
+/** A degree, diploma or certificate */
+export interface EducationItem {
+  title: LocalizedText;
+  year: string;
+}
+
+/** A spoken language with a proficiency bar */
+export interface SpokenLanguage {
+  name: LocalizedText;
+  /** BCP 47 code (structured data) */
+  code: string;
+  level: LocalizedText;
+  percentage: number;
+}
+
+/** Who the site belongs to */
+export const PROFILE = {
+  name: { en: 'Emad Alddine', ar: 'عماد الدين' },
+  jobTitle: { en: 'Senior Graphic Designer', ar: 'مصمم جرافيك أول' },
+  description: {
+    en: 'Branding and logo designer with 9+ years of experience creating visual identities, print and digital design.',
+    ar: 'مصمم علامات تجارية وشعارات بخبرة تزيد عن 9 سنوات في الهويات البصرية والتصميم الطباعي والرقمي.',
+  },
+  email: 'info@emadalddine.com',
+  phone: '+966504487308',
+  city: { en: 'Al-Madina', ar: 'المدينة المنورة' },
+  country: 'SA',
+  nationality: 'YE',
+  photo:
+    'https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/855be7ed-4b6e-432c-8175-95813175c674.jpg',
+  logo: 'https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/2f8833bb-848a-4376-9d94-4e9992a5b2b2.png',
+};
+
+/** Experiences (latest first, no date ranges; "Present" shown only for ongoing roles) */
+export const experiences: Experience[] = [
+  {
+    title: { en: 'Volunteer Infographic Designer', ar: 'مصمم إنفوجرافيك متطوع' },
+    company: { en: 'Al Masjid Al Nabawi', ar: 'المسجد النبوي' },
+    status: { en: 'Present', ar: 'الحاضر' },
+    location: 'Al-Madina, Saudi Arabia',
+    description: {
+      en: "Design volunteer infographics for awareness and guidance campaigns at the Prophet's Mosque, ensuring clarity and visual impact.",
+      ar: 'تصميم إنفوجرافيك تطوعي لحملات التوعية والإرشاد في المسجد النبوي، مع ضمان الوضوح والأثر البصري.',
+    },
+  },
+  {
+    title: { en: 'Graphic Designer & Printing Specialist', ar: 'مصمم جرافيك وأخصائي طباعة' },
+    company: { en: 'Al Fanoos Trading Co.', ar: 'شركة الفانوس التجارية' },
+    status: { en: 'Present', ar: 'الحاضر' },
+    location: 'Al-Madina, Saudi Arabia',
+    description: {
+      en: 'Design and supervise print-ready marketing materials, optimize prepress workflows, and ensure color-accurate outputs across offset and digital.',
+      ar: 'تصميم والإشراف على مواد تسويقية جاهزة للطباعة، وتحسين عمليات ما قبل الطباعة، وضمان دقة الألوان عبر الطباعة الأوفست والرقمية.',
+    },
+  },
+  {
+    title: { en: 'Senior Graphic Designer', ar: 'مصمم جرافيك أول' },
+    company: { en: 'Yemen Palestine Charity Foundation', ar: 'مؤسسة يمن فلسطين الخيرية' },
+    location: 'Yemen',
+    description: {
+      en: 'Led creative direction and produced campaign visuals for humanitarian initiatives while maintaining brand consistency.',
+      ar: 'قاد التوجيه الإبداعي وأنتج مواد حملات للمبادرات الإنسانية مع الحفاظ على اتساق الهوية.',
+    },
+  },
+  {
+    title: { en: 'Media & Communication Manager', ar: 'مدير الإعلام والاتصال' },
+    company: { en: 'Mozn Charity Foundation', ar: 'مؤسسة مزن الخيرية' },
+    location: 'Yemen',
+    description: {
+      en: 'Managed media strategy, content production, and outreach; coordinated designers and volunteers to deliver campaigns.',
+      ar: 'إدارة استراتيجية الإعلام وإنتاج المحتوى والتواصل؛ تنسيق عمل المصممين والمتطوعين لتنفيذ الحملات.',
+    },
+  },
+  {
+    title: { en: 'Freelance Designer', ar: 'مصمم مستقل' },
+    company: { en: 'Self-Employed', ar: 'عمل حر' },
+    status: { en: 'Present', ar: 'الحاضر' },
+    location: { en: 'Remote', ar: 'عن بُعد' },
+    description: {
+      en: 'Delivered custom design solutions for clients across various industries. Built strong client relationships and maintained high satisfaction rates.',
+      ar: 'تقديم حلول تصميم مخصصة للعملاء في مختلف الصناعات. بناء علاقات قوية مع العملاء والحفاظ على معدلات رضا عالية.',
+    },
+  },
+];
+
+/** Education and certificates */
+export const education: EducationItem[] = [
+  { title: { en: 'Bachelor of Graphic & Multimedia', ar: 'بكالوريوس في الجرافيك والوسائط المتعددة' }, year: '2021' },
+  { title: { en: 'TOFEL ITP Certificate', ar: 'شهادة توفل ITP' }, year: '2021' },
+  { title: { en: 'Diplôme français junior', ar: 'دبلوم فرنسي مبتدئ' }, year: '2022' },
+  { title: { en: 'English Advanced Diploma', ar: 'دبلوم اللغة الإنجليزية المتقدم' }, year: '2018' },
+  { title: { en: 'Designing Diploma', ar: 'دبلوم التصميم' }, year: '2016' },
+  { title: { en: 'ICDL Certificate', ar: 'شهادة ICDL' }, year: '2016' },
+];
+
+/** Spoken languages */
+export const spokenLanguages: SpokenLanguage[] = [
+  { name: { en: 'Arabic', ar: 'العربية' }, code: 'ar', level: { en: 'Mother Tongue', ar: 'اللغة الأم' }, percentage: 100 },
+  { name: { en: 'English', ar: 'الإنجليزية' }, code: 'en', level: { en: 'Advanced', ar: 'متقدم' }, percentage: 90 },
+  { name: { en: 'French', ar: 'الفرنسية' }, code: 'fr', level: { en: 'Elementary', ar: 'مبتدئ' }, percentage: 40 },
+];
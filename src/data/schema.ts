@@ -0,0 +1,223 @@
+/**
+ * Runtime schema for the project catalog
+ * Used by scripts/content.mjs to validate content/projects before it is compiled into the bundle.
+ * Kept in lockstep with the interfaces in projects.ts (each schema is typed against them).
+ */
+import { z } from 'zod';
+import type { CaseStudy, LocalizedText, MediaItem, Project, ProjectCategory } from './projects';
+import { SERVICE_IDS } from './services';
+
+/** Non-empty, trimmed string with a readable error message */
+const requiredText = (message: string) =>
+  z.string({ required_error: message, invalid_type_error: message }).trim().min(1, message);
+
+/** True for an absolute http(s) URL */
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/** Image file extensions the image pipeline accepts */
+const LOCAL_IMAGE = /\.(jpe?g|png|webp|avif|tiff?)$/i;
+const LOCAL_VIDEO = /\.(mp4|webm|mov)$/i;
+const LOCAL_PDF = /\.pdf$/i;
+const LOCAL_ANIMATION = /\.(gif|webp|png|mp4|webm)$/i;
+
+/** Video container, local or remote (same test as isVideoFile in projects.ts, which can't be imported here without the catalog) */
+const VIDEO_FILE = /\.(mp4|webm|mov)(?:[?#]|$)/i;
+
+/**
+ * Media file: a remote http(s) URL, or a file of the expected kind in the project folder
+ * (resolved to content/projects/<folder>/<file> by scripts/content.mjs before validation)
+ */
+const mediaFile = (pattern: RegExp, expected: string) =>
+  z
+    .string({ required_error: 'file is required', invalid_type_error: 'must be a URL or file name' })
+    .refine(
+      (value) => isHttpUrl(value) || (!/^[a-z]+:/i.test(value) && pattern.test(value)),
+      `expected an absolute http(s) URL or ${expected} in the project folder`
+    );
+
+const imageSource = mediaFile(LOCAL_IMAGE, 'an image file (e.g. ./cover.jpg)');
+
+/** Localized text: both languages are mandatory */
+export const localizedTextSchema: z.ZodType<LocalizedText> = z.object(
+  {
+    en: requiredText('English text is missing'),
+    ar: requiredText('Arabic translation is missing'),
+  },
+  { required_error: 'missing (needs en and ar)', invalid_type_error: 'must be an object with en and ar' }
+);
+
+/** Allowed portfolio categories */
+export const projectCategorySchema: z.ZodType<ProjectCategory> = z.enum(['logos', 'branding', 'print', 'uiux'], {
+  errorMap: () => ({ message: 'must be one of: logos, branding, print, uiux' }),
+});
+
+/** Optional case study block; each field is optional but must be complete when present */
+export const caseStudySchema: z.ZodType<CaseStudy> = z.object({
+  client: localizedTextSchema.optional(),
+  year: z.number({ invalid_type_error: 'year must be a number' }).int().min(1990).max(2100).optional(),
+  role: localizedTextSchema.optional(),
+  deliverables: z.array(localizedTextSchema).optional(),
+  challenge: localizedTextSchema.optional(),
+  approach: localizedTextSchema.optional(),
+  outcome: localizedTextSchema.optional(),
+  beforeAfter: z
+    .array(
+      z.object({
+        before: imageSource,
+        after: imageSource,
+        caption: localizedTextSchema.optional(),
+      })
+    )
+    .optional(),
+  palette: z
+    .array(
+      z.object({
+        hex: z.string().regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, 'must be a hex color like #8f1819'),
+        name: localizedTextSchema.optional(),
+      })
+    )
+    .optional(),
+});
+
+/** Texts every media item may carry */
+const mediaTextFields = {
+  alt: localizedTextSchema.optional(),
+  caption: localizedTextSchema.optional(),
+  credit: z
+    .union([requiredText('empty credit'), localizedTextSchema], {
+      errorMap: () => ({ message: 'credit must be text or an object with en and ar' }),
+    })
+    .optional(),
+};
+
+/** One gallery item; plain strings in the content files are compiled to image items before validation */
+export const mediaItemSchema: z.ZodType<MediaItem> = z.discriminatedUnion(
+  'type',
+  [
+    z.object({ type: z.literal('image'), src: imageSource, ...mediaTextFields }),
+    z.object({
+      type: z.literal('video'),
+      src: mediaFile(LOCAL_VIDEO, 'a video file (e.g. ./motion.mp4)'),
+      poster: imageSource,
+      ...mediaTextFields,
+    }),
+    z.object({
+      type: z.literal('pdf'),
+      src: mediaFile(LOCAL_PDF, 'a PDF file (e.g. ./brand-book.pdf)'),
+      pages: z.array(imageSource, { required_error: 'page images are required' }).min(1, 'at least one page image is required'),
+      ...mediaTextFields,
+    }),
+    z.object({
+      type: z.literal('animation'),
+      src: mediaFile(LOCAL_ANIMATION, 'a GIF, animated WebP/PNG or MP4/WebM file'),
+      poster: imageSource.optional(),
+      ...mediaTextFields,
+    }),
+  ],
+  {
+    errorMap: (issue, ctx) => ({
+      message:
+        issue.code === 'invalid_union_discriminator' ? 'type must be one of: image, video, pdf, animation' : ctx.defaultError,
+    }),
+  }
+).superRefine((item, ctx) => {
+  // Cards, thumbnails and share markup need a still image; only animated images can stand in for themselves
+  if (item.type === 'animation' && !item.poster && VIDEO_FILE.test(item.src)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['poster'],
+      message: 'a poster image is required when the animation is an MP4/WebM video',
+    });
+  }
+});
+
+/** A single project entry */
+export const projectSchema: z.ZodType<Project> = z.object({
+  id: z.number({ required_error: 'id is required', invalid_type_error: 'id must be a number' }).int().positive(),
+  title: localizedTextSchema,
+  description: localizedTextSchema,
+  category: projectCategorySchema,
+  year: z
+    .number({ required_error: 'year is required', invalid_type_error: 'year must be a number' })
+    .int()
+    .min(1990)
+    .max(2100),
+  featured: z.boolean({ invalid_type_error: 'featured must be true or false' }).optional(),
+  services: z
+    .array(
+      z.enum(SERVICE_IDS, {
+        errorMap: () => ({ message: `unknown service (expected one of: ${SERVICE_IDS.join(', ')})` }),
+      })
+    )
+    .optional(),
+  tags: z.array(requiredText('empty tag')),
+  media: z.array(mediaItemSchema, { required_error: 'media is required' }).min(1, 'at least one media item is required'),
+  comments: z.array(localizedTextSchema).optional(),
+  body: localizedTextSchema,
+  caseStudy: caseStudySchema.optional(),
+});
+
+/** A readable problem found in one catalog entry */
+export interface ProjectIssue {
+  /** Dotted path inside the entry, e.g. "title.ar" or "media.0.poster" */
+  path: string;
+  /** Human readable message */
+  message: string;
+}
+
+/**
+ * Non-blocking content problems per entry (same order as input): media items without alt text.
+ * Missing alt text falls back to the project title, which tells screen reader users nothing about the item.
+ */
+export function collectProjectWarnings(entries: unknown[]): ProjectIssue[][] {
+  return entries.map((entry) => {
+    const media = (entry as { media?: unknown } | null)?.media;
+    if (!Array.isArray(media)) return [];
+    return media.flatMap((item, index): ProjectIssue[] =>
+      item && typeof item === 'object' && !('alt' in item)
+        ? [{ path: `media.${index}.alt`, message: 'alt text is missing (add en and ar descriptions of the item)' }]
+        : []
+    );
+  });
+}
+
+/**
+ * Validate every entry of the catalog and return the problems per entry (same order as input).
+ * Each entry is checked on its own so one broken project does not hide problems in the others,
+ * then ids are compared across the whole catalog.
+ * `labels` name each entry in duplicate-id messages (e.g. the content folder).
+ */
+export function collectProjectIssues(
+  entries: unknown[],
+  labels: string[] = entries.map((_, i) => `entry #${i + 1}`)
+): ProjectIssue[][] {
+  const report = entries.map((entry): ProjectIssue[] => {
+    const result = projectSchema.safeParse(entry);
+    if (result.success) return [];
+    return result.error.issues.map((issue) => ({
+      path: issue.path.join('.') || '(entry)',
+      message: issue.message,
+    }));
+  });
+
+  const seen = new Map<unknown, number>();
+  entries.forEach((entry, index) => {
+    const id = (entry as { id?: unknown } | null)?.id;
+    if (typeof id !== 'number') return;
+    const first = seen.get(id);
+    if (first === undefined) {
+      seen.set(id, index);
+    } else {
+      report[index].push({ path: 'id', message: `duplicate id ${id} (also used by ${labels[first]})` });
+    }
+  });
+
+  return report;
+}
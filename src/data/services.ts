@@ -0,0 +1,447 @@
+/**
+ * Centralized service catalog and types
+ * Services with their Basic / Standard / Premium packages, plus the design process steps.
+ * Shared by the Services page, quote builder, project brief, site search and portfolio links.
+ */
+import type React from 'react';
+import type { TFunction } from 'i18next';
+import { Camera, FileCheck, Globe, Layout, Lightbulb, MessageSquare, Palette, PenTool, Printer } from 'lucide-react';
+
+/** Stable service ids (referenced by projects in content/projects) */
+export const SERVICE_IDS = ['logo-design', 'brand-identity', 'print-design', 'web-design', 'social-media'] as const;
+
+export type ServiceId = (typeof SERVICE_IDS)[number];
+
+/** Package tier identifiers, cheapest first (names are in the common namespace, `tier.*`) */
+export const TIER_IDS = ['basic', 'standard', 'premium'] as const;
+
+export type TierId = (typeof TIER_IDS)[number];
+
+/**
+ * One package of a service (Basic / Standard / Premium)
+ */
+export interface ServiceTier {
+  id: TierId;
+  /** Price value in SAR */
+  priceSar: number;
+  /** Included revision rounds */
+  revisions: number | 'unlimited';
+  /** Delivery time in working days */
+  deliveryDays: number;
+  /** Localized deliverables included in this tier */
+  features: { en: string[]; ar: string[] };
+  /** Highlight as the recommended tier */
+  recommended?: boolean;
+  /**
+   * Proposed figures not yet signed off by the owner: the tier is only shown with the package preview
+   * switched on (Services page) and stays out of structured data until this flag is removed
+   */
+  draft?: boolean;
+}
+
+/**
+ * Service definition with localized content
+ */
+export interface Service {
+  /** Stable id used in links, quotes, briefs and project references */
+  id: ServiceId;
+  /** Icon to illustrate the service */
+  icon: React.ElementType;
+  /** Localized title */
+  title: { en: string; ar: string };
+  /** Localized description */
+  description: { en: string; ar: string };
+  /** Localized feature bullets */
+  features: { en: string[]; ar: string[] };
+  /** Packages, cheapest first (prices in SAR, converted for display by the Price component) */
+  tiers: ServiceTier[];
+  /** Highlight as popular */
+  popular?: boolean;
+}
+
+/**
+ * Full catalog, including draft tiers
+ * Basic tier prices were converted to SAR using the USD peg (3.75, see config/currency),
+ * rounded to the nearest 5 for tidy pricing.
+ * - Logo Design: $150 -> ~562.5 -> 560 SAR
+ * - Brand Identity: $400 -> 1500 SAR
+ * - Print Design: $100 -> 375 SAR
+ * - Web Design: $500 -> 1875 SAR
+ * - Social Media Design: $50 -> ~187.5 -> 190 SAR
+ * Standard and Premium figures are proposals awaiting the owner's confirmation (`draft`).
+ */
+const catalog: Service[] = [
+  {
+    id: 'logo-design',
+    icon: Palette,
+    title: { en: 'Logo Design', ar: 'تصميم الشعارات' },
+    description: {
+      en: 'Creating unique and memorable logos that represent your brand identity perfectly.',
+      ar: 'إنشاء شعارات فريدة ولا تُنسى تمثل هوية علامتك التجارية بشكل مثالي.',
+    },
+    features: {
+      en: [
+        'Initial Concepts',
+        'Revision Rounds Included',
+        'Vector Files (AI, EPS)',
+        'PNG & JPG Files',
+        'Brand Guidelines',
+      ],
+      ar: ['مفاهيم أولية', 'جولات تعديل مشمولة', 'ملفات فيكتور (AI, EPS)', 'ملفات PNG و JPG', 'إرشادات العلامة التجارية'],
+    },
+    tiers: [
+      {
+        id: 'basic',
+        priceSar: 560,
+        revisions: 2,
+        deliveryDays: 5,
+        features: {
+          en: ['Initial Concepts', 'PNG & JPG Files'],
+          ar: ['مفاهيم أولية', 'ملفات PNG و JPG'],
+        },
+      },
+      {
+        id: 'standard',
+        draft: true,
+        priceSar: 950,
+        revisions: 4,
+        deliveryDays: 7,
+        features: {
+          en: ['Initial Concepts', 'PNG & JPG Files', 'Vector Files (AI, EPS)'],
+          ar: ['مفاهيم أولية', 'ملفات PNG و JPG', 'ملفات فيكتور (AI, EPS)'],
+        },
+        recommended: true,
+      },
+      {
+        id: 'premium',
+        draft: true,
+        priceSar: 1500,
+        revisions: 'unlimited',
+        deliveryDays: 10,
+        features: {
+          en: ['Initial Concepts', 'PNG & JPG Files', 'Vector Files (AI, EPS)', 'Extra Concept Round', 'Brand Guidelines'],
+          ar: ['مفاهيم أولية', 'ملفات PNG و JPG', 'ملفات فيكتور (AI, EPS)', 'جولة مفاهيم إضافية', 'إرشادات العلامة التجارية'],
+        },
+      },
+    ],
+    popular: true,
+  },
+  {
+    id: 'brand-identity',
+    icon: Layout,
+    title: { en: 'Brand Identity', ar: 'الهوية التجارية' },
+    description: {
+      en: 'Complete brand identity packages including logo, colors, typography, and guidelines.',
+      ar: 'حزم هوية تجارية كاملة تشمل الشعار والألوان والطباعة والإرشادات.',
+    },
+    features: {
+      en: [
+        'Logo Design',
+        'Color Palette',
+        'Typography Guide',
+        'Business Cards',
+        'Letterhead Design',
+        'Brand Guidelines',
+      ],
+      ar: ['تصميم الشعار', 'لوحة الألوان', 'دليل الطباعة', 'بطاقات العمل', 'تصميم ورق الخطابات', 'إرشادات العلامة التجارية'],
+    },
+    tiers: [
+      {
+        id: 'basic',
+        priceSar: 1500,
+        revisions: 2,
+        deliveryDays: 10,
+        features: {
+          en: ['Logo Design', 'Color Palette', 'Typography Guide'],
+          ar: ['تصميم الشعار', 'لوحة الألوان', 'دليل الطباعة'],
+        },
+      },
+      {
+        id: 'standard',
+        draft: true,
+        priceSar: 2600,
+        revisions: 4,
+        deliveryDays: 14,
+        features: {
+          en: ['Logo Design', 'Color Palette', 'Typography Guide', 'Business Cards', 'Letterhead Design'],
+          ar: ['تصميم الشعار', 'لوحة الألوان', 'دليل الطباعة', 'بطاقات العمل', 'تصميم ورق الخطابات'],
+        },
+        recommended: true,
+      },
+      {
+        id: 'premium',
+        draft: true,
+        priceSar: 4200,
+        revisions: 'unlimited',
+        deliveryDays: 21,
+        features: {
+          en: ['Logo Design', 'Color Palette', 'Typography Guide', 'Business Cards', 'Letterhead Design', 'Brand Guidelines', 'Social Media Kit'],
+          ar: ['تصميم الشعار', 'لوحة الألوان', 'دليل الطباعة', 'بطاقات العمل', 'تصميم ورق الخطابات', 'إرشادات العلامة التجارية', 'حزمة وسائل التواصل'],
+        },
+      },
+    ],
+  },
+  {
+    id: 'print-design',
+    icon: Printer,
+    title: { en: 'Print Design', ar: 'التصميم الطباعي' },
+    description: {
+      en: 'Professional print materials including brochures, flyers, posters, and marketing collateral.',
+      ar: 'مواد طباعة احترافية تشمل الكتيبات والنشرات والملصقات والمواد التسويقية.',
+    },
+    features: {
+      en: [
+        'Brochure Design',
+        'Flyer Design',
+        'Poster Design',
+        'Magazine Layout',
+        'Packaging Design',
+        'Print-Ready Files',
+      ],
+      ar: ['تصميم الكتيبات', 'تصميم النشرات', 'تصميم الملصقات', 'تخطيط المجلات', 'تصميم التعبئة', 'ملفات جاهزة للطباعة'],
+    },
+    tiers: [
+      {
+        id: 'basic',
+        priceSar: 375,
+        revisions: 2,
+        deliveryDays: 3,
+        features: {
+          en: ['Single Page Design', 'Print-Ready Files'],
+          ar: ['تصميم صفحة واحدة', 'ملفات جاهزة للطباعة'],
+        },
+      },
+      {
+        id: 'standard',
+        draft: true,
+        priceSar: 650,
+        revisions: 4,
+        deliveryDays: 5,
+        features: {
+          en: ['Single Page Design', 'Print-Ready Files', 'Editable Source File', 'Mockup Preview'],
+          ar: ['تصميم صفحة واحدة', 'ملفات جاهزة للطباعة', 'ملف مصدري قابل للتعديل', 'معاينة على نموذج واقعي'],
+        },
+        recommended: true,
+      },
+      {
+        id: 'premium',
+        draft: true,
+        priceSar: 1100,
+        revisions: 'unlimited',
+        deliveryDays: 7,
+        features: {
+          en: ['Multi-Page Layout', 'Print-Ready Files', 'Editable Source File', 'Mockup Preview', 'Printer Coordination'],
+          ar: ['تخطيط متعدد الصفحات', 'ملفات جاهزة للطباعة', 'ملف مصدري قابل للتعديل', 'معاينة على نموذج واقعي', 'التنسيق مع المطبعة'],
+        },
+      },
+    ],
+  },
+  {
+    id: 'web-design',
+    icon: Globe,
+    title: { en: 'Web Design', ar: 'تصميم المواقع' },
+    description: {
+      en: 'Modern and responsive website designs that engage users and drive conversions.',
+      ar: 'تصاميم مواقع عصرية ومتجاوبة تجذب المستخدمين وتحقق التحويلات.',
+    },
+    features: {
+      en: [
+        'Responsive Design',
+        'Landing Pages',
+        'E-commerce Design',
+        'CMS Integration',
+        'SEO Optimization',
+        'Performance Optimization',
+      ],
+      ar: ['تصميم متجاوب', 'صفحات الهبوط', 'تصميم التجارة الإلكترونية', 'تكامل CMS', 'تحسين SEO', 'تحسين الأداء'],
+    },
+    tiers: [
+      {
+        id: 'basic',
+        priceSar: 1875,
+        revisions: 2,
+        deliveryDays: 14,
+        features: {
+          en: ['Responsive Design', 'Landing Page'],
+          ar: ['تصميم متجاوب', 'صفحة هبوط'],
+        },
+      },
+      {
+        id: 'standard',
+        draft: true,
+        priceSar: 3400,
+        revisions: 4,
+        deliveryDays: 21,
+        features: {
+          en: ['Responsive Design', 'Landing Page', 'Multi-Page Website', 'CMS Integration'],
+          ar: ['تصميم متجاوب', 'صفحة هبوط', 'موقع متعدد الصفحات', 'تكامل CMS'],
+        },
+        recommended: true,
+      },
+      {
+        id: 'premium',
+        draft: true,
+        priceSar: 5600,
+        revisions: 'unlimited',
+        deliveryDays: 30,
+        features: {
+          en: ['Responsive Design', 'Landing Page', 'Multi-Page Website', 'CMS Integration', 'E-commerce Design', 'SEO & Performance Optimization'],
+          ar: ['تصميم متجاوب', 'صفحة هبوط', 'موقع متعدد الصفحات', 'تكامل CMS', 'تصميم التجارة الإلكترونية', 'تحسين SEO والأداء'],
+        },
+      },
+    ],
+  },
+  {
+    id: 'social-media',
+    icon: Camera,
+    title: { en: 'Social Media Design', ar: 'تصميم وسائل التواصل' },
+    description: {
+      en: 'Eye-catching social media graphics and templates for all major platforms.',
+      ar: 'جرافيك وسائل التواصل الاجتماعي ونماذج جذابة لجميع المنصات الرئيسية.',
+    },
+    features: {
+      en: ['Instagram Posts', 'Facebook Covers', 'Twitter Headers', 'LinkedIn Banners', 'Story Templates', 'Animated Graphics'],
+      ar: ['منشورات إنستغرام', 'أغلفة فيسبوك', 'رؤوس تويتر', 'بانرات لينكدإن', 'قوالب القصص', 'رسوم متحركة'],
+    },
+    tiers: [
+      {
+        id: 'basic',
+        priceSar: 190,
+        revisions: 2,
+        deliveryDays: 3,
+        features: {
+          en: ['Post Templates'],
+          ar: ['قوالب المنشورات'],
+        },
+      },
+      {
+        id: 'standard',
+        draft: true,
+        priceSar: 350,
+        revisions: 4,
+        deliveryDays: 5,
+        features: {
+          en: ['Post Templates', 'Story Templates', 'Profile Covers'],
+          ar: ['قوالب المنشورات', 'قوالب القصص', 'أغلفة الحسابات'],
+        },
+        recommended: true,
+      },
+      {
+        id: 'premium',
+        draft: true,
+        priceSar: 600,
+        revisions: 'unlimited',
+        deliveryDays: 7,
+        features: {
+          en: ['Post Templates', 'Story Templates', 'Profile Covers', 'Animated Graphics', 'Content Calendar'],
+          ar: ['قوالب المنشورات', 'قوالب القصص', 'أغلفة الحسابات', 'رسوم متحركة', 'تقويم المحتوى'],
+        },
+      },
+    ],
+  },
+];
+
+/**
+ * Services list as published: draft tiers are left out
+ */
+export const services: Service[] = catalog.map((service) => ({
+  ...service,
+  tiers: service.tiers.filter((tier) => !tier.draft),
+}));
+
+/**
+ * Services list including draft tiers, for the package preview
+ */
+export const previewServices: Service[] = catalog;
+
+/**
+ * True while any tier still waits for sign-off (the Services page then offers the preview switch)
+ */
+export const hasDraftTiers = catalog.some((service) => service.tiers.some((tier) => tier.draft));
+
+/**
+ * True when a service offers more than one package (comparison table and tier pickers)
+ */
+export function hasPackages(service: Service): boolean {
+  return service.tiers.length > 1;
+}
+
+/**
+ * Localized revision count, e.g. "4 rounds" / "4 جولات" (services namespace plurals)
+ */
+export function formatRevisions(tier: ServiceTier, t: TFunction<'services'>): string {
+  return tier.revisions === 'unlimited' ? t('revisionsUnlimited') : t('revisions', { count: tier.revisions });
+}
+
+/**
+ * Localized delivery time, e.g. "7 working days" / "7 أيام عمل"
+ */
+export function formatDelivery(tier: ServiceTier, t: TFunction<'services'>): string {
+  return t('deliveryDays', { count: tier.deliveryDays });
+}
+
+/**
+ * Lowest tier price of a service, in SAR ("Starting at")
+ */
+export function startingPrice(service: Service): number {
+  return Math.min(...service.tiers.map((tier) => tier.priceSar));
+}
+
+/** Helper to find a service by id */
+export const getServiceById = (id: string) => services.find((s) => s.id === id);
+
+/**
+ * Process step definition for the infographic
+ */
+export interface ProcessStep {
+  /** Step index label like "01" */
+  step: string;
+  /** Localized title */
+  title: { en: string; ar: string };
+  /** Localized description */
+  description: { en: string; ar: string };
+  /** Icon component to represent the step */
+  icon: React.ElementType<React.SVGProps<SVGSVGElement>>;
+}
+
+/**
+ * Design process steps shown as an infographic on the Services page
+ */
+export const processSteps: ProcessStep[] = [
+  {
+    step: '01',
+    title: { en: 'Consultation', ar: 'الاستشارة' },
+    description: {
+      en: 'We discuss your project requirements, goals, and vision in detail.',
+      ar: 'نناقش متطلبات مشروعك وأهدافك ورؤيتك بالتفصيل.',
+    },
+    icon: MessageSquare,
+  },
+  {
+    step: '02',
+    title: { en: 'Concept Development', ar: 'تطوير المفهوم' },
+    description: {
+      en: 'I create initial concepts and present multiple design directions.',
+      ar: 'أنشئ المفاهيم الأولية وأقدم اتجاهات تصميم متعددة.',
+    },
+    icon: Lightbulb,
+  },
+  {
+    step: '03',
+    title: { en: 'Design & Refinement', ar: 'التصميم والتحسين' },
+    description: {
+      en: 'Based on your feedback, I refine the chosen concept to perfection.',
+      ar: 'بناءً على ملاحظاتك، أقوم بتحسين المفهوم المختار إلى الكمال.',
+    },
+    icon: PenTool,
+  },
+  {
+    step: '04',
+    title: { en: 'Final Delivery', ar: 'التسليم النهائي' },
+    description: {
+      en: 'You receive all final files in various formats ready for use.',
+      ar: 'تتلقى جميع الملفات النهائية بتنسيقات مختلفة جاهزة للاستخدام.',
+    },
+    icon: FileCheck,
+  },
+];
@@ -0,0 +1,104 @@
+/**
+ * Server entry used by the production build to prerender every route into static HTML
+ * Renders the same App tree as main.tsx behind a StaticRouter and collects Helmet output.
+ */
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router';
+import { HelmetProvider, type HelmetServerState } from 'react-helmet-async';
+import App from './App';
+import { projects } from './data/projects';
+import { PROFILE } from './data/profile';
+import { i18n } from './i18n';
+import { I18N_OPTIONS, NAMESPACES } from './i18n/config';
+import { resources } from './i18n/resources';
+import { LANGUAGES, SITE_URL, localizePath, shareImagePath } from './utils/routes';
+
+/** Text of a generated share image */
+export interface ShareCard {
+  /** Site-relative output path, e.g. /og/ar/portfolio-3.png */
+  file: string;
+  title: string;
+  /** Project category, or the designer's title on static pages */
+  category: string;
+}
+
+/** Result of rendering one route */
+export interface RenderResult {
+  /** Markup to place inside #app */
+  html: string;
+  /** Serialized Helmet tags for <head> */
+  head: string;
+  /** Attributes for the <html> element */
+  htmlAttributes: string;
+  /** Share image to generate; null for pages without SEO tags (e.g. noindex tools) */
+  card: ShareCard | null;
+}
+
+/** Languages every route is prerendered in */
+export const languages = LANGUAGES;
+
+/** Production origin for sitemap.xml and robots.txt */
+export const siteUrl = SITE_URL;
+
+/** Logo drawn on the share images */
+export const shareLogo = PROFILE.logo;
+
+// Every namespace is bundled, so initialization is synchronous and no component suspends while rendering
+i18n.init({ ...I18N_OPTIONS, resources, ns: NAMESPACES, initAsync: false });
+
+/**
+ * All routes to prerender (without the /en or /ar prefix)
+ * Static pages plus one details page per project.
+ */
+export const routes: string[] = [
+  '/',
+  '/portfolio',
+  '/about',
+  '/services',
+  '/contact',
+  '/brief',
+  '/quote',
+  '/invoice',
+  ...projects.map((p) => `/portfolio/${p.id}`),
+];
+
+/**
+ * Render a single route in the given language.
+ */
+export function render(route: string, language: 'en' | 'ar'): RenderResult {
+  const helmetContext: { helmet?: HelmetServerState } = {};
+
+  const html = renderToString(
+    <HelmetProvider context={helmetContext}>
+      <StaticRouter location={localizePath(route, language)}>
+        <App />
+      </StaticRouter>
+    </HelmetProvider>
+  );
+
+  const { helmet } = helmetContext;
+  const head = helmet
+    ? [helmet.title, helmet.priority, helmet.meta, helmet.link, helmet.script].map((tag) => tag.toString()).join('')
+    : '';
+
+  // The card repeats the page's og:title (set by the SEO component)
+  const ogTitle = helmet
+    ? [...helmet.priority.toComponent(), ...helmet.meta.toComponent()]
+        .map((tag) => tag.props as { property?: string; content?: string })
+        .find((props) => props.property === 'og:title')?.content
+    : undefined;
+  const project = projects.find((p) => route === `/portfolio/${p.id}`);
+
+  return {
+    html,
+    head,
+    htmlAttributes: `lang="${language}" dir="${language === 'ar' ? 'rtl' : 'ltr'}"`,
+    card: ogTitle
+      ? {
+          file: shareImagePath(route, language),
+          title: ogTitle,
+          category: project ? i18n.t(`category.${project.category}`, { lng: language }) : i18n.t('subtitle', { lng: language }),
+        }
+      : null,
+  };
+}
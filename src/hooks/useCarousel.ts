@@ -0,0 +1,52 @@
+/**
+ * useCarousel hook
+ * Embla carousel following the page direction (RTL in Arabic), with the selected slide index
+ * and lazy-loading state: a slide counts as loaded once it or a neighbour has been in view.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import useEmblaCarousel from 'embla-carousel-react';
+import { useTheme } from '../contexts/ThemeContext';
+
+type CarouselOptions = NonNullable<Parameters<typeof useEmblaCarousel>[0]>;
+
+export function useCarousel(options: CarouselOptions = {}) {
+  const { language } = useTheme();
+  const [emblaRef, embla] = useEmblaCarousel({ ...options, direction: language === 'ar' ? 'rtl' : 'ltr' });
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // The first slide is part of the prerendered page; the rest mount as they approach the viewport
+  const [loaded, setLoaded] = useState<ReadonlySet<number>>(() => new Set([0]));
+
+  useEffect(() => {
+    if (!embla) return;
+
+    const onSelect = () => setSelectedIndex(embla.selectedScrollSnap());
+    const onSlidesInView = () => {
+      const count = embla.slideNodes().length;
+      setLoaded((prev) => {
+        const next = new Set(prev);
+        // Neighbours too, so a swipe never reveals an empty slide
+        embla.slidesInView().forEach((i) => {
+          next.add(i);
+          next.add((i + 1) % count);
+          next.add((i - 1 + count) % count);
+        });
+        return next.size === prev.size ? prev : next;
+      });
+    };
+
+    onSelect();
+    onSlidesInView();
+    embla.on('select', onSelect).on('reInit', onSelect).on('slidesInView', onSlidesInView);
+    return () => {
+      embla.off('select', onSelect).off('reInit', onSelect).off('slidesInView', onSlidesInView);
+    };
+  }, [embla]);
+
+  /** Carousel controls */
+  const scrollPrev = useCallback(() => embla?.scrollPrev(), [embla]);
+  const scrollNext = useCallback(() => embla?.scrollNext(), [embla]);
+  const scrollTo = useCallback((i: number, jump?: boolean) => embla?.scrollTo(i, jump), [embla]);
+  const isLoaded = useCallback((i: number) => loaded.has(i), [loaded]);
+
+  return { emblaRef, embla, selectedIndex, isLoaded, scrollPrev, scrollNext, scrollTo };
+}
@@ -0,0 +1,19 @@
+/**
+ * useClientSearchParams hook
+ * useSearchParams for pages whose content depends on the query string.
+ * Pages are prerendered without a query, so the params read as empty until mount:
+ * hydration then matches the prerendered markup and the real query is applied right after.
+ */
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router';
+
+const EMPTY_PARAMS = new URLSearchParams();
+
+export function useClientSearchParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => setMounted(true), []);
+
+  return [mounted ? searchParams : EMPTY_PARAMS, setSearchParams] as const;
+}
@@ -0,0 +1,20 @@
+/**
+ * useReducedMotion hook
+ * True when the visitor asked the OS for reduced motion (prefers-reduced-motion: reduce).
+ * Starts false so prerendered markup matches the first client render.
+ */
+import { useEffect, useState } from 'react';
+
+export function useReducedMotion() {
+  const [reduced, setReduced] = useState(false);
+
+  useEffect(() => {
+    const mql = window.matchMedia('(prefers-reduced-motion: reduce)');
+    const onChange = () => setReduced(mql.matches);
+    onChange();
+    mql.addEventListener('change', onChange);
+    return () => mql.removeEventListener('change', onChange);
+  }, []);
+
+  return reduced;
+}
@@ -0,0 +1,22 @@
+/**
+ * i18next backend for the browser
+ * Fetches one namespace at a time from the JSON files the build writes (dist/locales/ar/portfolio.json),
+ * so a page only downloads the strings it uses.
+ */
+import type { BackendModule } from 'i18next';
+
+export const localeBackend: BackendModule = {
+  type: 'backend',
+  init() {},
+  read(language, namespace, callback) {
+    fetch(`/locales/${language}/${namespace}.json`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Failed to load ${language}/${namespace} (${res.status})`);
+        return res.json();
+      })
+      .then(
+        (data) => callback(null, data),
+        (error: Error) => callback(error, false)
+      );
+  },
+};
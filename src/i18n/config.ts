@@ -0,0 +1,48 @@
+/**
+ * i18next configuration shared by the browser entry and the prerenderer
+ * UI strings are split into one namespace per page (plus `common` for the layout and shared widgets);
+ * each lives in src/i18n/locales/<language>/<namespace>.ts. English is the reference language:
+ * its files define the keys, and the typed `t` (see i18next.d.ts) rejects any key they don't have.
+ */
+import type { InitOptions } from 'i18next';
+import { LANGUAGES } from '../utils/routes';
+
+/** Every namespace, in no particular order */
+export const NAMESPACES = [
+  'common',
+  'forms',
+  'home',
+  'portfolio',
+  'project',
+  'about',
+  'services',
+  'contact',
+  'brief',
+  'quote',
+  'invoice',
+] as const;
+
+export type Namespace = (typeof NAMESPACES)[number];
+
+/** Plural suffixes of the CLDR categories (Arabic uses all six; English only one/other) */
+type PluralSuffix = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/**
+ * Shape of a translated namespace: every key of the English file, plus any extra plural forms
+ * (`count_two`, `count_few`…) the language needs.
+ */
+export type Messages<T> = {
+  [K in keyof T]: T[K] extends string ? string : Messages<T[K]>;
+} & { [key: `${string}_${PluralSuffix}`]: string };
+
+/** Options common to both entries (resources or a backend are added by each) */
+export const I18N_OPTIONS: InitOptions = {
+  supportedLngs: LANGUAGES,
+  fallbackLng: 'en',
+  ns: ['common'],
+  defaultNS: 'common',
+  // React escapes rendered text already
+  interpolation: { escapeValue: false },
+  // No console banner in the browser or the build output
+  showSupportNotice: false,
+};
@@ -0,0 +1,13 @@
+/**
+ * Typed translation keys: `t` only accepts keys of the English namespaces
+ * (plural keys are used without their suffix, e.g. t('pageCount', { count })).
+ */
+import 'i18next';
+import type { resources } from './resources';
+
+declare module 'i18next' {
+  interface CustomTypeOptions {
+    defaultNS: 'common';
+    resources: (typeof resources)['en'];
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Application i18next instance and translation hook
+ * The instance is initialized by the entry point: main.tsx loads namespaces on demand from
+ * /locales/<language>/<namespace>.json, entry-server.tsx bundles them all for prerendering.
+ */
+import i18next from 'i18next';
+import { initReactI18next, useTranslation as useI18nextTranslation } from 'react-i18next';
+import { useTheme } from '../contexts/ThemeContext';
+import type { Language } from '../utils/routes';
+import type { Namespace } from './config';
+
+export const i18n = i18next.createInstance();
+i18n.use(initReactI18next);
+
+/**
+ * Translation function for one namespace in the page language (or `lng`, for bilingual documents).
+ * The language comes from the URL (via ThemeContext) rather than i18next's own state, so both
+ * languages can be rendered from the same instance. Suspends until the namespace has loaded.
+ */
+export function useTranslation<N extends Namespace>(ns: N, lng?: Language) {
+  const { language } = useTheme();
+  return useI18nextTranslation(ns, { i18n, lng: lng ?? language });
+}
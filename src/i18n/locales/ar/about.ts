@@ -0,0 +1,37 @@
+/**
+ * About page strings (Arabic)
+ */
+import type { Messages } from '../../config';
+import type en from '../en/about';
+
+const about: Messages<typeof en> = {
+  title: 'نبذة عني',
+  description:
+    'مصمم علامات تجارية وشعارات مبدع وذو خبرة تزيد عن 9 سنوات في تطوير الهويات البصرية المؤثرة. ماهر في إدارة فرق التصميم وتعزيز التعاون وضمان التنفيذ الناجح للمشاريع الإبداعية.',
+  subtitle: 'مصمم شغوف بخبرة تزيد عن 9 سنوات في إنشاء حلول بصرية مؤثرة',
+  photoAlt: 'عماد الدين إسماعيل',
+
+  // Personal information
+  personalInfo: 'المعلومات الشخصية',
+  nationality: 'الجنسية اليمنية',
+  yearsExperience: '9+ سنوات خبرة',
+  languages: 'اللغات',
+
+  // Bio, experience and skills
+  bio:
+    'مصمم علامات تجارية وشعارات مبدع وذو خبرة تزيد عن 9 سنوات في تطوير الهويات البصرية المؤثرة. ماهر في إدارة فرق التصميم وتعزيز التعاون وضمان التنفيذ الناجح للمشاريع الإبداعية. متمكن من تقديم تصاميم شعارات احترافية وإرشادات العلامة التجارية ومواد تسويقية متماسكة. قادر على تولي أدوار على مستوى أول كمصمم جرافيك أول لقيادة المشاريع وتوجيه المصممين المبتدئين. شغوف بالابتكار في التصميم وتحقيق التميز في كل مشروع.',
+  experience: 'الخبرة',
+  skills: 'المهارات',
+  skillNames: {
+    adobe: 'حزمة أدوبي',
+    vector: 'فيكتور والشعارات',
+    modeling: 'نمذجة ثلاثية الأبعاد',
+    uiux: 'تصميم واجهات المستخدم',
+    typography: 'الخطوط وهوية العلامة',
+    print: 'التصميم الطباعي',
+    mobile: 'واجهات تطبيقات',
+    branding: 'أنظمة العلامات',
+  },
+};
+
+export default about;
@@ -0,0 +1,103 @@
+/**
+ * Project brief wizard strings (Arabic)
+ * `summary` holds the labels of the plain-text summary built by lib/brief.ts.
+ */
+import type { Messages } from '../../config';
+import type en from '../en/brief';
+
+const brief: Messages<typeof en> = {
+  title: 'ملخص المشروع',
+  subtitle: 'خطوات سريعة لأفهم مشروعك وأرد عليك بعرض دقيق.',
+  steps: {
+    service: 'الخدمة',
+    business: 'النشاط',
+    style: 'الأسلوب',
+    budget: 'الميزانية والموعد',
+    files: 'الملفات',
+    summary: 'الملخص',
+  },
+
+  // Business
+  name: 'اسمك',
+  businessName: 'اسم النشاط التجاري',
+  email: 'البريد الإلكتروني',
+  phone: 'الهاتف',
+  industry: 'المجال',
+  industryPlaceholder: 'مثل: طبي، مطاعم، مجوهرات',
+  about: 'نبذة عن نشاطك وجمهورك',
+
+  // Style
+  styles: 'الأسلوب المفضل',
+  colors: 'تفضيلات الألوان',
+  colorsPlaceholder: 'مثل: أخضر داكن وذهبي، بدون أحمر',
+  references: 'مشاريع أعجبتك (اختياري)',
+
+  // Budget & deadline
+  budget: 'الميزانية',
+  deadline: 'الموعد النهائي',
+  noDeadline: 'لا يوجد موعد محدد',
+
+  // Files
+  fileLinks: 'روابط الملفات (الشعار الحالي، دليل الهوية، أمثلة ملهمة — Google Drive أو Dropbox…)',
+  removeLink: 'حذف الرابط',
+  addLink: 'إضافة رابط',
+  notes: 'ملاحظات أخرى؟',
+
+  // Summary
+  send: 'إرسال الملخص',
+  sent: 'تم إرسال الملخص',
+  copy: 'نسخ',
+  whatsapp: 'واتساب',
+  status: {
+    sending: 'جارٍ إرسال الملخص…',
+    sent: 'تم إرسال الملخص. سأعاود التواصل معك قريبًا!',
+    sendFailed: 'تعذر إرسال الملخص. يمكنك نسخه أو إرساله عبر واتساب.',
+    copied: 'تم نسخ الملخص.',
+    copyFailed: 'تعذر النسخ. حدد النص وانسخه يدويًا.',
+    tooLong_one: 'الملخص أطول من الحد المسموح للإرسال بحرف واحد. اختصر الوصف أو الملاحظات، أو انسخه أو أرسله عبر واتساب.',
+    tooLong_two: 'الملخص أطول من الحد المسموح للإرسال بحرفين. اختصر الوصف أو الملاحظات، أو انسخه أو أرسله عبر واتساب.',
+    tooLong_few: 'الملخص أطول من الحد المسموح للإرسال بـ {{count}} أحرف. اختصر الوصف أو الملاحظات، أو انسخه أو أرسله عبر واتساب.',
+    tooLong_many: 'الملخص أطول من الحد المسموح للإرسال بـ {{count}} حرفًا. اختصر الوصف أو الملاحظات، أو انسخه أو أرسله عبر واتساب.',
+    tooLong_other: 'الملخص أطول من الحد المسموح للإرسال بـ {{count}} حرف. اختصر الوصف أو الملاحظات، أو انسخه أو أرسله عبر واتساب.',
+  },
+
+  // Style keywords
+  style: {
+    minimal: 'بسيط',
+    modern: 'عصري',
+    luxury: 'فاخر',
+    classic: 'كلاسيكي',
+    playful: 'مرح',
+    bold: 'جريء',
+    calligraphic: 'خط عربي',
+  },
+  budgetUnder: 'أقل من {{amount}}',
+
+  // Plain-text summary (copied, sent on WhatsApp or through the contact form)
+  summary: {
+    heading: 'ملخص المشروع',
+    service: 'الخدمة',
+    contact: 'التواصل',
+    business: 'النشاط التجاري',
+    industry: 'المجال',
+    about: 'نبذة عن النشاط',
+    styles: 'الأسلوب',
+    colors: 'تفضيلات الألوان',
+    references: 'مشاريع مرجعية',
+    budget: 'الميزانية',
+    deadline: 'الموعد النهائي',
+    flexible: 'مرن',
+    files: 'الملفات',
+    notes: 'ملاحظات',
+  },
+  inquirySubject: 'ملخص مشروع: {{service}} – {{business}}',
+  // Used when the business name makes the subject too long (the name is in the message anyway)
+  inquirySubjectShort: 'ملخص مشروع: {{service}}',
+
+  // Navigation
+  back: 'السابق',
+  next: 'التالي',
+  review: 'مراجعة الملخص',
+};
+
+export default brief;
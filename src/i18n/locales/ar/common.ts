@@ -0,0 +1,124 @@
+/**
+ * Shared strings (Arabic): layout, navigation, search and the widgets used on several pages
+ */
+import type { Messages } from '../../config';
+import type en from '../en/common';
+
+const common: Messages<typeof en> = {
+  // Navigation
+  home: 'الرئيسية',
+  portfolio: 'المعرض',
+  about: 'نبذة عني',
+  services: 'الخدمات',
+  contact: 'التواصل',
+
+  // Header
+  title: 'م.عماد الدين',
+  subtitle: 'مصمم جرافيك أول',
+  logoAlt: 'شعار عماد الدين',
+  switchLanguage: 'EN',
+  toggleMenu: 'فتح القائمة',
+  backToTop: 'العودة إلى الأعلى',
+
+  // Footer
+  footerAbout: 'مصمم جرافيك مبدع بخبرة تزيد عن 9 سنوات في تطوير العلامات التجارية والهوية البصرية.',
+  location: 'المدينة المنورة، السعودية',
+  followMe: 'تابعني',
+  allRightsReserved: 'جميع الحقوق محفوظة',
+
+  search: {
+    label: 'بحث',
+    placeholder: 'ابحث في المشاريع والخدمات وآراء العملاء…',
+    noResults: 'لا توجد نتائج',
+    hint: 'اكتب للبحث بالعربية أو الإنجليزية',
+    groups: {
+      project: 'المشاريع',
+      service: 'الخدمات',
+      testimonial: 'آراء العملاء',
+    },
+  },
+
+  currency: {
+    label: 'العملة: {{code}}',
+    showPricesIn: 'عرض الأسعار بـ',
+    sarCode: 'ر.س',
+    // Names in the currency switcher
+    names: {
+      SAR: 'ريال سعودي',
+      USD: 'دولار أمريكي',
+      AED: 'درهم إماراتي',
+      EUR: 'يورو',
+      EGP: 'جنيه مصري',
+    },
+  },
+
+  // Service package tiers (Services page, quote builder, quotations and invoices)
+  tier: {
+    basic: 'أساسي',
+    standard: 'قياسي',
+    premium: 'مميز',
+  },
+
+  whatsapp: {
+    name: 'م. عماد الدين',
+    jobTitle: 'مصمم جرافيك أول',
+    online: 'متصل الآن',
+    open: 'فتح دردشة واتساب',
+    expand: 'عرض المحادثة',
+    collapse: 'طي المحادثة',
+    tapToChat: 'انقر للدردشة عبر واتساب',
+    typeMessage: 'اكتب رسالة...',
+    chat: 'الدردشة على واتساب',
+    prefill: 'مرحباً! أود التحدث حول مشروع تصميم جديد.',
+    sample: {
+      greeting: 'مرحباً! 👋 أنا عماد. كيف يمكنني مساعدتك اليوم؟',
+      request: 'مرحباً! أرغب في مناقشة مشروع علامة تجارية جديد.',
+      reply: 'رائع! شاركني موجزاً، والمدة الزمنية، وأي مراجع لديك.',
+    },
+  },
+
+  // Project categories
+  category: {
+    logos: 'الشعارات',
+    branding: 'العلامة التجارية',
+    print: 'التصميم الطباعي',
+    uiux: 'واجهات المستخدم',
+  },
+
+  // Project cards, carousels and the lightbox
+  viewProject: 'عرض المشروع',
+  previous: 'السابق',
+  next: 'التالي',
+  slide: 'الشريحة {{number}}',
+  openMedia: 'فتح {{type}} {{number}}',
+  showMedia: 'عرض {{type}} {{number}}',
+  mediaType: {
+    image: 'الصورة',
+    video: 'الفيديو',
+    pdf: 'مستند PDF',
+    animation: 'الرسوم المتحركة',
+  },
+  pageCount_zero: 'لا توجد صفحات',
+  pageCount_one: 'صفحة واحدة',
+  pageCount_two: 'صفحتان',
+  pageCount_few: '{{count}} صفحات',
+  pageCount_many: '{{count}} صفحة',
+  pageCount_other: '{{count}} صفحة',
+  pdfBadge: 'PDF · {{pages}}',
+  credit: 'المصدر: {{credit}}',
+  lightbox: {
+    zoomIn: 'تكبير',
+    zoomOut: 'تصغير',
+    close: 'إغلاق',
+    previousItem: 'العنصر السابق',
+    nextItem: 'العنصر التالي',
+    instructions: 'استخدم مفاتيح الأسهم أو السحب للتنقل، والتمرير أو القرص للتكبير.',
+    pageAlt: '{{alt}} — صفحة {{page}}',
+    pageOf: 'صفحة {{page}} من {{total}}',
+    previousPage: 'الصفحة السابقة',
+    nextPage: 'الصفحة التالية',
+    downloadPdf: 'تحميل PDF ({{pages}})',
+  },
+};
+
+export default common;
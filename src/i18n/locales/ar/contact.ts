@@ -0,0 +1,67 @@
+/**
+ * Contact page strings (Arabic)
+ */
+import type { Messages } from '../../config';
+import type en from '../en/contact';
+
+const contact: Messages<typeof en> = {
+  title: 'تواصل معي',
+  subtitle: 'لنناقش مشروعك القادم',
+
+  // Form
+  formTitle: 'أرسل لي رسالة',
+  briefPrompt: 'تبدأ مشروعًا جديدًا؟ ',
+  briefLink: 'املأ ملخص المشروع الموجّه',
+  name: 'الاسم',
+  namePlaceholder: 'اسمك',
+  email: 'البريد الإلكتروني',
+  phone: 'الهاتف',
+  subject: 'الموضوع',
+  subjectPlaceholder: 'استفسار عن مشروع',
+  message: 'الرسالة',
+  messagePlaceholder: 'أخبرني عن مشروعك والجدول الزمني والميزانية...',
+  sendMessage: 'إرسال الرسالة',
+  status: {
+    sending: 'جارٍ إرسال رسالتك…',
+    sent: 'تم إرسال رسالتك. سأعاود التواصل معك قريبًا!',
+    fixFields: 'يرجى تصحيح الحقول المحددة.',
+    invalid: 'يرجى مراجعة حقول النموذج والمحاولة مرة أخرى.',
+    network: 'تعذر الاتصال بالخادم. تحقق من اتصالك أو راسلني مباشرة عبر البريد.',
+    server: 'حدث خطأ أثناء الإرسال. حاول مرة أخرى أو راسلني مباشرة عبر البريد.',
+  },
+
+  // Contact details
+  info: {
+    email: 'البريد الإلكتروني',
+    phone: 'الهاتف',
+    location: 'الموقع',
+    whatsapp: 'واتساب',
+    quickChat: 'محادثة سريعة',
+  },
+  responseTime: '⚡ يرد عادة خلال ساعتين',
+  whatsapp: 'واتساب',
+  callNow: 'اتصل الآن',
+
+  // FAQ
+  faqTitle: 'الأسئلة الشائعة',
+  faq: {
+    turnaround: {
+      question: 'ما هو الوقت المعتاد للتسليم؟',
+      answer: 'تصميم الشعار: 3-5 أيام، الهوية التجارية: 1-2 أسبوع، المشاريع المعقدة: 2-4 أسابيع. طلبات عاجلة متاحة.',
+    },
+    revisions: {
+      question: 'هل تقدم تعديلات؟',
+      answer: 'نعم! أقدم تعديلات غير محدودة حتى تكون راضياً بنسبة 100% عن التصميم النهائي.',
+    },
+    formats: {
+      question: 'ما هي تنسيقات الملفات التي تقدمها؟',
+      answer: 'جميع المشاريع تشمل ملفات فيكتور (AI, EPS)، ملفات عالية الدقة (PNG, JPG)، وإصدارات محسنة للويب.',
+    },
+    communication: {
+      question: 'كيف نتواصل أثناء المشروع؟',
+      answer: 'التواصل الأساسي عبر واتساب والبريد الإلكتروني. تحديثات منتظمة ومشاركة التقدم خلال المشروع.',
+    },
+  },
+};
+
+export default contact;
@@ -0,0 +1,22 @@
+/**
+ * Form validation messages (Arabic)
+ * The keys are the messages of the zod schemas in lib/inquiry.ts and lib/brief.ts, shown by FieldError.
+ */
+import type { Messages } from '../../config';
+import type en from '../en/forms';
+
+const forms: Messages<typeof en> = {
+  validationRequired: 'هذا الحقل مطلوب',
+  validationEmail: 'أدخل بريدًا إلكترونيًا صحيحًا، مثل name@example.com',
+  validationPhone: 'أدخل رقم هاتف صحيحًا (من 7 إلى 15 رقمًا مع رمز الدولة اختياريًا)',
+  validationTooLong_zero: 'النص طويل',
+  validationTooLong_one: 'النص طويل: حرف واحد كحد أقصى',
+  validationTooLong_two: 'النص طويل: حرفان كحد أقصى',
+  validationTooLong_few: 'النص طويل: {{count}} أحرف كحد أقصى',
+  validationTooLong_many: 'النص طويل: {{count}} حرفًا كحد أقصى',
+  validationTooLong_other: 'النص طويل: {{count}} حرف كحد أقصى',
+  validationUrl: 'أدخل رابطًا كاملًا يبدأ بـ https://',
+  validationChooseService: 'اختر خدمة للمتابعة',
+};
+
+export default forms;
@@ -0,0 +1,36 @@
+/**
+ * Home page strings (Arabic)
+ */
+import type { Messages } from '../../config';
+import type en from '../en/home';
+
+const home: Messages<typeof en> = {
+  // Hero
+  heroTitle: 'حلول تصميم إبداعية',
+  heroSubtitle: 'تحويل الأفكار إلى تجارب بصرية مؤثرة بخبرة تزيد عن 9 سنوات',
+  seeMyWork: 'شاهد أعمالي',
+  hireMe: 'وظفني',
+  brandLogoAlt: 'شعار العلامة',
+  profileAlt: 'الصورة الشخصية',
+  stats: {
+    years: 'سنوات خبرة',
+    clients: 'عميل سعيد',
+    projects: 'مشروع مكتمل',
+  },
+
+  // Latest work
+  latestWorkTitle: 'آخر الأعمال',
+  latestWorkSubtitle: 'عرض لأحدث مشاريعي الإبداعية وحلول التصميم',
+  viewAllProjects: 'عرض جميع المشاريع',
+
+  // Testimonials
+  testimonialsTitle: 'ماذا يقول عملاؤنا',
+  testimonialsSubtitle: 'آراء حقيقية مرتبطة بكل مشروع — تُعرض كبطاقات منبثقة جذابة.',
+
+  // Call to action
+  ctaTitle: 'جاهز لبدء مشروعك؟',
+  ctaText: 'دعنا نعمل معاً لإنشاء شيء مذهل. تواصل معي اليوم لمناقشة احتياجات التصميم الخاصة بك.',
+  whatsapp: 'واتساب',
+};
+
+export default home;
@@ -0,0 +1,65 @@
+/**
+ * Invoice / quotation generator strings (Arabic)
+ * `document` holds the printed labels, which InvoiceDocument shows in both languages.
+ */
+import type { Messages } from '../../config';
+import type en from '../en/invoice';
+
+const invoice: Messages<typeof en> = {
+  backToServices: 'العودة إلى الخدمات',
+  print: 'طباعة / حفظ PDF',
+
+  // Editor
+  documentTitle: 'المستند',
+  documentType: 'نوع المستند',
+  // Document titles (also printed, in both languages)
+  kind: {
+    quotation: 'عرض سعر',
+    invoice: 'فاتورة ضريبية',
+  },
+  number: 'الرقم',
+  issueDate: 'تاريخ الإصدار',
+  dueDate: 'تاريخ الاستحقاق',
+  validUntil: 'صالح حتى',
+  clientTitle: 'العميل',
+  client: {
+    name: 'اسم العميل',
+    company: 'الشركة',
+    vatNumber: 'الرقم الضريبي',
+    address: 'العنوان',
+    email: 'البريد الإلكتروني',
+    phone: 'الهاتف',
+  },
+  items: 'البنود',
+  servicePackage: 'باقة {{service}}',
+  serviceQuantity: 'كمية {{service}}',
+  addOns: 'الإضافات',
+  chargeVat: 'احتساب الضريبة (15٪)',
+  taxInvoiceUnavailable: 'الفواتير الضريبية معطّلة لعدم تعيين الرقم الضريبي للبائع. أدخل SELLER_VAT_NUMBER في إعدادات الفاتورة لتفعيلها.',
+  vatRequired: 'تُحتسب دائمًا في الفاتورة الضريبية',
+  notesTitle: 'ملاحظات وشروط',
+  notesPlaceholder: 'مثال: 50٪ مقدمًا والباقي عند التسليم.',
+
+  // Printed document
+  document: {
+    number: 'الرقم',
+    issueDate: 'تاريخ الإصدار',
+    dueDate: 'تاريخ الاستحقاق',
+    validUntil: 'صالح حتى',
+    billTo: 'إلى',
+    vatNumber: 'الرقم الضريبي',
+    item: 'الوصف',
+    unitPrice: 'سعر الوحدة',
+    qty: 'الكمية',
+    vat: 'الضريبة',
+    amount: 'المبلغ',
+    subtotal: 'المجموع غير شامل الضريبة',
+    vatTotal: 'ضريبة القيمة المضافة 15٪',
+    total: 'الإجمالي شامل الضريبة',
+    totalNoVat: 'الإجمالي',
+    notes: 'ملاحظات',
+    currencyNote: 'جميع المبالغ بالريال السعودي.',
+  },
+};
+
+export default invoice;
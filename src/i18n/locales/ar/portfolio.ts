@@ -0,0 +1,30 @@
+/**
+ * Portfolio page strings (Arabic)
+ */
+import type { Messages } from '../../config';
+import type en from '../en/portfolio';
+
+const portfolio: Messages<typeof en> = {
+  title: 'معرض أعمالي',
+  subtitle: 'عرض التميز الإبداعي عبر مختلف تخصصات التصميم',
+  allProjects: 'جميع المشاريع',
+  tags: 'الوسوم:',
+  year: 'السنة:',
+  resultCount_zero: 'لا مشاريع من {{total}}',
+  resultCount_one: 'مشروع واحد من {{total}}',
+  resultCount_two: 'مشروعان من {{total}}',
+  resultCount_few: '{{count}} مشاريع من {{total}}',
+  resultCount_many: '{{count}} مشروعًا من {{total}}',
+  resultCount_other: '{{count}} مشروع من {{total}}',
+  clearFilters: 'مسح الفلاتر',
+  sortBy: 'الترتيب',
+  sort: {
+    featured: 'المميزة',
+    newest: 'الأحدث',
+    alphabetical: 'أبجديًا',
+  },
+  noResults: 'لا توجد مشاريع تطابق هذه الفلاتر.',
+  loadMore: 'تحميل المزيد من المشاريع',
+};
+
+export default portfolio;
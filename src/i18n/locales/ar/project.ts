@@ -0,0 +1,26 @@
+/**
+ * Project details page strings (Arabic), including the case study sections
+ */
+import type { Messages } from '../../config';
+import type en from '../en/project';
+
+const project: Messages<typeof en> = {
+  notFound: 'المشروع غير موجود.',
+  backToPortfolio: 'العودة للأعمال',
+
+  // Case study
+  caseStudy: 'دراسة الحالة',
+  client: 'العميل',
+  year: 'السنة',
+  role: 'الدور',
+  deliverables: 'المخرجات',
+  challenge: 'التحدي',
+  approach: 'المنهجية',
+  outcome: 'النتيجة',
+  beforeAfter: 'قبل وبعد',
+  before: 'قبل',
+  after: 'بعد',
+  palette: 'لوحة الألوان',
+};
+
+export default project;
@@ -0,0 +1,60 @@
+/**
+ * Quote strings (Arabic): the quote builder on the Services page, the printable quote and the quote message
+ */
+import type { Messages } from '../../config';
+import type en from '../en/quote';
+
+const quote: Messages<typeof en> = {
+  // Quote builder
+  builderTitle: 'احسب عرض السعر',
+  builderSubtitle: 'اجمع الخدمات والباقات والإضافات لترى تقديرًا فوريًا.',
+  services: 'الخدمات',
+  servicePackage: 'باقة {{service}}',
+  addOns: 'الإضافات',
+  perService: ' / خدمة',
+  addOn: {
+    'extra-concepts': { label: 'مفاهيم إضافية', description: 'اتجاهات تصميم أولية إضافية' },
+    rush: { label: 'تسليم عاجل', description: 'التسليم في نحو نصف المدة المعتادة (+30٪)' },
+    'source-files': { label: 'الملفات المصدرية', description: 'ملفات قابلة للتعديل AI / PSD / Figma' },
+    'print-ready': { label: 'ملفات جاهزة للطباعة', description: 'ألوان CMYK مع هوامش القص وعلامات الطباعة' },
+  },
+  // Quote line of a service at a package tier
+  serviceLine: '{{service}} ({{tier}})',
+  estimate: 'التقدير',
+  emptyEstimate: 'أضف خدمة واحدة على الأقل للبدء.',
+  includeVat: 'شامل ضريبة القيمة المضافة 15٪',
+  printable: 'نسخة للطباعة',
+  whatsapp: 'واتساب',
+  email: 'البريد',
+  estimateNote: 'هذا تقدير مبدئي؛ يُعتمد السعر النهائي بعد استشارة قصيرة.',
+  emailSubject: 'طلب عرض سعر تصميم',
+
+  // Totals
+  subtotal: 'المجموع الفرعي',
+  vat: 'ضريبة القيمة المضافة 15٪',
+  total: 'الإجمالي',
+  exclVat: '(غير شامل الضريبة)',
+  totalSar: 'الإجمالي بالريال',
+
+  // Printable quote
+  title: 'عرض سعر',
+  description: 'تقدير سعر لخدمات التصميم بالريال السعودي شامل الضريبة.',
+  backToServices: 'العودة إلى الخدمات',
+  createInvoice: 'إنشاء عرض سعر / فاتورة',
+  print: 'طباعة / حفظ PDF',
+  empty: 'عرض السعر فارغ. أنشئ عرضًا من صفحة الخدمات.',
+  item: 'البند',
+  unitPrice: 'سعر الوحدة',
+  quantity: 'الكمية',
+  amount: 'المبلغ',
+  conversion: 'المبالغ محوّلة من الريال بسعر 1 {{currency}} = {{rate}} ر.س. الإجمالي المعتمد للفوترة: {{total}}.',
+  validity: 'عرض السعر تقديري وصالح لمدة 30 يومًا. يُعتمد السعر النهائي بعد استشارة قصيرة.',
+
+  // Quote sent by WhatsApp / email
+  message: {
+    intro: 'مرحباً! هذا عرض السعر الذي أعددته على موقعك:',
+    outro: 'هل يمكننا مناقشة التفاصيل؟',
+  },
+};
+
+export default quote;
@@ -0,0 +1,69 @@
+/**
+ * Services page strings (Arabic): service cards, package comparison, process and CTA
+ */
+import type { Messages } from '../../config';
+import type en from '../en/services';
+
+const services: Messages<typeof en> = {
+  title: 'خدماتي',
+  subtitle: 'حلول تصميم احترافية مصممة خصيصاً لاحتياجاتك',
+  mostPopular: 'الأكثر شعبية',
+  relatedWork: 'أعمال ذات صلة',
+  startingAt: 'ابتداءً من',
+  getStarted: 'ابدأ الآن',
+  comparePackages: 'قارن الباقات',
+
+  // Package preview (tiers awaiting sign-off)
+  preview: {
+    label: 'معاينة الباقتين القياسية والمميزة',
+    note: 'أسعارهما ومخرجاتهما مقترحة وبانتظار التأكيد.',
+  },
+
+  // Package comparison
+  comparison: {
+    title: 'قارن الباقات',
+    subtitle: 'كل خدمة متوفرة في ثلاث باقات. اختر ما يناسب مشروعك.',
+    service: 'الخدمة',
+    caption: 'باقات {{service}}',
+    package: 'الباقة',
+    recommended: 'موصى بها',
+    revisions: 'التعديلات',
+    delivery: 'مدة التسليم',
+    included: 'مشمول',
+    notIncluded: 'غير مشمول',
+    choose: 'اختر {{tier}}',
+  },
+  revisions_zero: 'بدون تعديلات',
+  revisions_one: 'جولة واحدة',
+  revisions_two: 'جولتان',
+  revisions_few: '{{count}} جولات',
+  revisions_many: '{{count}} جولة',
+  revisions_other: '{{count}} جولة',
+  revisionsUnlimited: 'غير محدودة',
+  deliveryDays_zero: 'في نفس اليوم',
+  deliveryDays_one: 'يوم عمل واحد',
+  deliveryDays_two: 'يوما عمل',
+  deliveryDays_few: '{{count}} أيام عمل',
+  deliveryDays_many: '{{count}} يوم عمل',
+  deliveryDays_other: '{{count}} يوم عمل',
+
+  processTitle: 'عملية التصميم',
+  processSubtitle: 'عملية مبسطة لضمان تسليم مشروعك في الوقت المحدد وتجاوز التوقعات',
+
+  ctaTitle: 'جاهز للبدء؟',
+  ctaText: 'دعنا نناقش مشروعك وننشئ شيئاً مذهلاً معاً. تواصل معي للحصول على استشارة مجانية.',
+  startBrief: 'ابدأ ملخص المشروع',
+  whatsappChat: 'محادثة واتساب',
+
+  // Prefilled WhatsApp messages (no prices by design)
+  message: {
+    generic: 'مرحباً! أود التحدث حول مشروع تصميم جديد. هل يمكننا بدء المحادثة؟',
+    intro: 'مرحباً! أود الاستفسار عن الخدمة التالية:',
+    service: '• الخدمة: {{service}}',
+    package: '• الباقة: {{tier}} (التعديلات: {{revisions}}، التسليم: {{delivery}})',
+    features: '• المزايا: {{features}}',
+    outro: 'يرجى التواصل معي لمناقشة التفاصيل والمدة الزمنية. شكراً لك.',
+  },
+};
+
+export default services;
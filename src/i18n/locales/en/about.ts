@@ -0,0 +1,32 @@
+/**
+ * About page strings (English)
+ */
+export default {
+  title: 'About Me',
+  description:
+    'Creative and experienced Branding and Logo Designer with over 9 years of expertise in developing impactful visual identities. Skilled in managing design teams, fostering collaboration, and ensuring the successful execution of creative projects.',
+  subtitle: 'Passionate designer with 9+ years of experience creating impactful visual solutions',
+  photoAlt: 'EmadAlddine Ismael',
+
+  // Personal information
+  personalInfo: 'Personal Information',
+  nationality: 'Yemeni Nationality',
+  yearsExperience: '9+ Years Experience',
+  languages: 'Languages',
+
+  // Bio, experience and skills
+  bio:
+    'Creative and experienced Branding and Logo Designer with over 9 years of expertise in developing impactful visual identities. Skilled in managing design teams, fostering collaboration, and ensuring the successful execution of creative projects. Proficient in delivering professional logo designs, brand guidelines, and cohesive marketing materials. Capable of taking on senior-level roles as a Senior Graphic Designer to lead projects and mentor junior designers. Passionate about design innovation and achieving excellence in every project.',
+  experience: 'Experience',
+  skills: 'Skills',
+  skillNames: {
+    adobe: 'Adobe Creative Suite',
+    vector: 'Vector & Logo',
+    modeling: '3D Modeling',
+    uiux: 'UI/UX Design',
+    typography: 'Typography & Branding',
+    print: 'Print Design',
+    mobile: 'Mobile App UI',
+    branding: 'Brand Systems',
+  },
+};
@@ -0,0 +1,95 @@
+/**
+ * Project brief wizard strings (English)
+ * `summary` holds the labels of the plain-text summary built by lib/brief.ts.
+ */
+export default {
+  title: 'Project Brief',
+  subtitle: 'A few quick steps so I can understand your project and reply with a precise proposal.',
+  steps: {
+    service: 'Service',
+    business: 'Business',
+    style: 'Style',
+    budget: 'Budget & deadline',
+    files: 'Files',
+    summary: 'Summary',
+  },
+
+  // Business
+  name: 'Your name',
+  businessName: 'Business name',
+  email: 'Email',
+  phone: 'Phone',
+  industry: 'Industry',
+  industryPlaceholder: 'e.g. Healthcare, Restaurant, Jewelry',
+  about: 'About your business and audience',
+
+  // Style
+  styles: 'Preferred style',
+  colors: 'Color preferences',
+  colorsPlaceholder: 'e.g. Deep green and gold, avoid red',
+  references: 'Projects you like (optional)',
+
+  // Budget & deadline
+  budget: 'Budget',
+  deadline: 'Deadline',
+  noDeadline: 'No fixed deadline',
+
+  // Files
+  fileLinks: 'Links to files (current logo, brand guide, inspiration — Google Drive, Dropbox…)',
+  removeLink: 'Remove link',
+  addLink: 'Add link',
+  notes: 'Anything else?',
+
+  // Summary
+  send: 'Send brief',
+  sent: 'Brief sent',
+  copy: 'Copy',
+  whatsapp: 'WhatsApp',
+  status: {
+    sending: 'Sending your brief…',
+    sent: 'Brief sent. I will get back to you soon!',
+    sendFailed: 'The brief could not be sent. Copy it or send it on WhatsApp instead.',
+    copied: 'Summary copied to clipboard.',
+    copyFailed: 'Copy failed. Select the text and copy it manually.',
+    tooLong_one: 'The brief is {{count}} character too long to send. Shorten the description or notes, or copy it or send it on WhatsApp instead.',
+    tooLong_other: 'The brief is {{count}} characters too long to send. Shorten the description or notes, or copy it or send it on WhatsApp instead.',
+  },
+
+  // Style keywords
+  style: {
+    minimal: 'Minimal',
+    modern: 'Modern',
+    luxury: 'Luxury',
+    classic: 'Classic',
+    playful: 'Playful',
+    bold: 'Bold',
+    calligraphic: 'Arabic calligraphy',
+  },
+  budgetUnder: 'Under {{amount}}',
+
+  // Plain-text summary (copied, sent on WhatsApp or through the contact form)
+  summary: {
+    heading: 'Project brief',
+    service: 'Service',
+    contact: 'Contact',
+    business: 'Business',
+    industry: 'Industry',
+    about: 'About the business',
+    styles: 'Style',
+    colors: 'Color preferences',
+    references: 'Reference projects',
+    budget: 'Budget',
+    deadline: 'Deadline',
+    flexible: 'Flexible',
+    files: 'Files',
+    notes: 'Notes',
+  },
+  inquirySubject: 'Project brief: {{service}} – {{business}}',
+  // Used when the business name makes the subject too long (the name is in the message anyway)
+  inquirySubjectShort: 'Project brief: {{service}}',
+
+  // Navigation
+  back: 'Back',
+  next: 'Next',
+  review: 'Review summary',
+};
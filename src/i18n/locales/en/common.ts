@@ -0,0 +1,116 @@
+/**
+ * Shared strings (English): layout, navigation, search and the widgets used on several pages
+ */
+export default {
+  // Navigation
+  home: 'Home',
+  portfolio: 'Portfolio',
+  about: 'About',
+  services: 'Services',
+  contact: 'Contact',
+
+  // Header
+  title: 'Eng.EmadAlddine',
+  subtitle: 'Senior Graphic Designer',
+  logoAlt: 'EmadAlddine Logo',
+  switchLanguage: 'ع',
+  toggleMenu: 'Toggle menu',
+  backToTop: 'Back to top',
+
+  // Footer
+  footerAbout: 'Creative graphic designer with 9+ years of experience in branding and visual identity development.',
+  location: 'Al-Madina, Saudi Arabia',
+  followMe: 'Follow Me',
+  allRightsReserved: 'All rights reserved',
+
+  search: {
+    label: 'Search',
+    placeholder: 'Search projects, services and testimonials…',
+    noResults: 'No results found',
+    hint: 'Type to search in English or Arabic',
+    groups: {
+      project: 'Projects',
+      service: 'Services',
+      testimonial: 'Testimonials',
+    },
+  },
+
+  currency: {
+    label: 'Currency: {{code}}',
+    showPricesIn: 'Show prices in',
+    // Spelled-out Saudi Riyal code in plain text (the SR symbol is an image)
+    sarCode: 'SAR',
+    // Names in the currency switcher
+    names: {
+      SAR: 'Saudi Riyal',
+      USD: 'US Dollar',
+      AED: 'UAE Dirham',
+      EUR: 'Euro',
+      EGP: 'Egyptian Pound',
+    },
+  },
+
+  // Service package tiers (Services page, quote builder, quotations and invoices)
+  tier: {
+    basic: 'Basic',
+    standard: 'Standard',
+    premium: 'Premium',
+  },
+
+  whatsapp: {
+    name: 'Emad Alddine',
+    jobTitle: 'Senior Graphic Designer',
+    online: 'Online',
+    open: 'Open WhatsApp chat',
+    expand: 'Expand',
+    collapse: 'Collapse',
+    tapToChat: 'Tap to chat on WhatsApp',
+    typeMessage: 'Type a message...',
+    chat: 'Chat on WhatsApp',
+    prefill: "Hello! I'd like to discuss a new design project.",
+    sample: {
+      greeting: "Hi! 👋 I'm Emad. How can I help you today?",
+      request: "Hello! I'd like to discuss a new branding project.",
+      reply: 'Great! Please share a brief, timeline, and any references.',
+    },
+  },
+
+  // Project categories
+  category: {
+    logos: 'Logos',
+    branding: 'Branding',
+    print: 'Print Design',
+    uiux: 'UI/UX',
+  },
+
+  // Project cards, carousels and the lightbox
+  viewProject: 'View Project',
+  previous: 'Previous',
+  next: 'Next',
+  slide: 'Slide {{number}}',
+  openMedia: 'Open {{type}} {{number}}',
+  showMedia: 'Show {{type}} {{number}}',
+  mediaType: {
+    image: 'image',
+    video: 'video',
+    pdf: 'PDF document',
+    animation: 'animation',
+  },
+  pageCount_one: '{{count}} page',
+  pageCount_other: '{{count}} pages',
+  pdfBadge: 'PDF · {{pages}}',
+  credit: 'Credit: {{credit}}',
+  lightbox: {
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    close: 'Close',
+    previousItem: 'Previous item',
+    nextItem: 'Next item',
+    instructions: 'Use the arrow keys or swipe to browse, scroll or pinch to zoom.',
+    pageAlt: '{{alt}} — page {{page}}',
+    pageOf: 'Page {{page}} of {{total}}',
+    previousPage: 'Previous page',
+    nextPage: 'Next page',
+    downloadPdf: 'Download PDF ({{pages}})',
+  },
+};
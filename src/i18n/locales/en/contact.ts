@@ -0,0 +1,62 @@
+/**
+ * Contact page strings (English)
+ */
+export default {
+  title: 'Get In Touch',
+  subtitle: "Let's discuss your next project",
+
+  // Form
+  formTitle: 'Send me a message',
+  briefPrompt: 'Starting a new project? ',
+  briefLink: 'Fill in the guided project brief',
+  name: 'Name',
+  namePlaceholder: 'Your name',
+  email: 'Email',
+  phone: 'Phone',
+  subject: 'Subject',
+  subjectPlaceholder: 'Project inquiry',
+  message: 'Message',
+  messagePlaceholder: 'Tell me about your project, timeline, and budget...',
+  sendMessage: 'Send Message',
+  status: {
+    sending: 'Sending your message…',
+    sent: 'Message sent. I will get back to you soon!',
+    fixFields: 'Please fix the highlighted fields.',
+    invalid: 'Please check the form fields and try again.',
+    network: 'Could not reach the server. Check your connection or email me directly.',
+    server: 'Something went wrong while sending. Please try again or email me directly.',
+  },
+
+  // Contact details
+  info: {
+    email: 'Email',
+    phone: 'Phone',
+    location: 'Location',
+    whatsapp: 'WhatsApp',
+    quickChat: 'Quick Chat',
+  },
+  responseTime: '⚡ Usually responds within 2 hours',
+  whatsapp: 'WhatsApp',
+  callNow: 'Call Now',
+
+  // FAQ
+  faqTitle: 'Frequently Asked Questions',
+  faq: {
+    turnaround: {
+      question: "What's your typical turnaround time?",
+      answer: 'Logo design: 3-5 days, Brand identity: 1-2 weeks, Complex projects: 2-4 weeks. Rush orders available.',
+    },
+    revisions: {
+      question: 'Do you offer revisions?',
+      answer: "Yes! I offer unlimited revisions until you're 100% satisfied with the final design.",
+    },
+    formats: {
+      question: 'What file formats do you provide?',
+      answer: 'All projects include vector files (AI, EPS), high-res raster files (PNG, JPG), and web-optimized versions.',
+    },
+    communication: {
+      question: 'How do we communicate during the project?',
+      answer: 'Primary communication via WhatsApp and email. Regular updates and progress sharing throughout the project.',
+    },
+  },
+};
@@ -0,0 +1,13 @@
+/**
+ * Form validation messages (English)
+ * The keys are the messages of the zod schemas in lib/inquiry.ts and lib/brief.ts, shown by FieldError.
+ */
+export default {
+  validationRequired: 'This field is required',
+  validationEmail: 'Enter a valid email address, e.g. name@example.com',
+  validationPhone: 'Enter a valid phone number (7–15 digits, optional +country code)',
+  validationTooLong_one: 'Too long: {{count}} character at most',
+  validationTooLong_other: 'Too long: {{count}} characters at most',
+  validationUrl: 'Enter a full link starting with https://',
+  validationChooseService: 'Choose a service to continue',
+};
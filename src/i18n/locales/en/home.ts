@@ -0,0 +1,31 @@
+/**
+ * Home page strings (English)
+ */
+export default {
+  // Hero
+  heroTitle: 'Creative Design Solutions',
+  heroSubtitle: 'Transforming ideas into impactful visual experiences with 9+ years of expertise',
+  seeMyWork: 'See My Work',
+  hireMe: 'Hire Me',
+  brandLogoAlt: 'Brand Logo',
+  profileAlt: 'Profile',
+  stats: {
+    years: 'Years Experience',
+    clients: 'Happy Clients',
+    projects: 'Projects Completed',
+  },
+
+  // Latest work
+  latestWorkTitle: 'Latest Work',
+  latestWorkSubtitle: 'A showcase of my recent creative projects and design solutions',
+  viewAllProjects: 'View All Projects',
+
+  // Testimonials
+  testimonialsTitle: 'What Our Customers Say',
+  testimonialsSubtitle: 'Real opinions tied to each project — presented as engaging pop-up cards.',
+
+  // Call to action
+  ctaTitle: 'Ready to Start Your Project?',
+  ctaText: "Let's work together to create something amazing. Contact me today to discuss your design needs.",
+  whatsapp: 'WhatsApp',
+};
@@ -0,0 +1,60 @@
+/**
+ * Invoice / quotation generator strings (English)
+ * `document` holds the printed labels, which InvoiceDocument shows in both languages.
+ */
+export default {
+  backToServices: 'Back to services',
+  print: 'Print / Save as PDF',
+
+  // Editor
+  documentTitle: 'Document',
+  documentType: 'Document type',
+  // Document titles (also printed, in both languages)
+  kind: {
+    quotation: 'Quotation',
+    invoice: 'Tax Invoice',
+  },
+  number: 'Number',
+  issueDate: 'Issue date',
+  dueDate: 'Due date',
+  validUntil: 'Valid until',
+  clientTitle: 'Client',
+  client: {
+    name: 'Client name',
+    company: 'Company',
+    vatNumber: 'VAT number',
+    address: 'Address',
+    email: 'Email',
+    phone: 'Phone',
+  },
+  items: 'Items',
+  servicePackage: '{{service}} package',
+  serviceQuantity: '{{service}} quantity',
+  addOns: 'Add-ons',
+  chargeVat: 'Charge VAT (15%)',
+  taxInvoiceUnavailable: 'Tax invoices are disabled because no seller VAT number is set. Fill in SELLER_VAT_NUMBER in the invoice settings to enable them.',
+  vatRequired: 'Always charged on tax invoices',
+  notesTitle: 'Notes & terms',
+  notesPlaceholder: 'e.g. 50% upfront, balance on delivery.',
+
+  // Printed document
+  document: {
+    number: 'No.',
+    issueDate: 'Issue date',
+    dueDate: 'Due date',
+    validUntil: 'Valid until',
+    billTo: 'Bill to',
+    vatNumber: 'VAT No.',
+    item: 'Description',
+    unitPrice: 'Unit price',
+    qty: 'Qty',
+    vat: 'VAT',
+    amount: 'Amount',
+    subtotal: 'Subtotal (excl. VAT)',
+    vatTotal: 'VAT 15%',
+    total: 'Total (incl. VAT)',
+    totalNoVat: 'Total',
+    notes: 'Notes',
+    currencyNote: 'All amounts in Saudi Riyal (SAR).',
+  },
+};
@@ -0,0 +1,21 @@
+/**
+ * Portfolio page strings (English)
+ */
+export default {
+  title: 'My Portfolio',
+  subtitle: 'Showcasing creative excellence across various design disciplines',
+  allProjects: 'All Projects',
+  tags: 'Tags:',
+  year: 'Year:',
+  resultCount_one: '{{count}} project of {{total}}',
+  resultCount_other: '{{count}} projects of {{total}}',
+  clearFilters: 'Clear filters',
+  sortBy: 'Sort by',
+  sort: {
+    featured: 'Featured',
+    newest: 'Newest',
+    alphabetical: 'A–Z',
+  },
+  noResults: 'No projects match these filters.',
+  loadMore: 'Load More Projects',
+};
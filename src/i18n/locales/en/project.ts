@@ -0,0 +1,21 @@
+/**
+ * Project details page strings (English), including the case study sections
+ */
+export default {
+  notFound: 'Project not found.',
+  backToPortfolio: 'Back to Portfolio',
+
+  // Case study
+  caseStudy: 'Case Study',
+  client: 'Client',
+  year: 'Year',
+  role: 'Role',
+  deliverables: 'Deliverables',
+  challenge: 'The Challenge',
+  approach: 'The Approach',
+  outcome: 'The Outcome',
+  beforeAfter: 'Before & After',
+  before: 'Before',
+  after: 'After',
+  palette: 'Color Palette',
+};
@@ -0,0 +1,55 @@
+/**
+ * Quote strings (English): the quote builder on the Services page, the printable quote and the quote message
+ */
+export default {
+  // Quote builder
+  builderTitle: 'Build Your Quote',
+  builderSubtitle: 'Combine services, packages and extras to see an instant estimate.',
+  services: 'Services',
+  servicePackage: '{{service}} package',
+  addOns: 'Add-ons',
+  perService: ' / service',
+  addOn: {
+    'extra-concepts': { label: 'Extra concepts', description: 'Additional initial design directions' },
+    rush: { label: 'Rush delivery', description: 'Delivered in about half the usual time (+30%)' },
+    'source-files': { label: 'Source files', description: 'Editable AI / PSD / Figma files' },
+    'print-ready': { label: 'Print-ready exports', description: 'CMYK, bleed and crop marks for your printer' },
+  },
+  // Quote line of a service at a package tier
+  serviceLine: '{{service}} ({{tier}})',
+  estimate: 'Your Estimate',
+  emptyEstimate: 'Add at least one service to start.',
+  includeVat: 'Include 15% VAT',
+  printable: 'Printable quote',
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+  estimateNote: 'Estimate only; the final price is confirmed after a short consultation.',
+  emailSubject: 'Design quote request',
+
+  // Totals
+  subtotal: 'Subtotal',
+  vat: 'VAT 15%',
+  total: 'Total',
+  exclVat: '(excl. VAT)',
+  totalSar: 'Total in SAR',
+
+  // Printable quote
+  title: 'Quote',
+  description: 'Price estimate for design services in Saudi Riyal, VAT included.',
+  backToServices: 'Back to services',
+  createInvoice: 'Create quotation / invoice',
+  print: 'Print / Save as PDF',
+  empty: 'This quote is empty. Build one on the Services page.',
+  item: 'Item',
+  unitPrice: 'Unit price',
+  quantity: 'Qty',
+  amount: 'Amount',
+  conversion: 'Amounts converted from SAR at 1 {{currency}} = {{rate}} SAR. Invoiced total: {{total}}.',
+  validity: 'This quote is an estimate valid for 30 days. The final price is confirmed after a short consultation.',
+
+  // Quote sent by WhatsApp / email
+  message: {
+    intro: "Hello! Here's the quote I put together on your website:",
+    outro: 'Could we discuss the details?',
+  },
+};
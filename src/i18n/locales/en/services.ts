@@ -0,0 +1,56 @@
+/**
+ * Services page strings (English): service cards, package comparison, process and CTA
+ */
+export default {
+  title: 'My Services',
+  subtitle: 'Professional design solutions tailored to your needs',
+  mostPopular: 'Most Popular',
+  relatedWork: 'Related work',
+  startingAt: 'Starting at',
+  getStarted: 'Get Started',
+  comparePackages: 'Compare packages',
+
+  // Package preview (tiers awaiting sign-off)
+  preview: {
+    label: 'Preview Standard and Premium packages',
+    note: 'Their prices and deliverables are proposals awaiting confirmation.',
+  },
+
+  // Package comparison
+  comparison: {
+    title: 'Compare Packages',
+    subtitle: 'Every service comes in three packages. Pick the one that fits your project.',
+    service: 'Service',
+    caption: '{{service}} packages',
+    package: 'Package',
+    recommended: 'Recommended',
+    revisions: 'Revisions',
+    delivery: 'Delivery',
+    included: 'Included',
+    notIncluded: 'Not included',
+    choose: 'Choose {{tier}}',
+  },
+  revisions_one: '{{count}} round',
+  revisions_other: '{{count}} rounds',
+  revisionsUnlimited: 'Unlimited',
+  deliveryDays_one: '{{count}} working day',
+  deliveryDays_other: '{{count}} working days',
+
+  processTitle: 'My Design Process',
+  processSubtitle: 'A streamlined process to ensure your project is delivered on time and exceeds expectations',
+
+  ctaTitle: 'Ready to Get Started?',
+  ctaText: "Let's discuss your project and create something amazing together. Contact me for a free consultation.",
+  startBrief: 'Start a Project Brief',
+  whatsappChat: 'WhatsApp Chat',
+
+  // Prefilled WhatsApp messages (no prices by design)
+  message: {
+    generic: "Hello! I'd like to discuss a new design project. Could we start a chat?",
+    intro: "Hello! I'd like to inquire about the following service:",
+    service: '• Service: {{service}}',
+    package: '• Package: {{tier}} (revisions: {{revisions}}, delivery: {{delivery}})',
+    features: '• Key features: {{features}}',
+    outro: 'Please contact me to discuss details and timeline. Thank you.',
+  },
+};
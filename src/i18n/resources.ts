@@ -0,0 +1,59 @@
+/**
+ * Every namespace in every language, bundled
+ * Used by the prerenderer (which renders synchronously) and by the build, which writes each
+ * namespace to dist/locales/<language>/<namespace>.json for the browser. The browser bundle
+ * must not import this module.
+ */
+import type { Language } from '../utils/routes';
+import type { Namespace } from './config';
+import enCommon from './locales/en/common';
+import enForms from './locales/en/forms';
+import enHome from './locales/en/home';
+import enPortfolio from './locales/en/portfolio';
+import enProject from './locales/en/project';
+import enAbout from './locales/en/about';
+import enServices from './locales/en/services';
+import enContact from './locales/en/contact';
+import enBrief from './locales/en/brief';
+import enQuote from './locales/en/quote';
+import enInvoice from './locales/en/invoice';
+import arCommon from './locales/ar/common';
+import arForms from './locales/ar/forms';
+import arHome from './locales/ar/home';
+import arPortfolio from './locales/ar/portfolio';
+import arProject from './locales/ar/project';
+import arAbout from './locales/ar/about';
+import arServices from './locales/ar/services';
+import arContact from './locales/ar/contact';
+import arBrief from './locales/ar/brief';
+import arQuote from './locales/ar/quote';
+import arInvoice from './locales/ar/invoice';
+
+export const resources = {
+  en: {
+    common: enCommon,
+    forms: enForms,
+    home: enHome,
+    portfolio: enPortfolio,
+    project: enProject,
+    about: enAbout,
+    services: enServices,
+    contact: enContact,
+    brief: enBrief,
+    quote: enQuote,
+    invoice: enInvoice,
+  },
+  ar: {
+    common: arCommon,
+    forms: arForms,
+    home: arHome,
+    portfolio: arPortfolio,
+    project: arProject,
+    about: arAbout,
+    services: arServices,
+    contact: arContact,
+    brief: arBrief,
+    quote: arQuote,
+    invoice: arInvoice,
+  },
+} satisfies Record<Language, Record<Namespace, object>>;
@@ -0,0 +1,209 @@
+/**
+ * Project brief model
+ * Schema, option lists and summary builder for the multi-step brief wizard (pages/Brief.tsx).
+ * Validation messages are translation keys, like the contact inquiry schema.
+ */
+import { z } from 'zod';
+import type { TFunction } from 'i18next';
+import type { Project } from '../data/projects';
+import { SERVICE_IDS, type Service } from '../data/services';
+import type { CurrencyCode } from '../config/currency';
+import { formatPriceText } from '../utils/currency';
+import { localize } from '../utils/localize';
+import { INQUIRY_LIMITS, inquiryFieldsSchema, type InquiryInput } from './inquiry';
+
+type Lang = 'en' | 'ar';
+
+/** Budget ranges offered in the wizard, in SAR (max undefined = open-ended) */
+export const BUDGET_RANGES: Array<{ id: string; min: number; max?: number }> = [
+  { id: 'under-1000', min: 0, max: 1000 },
+  { id: '1000-2500', min: 1000, max: 2500 },
+  { id: '2500-5000', min: 2500, max: 5000 },
+  { id: '5000-10000', min: 5000, max: 10000 },
+  { id: '10000-plus', min: 10000 },
+];
+
+/** Style keywords the client can pick from (labels: brief namespace, `style.<id>`) */
+export const STYLE_OPTIONS = ['minimal', 'modern', 'luxury', 'classic', 'playful', 'bold', 'calligraphic'] as const;
+
+export type StyleId = (typeof STYLE_OPTIONS)[number];
+
+/** Maximum field lengths (contact fields share the inquiry limits) */
+export const BRIEF_LIMITS = {
+  name: INQUIRY_LIMITS.name,
+  email: INQUIRY_LIMITS.email,
+  phone: INQUIRY_LIMITS.phone,
+  businessName: 120,
+  industry: 120,
+  about: 1500,
+  colors: 300,
+  notes: 1500,
+  fileLink: 500,
+} as const;
+
+/** Largest number of file links per brief */
+export const MAX_FILE_LINKS = 10;
+
+/** True for an absolute http(s) URL */
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/** Brief form schema */
+export const briefSchema = z.object({
+  // Step 1: service
+  serviceId: z.enum(SERVICE_IDS, { errorMap: () => ({ message: 'validationChooseService' }) }),
+  // Step 2: business
+  name: inquiryFieldsSchema.shape.name,
+  email: inquiryFieldsSchema.shape.email,
+  phone: inquiryFieldsSchema.shape.phone,
+  businessName: z.string().trim().min(1, 'validationRequired').max(BRIEF_LIMITS.businessName, 'validationTooLong'),
+  industry: z.string().trim().max(BRIEF_LIMITS.industry, 'validationTooLong').optional(),
+  about: z.string().trim().max(BRIEF_LIMITS.about, 'validationTooLong').optional(),
+  // Step 3: style
+  styles: z.array(z.enum(STYLE_OPTIONS)),
+  colors: z.string().trim().max(BRIEF_LIMITS.colors, 'validationTooLong').optional(),
+  referenceIds: z.array(z.number()),
+  // Step 4: budget & deadline
+  budgetId: z.string({ required_error: 'validationRequired' }).min(1, 'validationRequired'),
+  deadline: z.date().optional(),
+  // Step 5: files
+  fileLinks: z
+    .array(
+      z.object({
+        url: z
+          .string()
+          .trim()
+          .max(BRIEF_LIMITS.fileLink, 'validationTooLong')
+          .refine((v) => v === '' || isHttpUrl(v), 'validationUrl'),
+      })
+    )
+    .max(MAX_FILE_LINKS),
+  notes: z.string().trim().max(BRIEF_LIMITS.notes, 'validationTooLong').optional(),
+});
+
+/** Brief form values */
+export type BriefData = z.infer<typeof briefSchema>;
+
+/** Fields validated by each step (the last step is the summary) */
+export const BRIEF_STEP_FIELDS: Array<Array<keyof BriefData>> = [
+  ['serviceId'],
+  ['name', 'email', 'phone', 'businessName', 'industry', 'about'],
+  ['styles', 'colors', 'referenceIds'],
+  ['budgetId', 'deadline'],
+  ['fileLinks', 'notes'],
+];
+
+/** Empty brief */
+export const emptyBrief: Partial<BriefData> = {
+  name: '',
+  email: '',
+  phone: '',
+  businessName: '',
+  industry: '',
+  about: '',
+  styles: [],
+  colors: '',
+  referenceIds: [],
+  budgetId: '',
+  fileLinks: [{ url: '' }],
+  notes: '',
+};
+
+/**
+ * Localized label of a budget range, e.g. "1,000 – 2,500 SAR" or "$267 – $667".
+ * `t` and `tc` are the brief and common namespaces in `lang`.
+ */
+export function formatBudget(
+  id: string,
+  lang: Lang,
+  t: TFunction<'brief'>,
+  tc: TFunction<'common'>,
+  currency: CurrencyCode = 'SAR'
+): string {
+  const range = BUDGET_RANGES.find((r) => r.id === id);
+  if (!range) return '';
+  const amount = (value: number) => formatPriceText(value, currency, lang, tc);
+  if (range.min === 0 && range.max) return t('budgetUnder', { amount: amount(range.max) });
+  if (!range.max) return `${amount(range.min)}+`;
+  return `${amount(range.min)} – ${amount(range.max)}`;
+}
+
+/**
+ * Build the plain-text summary of a brief in the given language (`t` and `tc` are the brief and common namespaces in `lang`).
+ * Used on the summary step, for copying, WhatsApp and the contact backend.
+ */
+export function buildBriefSummary(
+  brief: BriefData,
+  lang: Lang,
+  t: TFunction<'brief'>,
+  tc: TFunction<'common'>,
+  catalog: { services: Service[]; projects: Project[] },
+  currency: CurrencyCode = 'SAR'
+): string {
+  const separator = lang === 'ar' ? '، ' : ', ';
+  const service = catalog.services.find((s) => s.id === brief.serviceId);
+  const styles = brief.styles.map((id) => t(`style.${id}`)).join(separator);
+  const references = brief.referenceIds
+    .map((id) => catalog.projects.find((p) => p.id === id))
+    .filter((p): p is Project => Boolean(p))
+    .map((p) => `${localize(p.title, lang)} (#${p.id})`);
+  const files = brief.fileLinks.map((f) => f.url).filter(Boolean);
+  // Gregorian calendar in Arabic too (ar-SA defaults to Hijri), matching the date picker
+  const deadline = brief.deadline
+    ? brief.deadline.toLocaleDateString(lang === 'en' ? 'en-SA' : 'ar-SA-u-ca-gregory', { dateStyle: 'long' })
+    : t('summary.flexible');
+
+  const lines = [
+    t('summary.heading'),
+    `• ${t('summary.service')}: ${service ? service.title[lang] : '-'}`,
+    `• ${t('summary.contact')}: ${[brief.name, brief.email, brief.phone].filter(Boolean).join(' | ')}`,
+    `• ${t('summary.business')}: ${brief.businessName}`,
+    brief.industry && `• ${t('summary.industry')}: ${brief.industry}`,
+    brief.about && `• ${t('summary.about')}: ${brief.about}`,
+    styles && `• ${t('summary.styles')}: ${styles}`,
+    brief.colors && `• ${t('summary.colors')}: ${brief.colors}`,
+    references.length > 0 && `• ${t('summary.references')}: ${references.join(separator)}`,
+    `• ${t('summary.budget')}: ${formatBudget(brief.budgetId, lang, t, tc, currency)}`,
+    `• ${t('summary.deadline')}: ${deadline}`,
+    files.length > 0 && `• ${t('summary.files')}:\n${files.map((url) => `  - ${url}`).join('\n')}`,
+    brief.notes && `• ${t('summary.notes')}: ${brief.notes}`,
+  ];
+
+  return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * Characters by which a summary exceeds the contact message limit (0 when it can be sent).
+ * The summary is never cut: a longer brief has to be shortened, copied or sent on WhatsApp.
+ */
+export function summaryOverflow(summary: string): number {
+  return Math.max(summary.trim().length - INQUIRY_LIMITS.message, 0);
+}
+
+/**
+ * Turn a brief into a contact inquiry for the contact backend (check summaryOverflow first).
+ * A subject that would exceed the limit leaves out the business name, which the summary already has.
+ */
+export function briefToInquiry(
+  brief: BriefData,
+  summary: string,
+  lang: Lang,
+  t: TFunction<'brief'>,
+  serviceTitle: string
+): InquiryInput {
+  const subject = t('inquirySubject', { service: serviceTitle, business: brief.businessName });
+  return {
+    name: brief.name,
+    email: brief.email,
+    phone: brief.phone || undefined,
+    subject: subject.length <= INQUIRY_LIMITS.subject ? subject : t('inquirySubjectShort', { service: serviceTitle }),
+    message: summary,
+    language: lang,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Contact submission adapters
+ * The contact form talks to an InquiryAdapter so the transport can be swapped:
+ * - createHttpAdapter: POSTs JSON to the contact handler (server/contact.ts)
+ * - createMemoryAdapter: keeps inquiries in memory (local development without a backend, tests)
+ */
+import type { InquiryInput, SubmissionResult } from './inquiry';
+
+/** Something that can deliver an inquiry */
+export interface InquiryAdapter {
+  submit(inquiry: InquiryInput): Promise<SubmissionResult>;
+}
+
+/**
+ * Adapter posting to an HTTP endpoint that answers with a SubmissionResult body.
+ */
+export function createHttpAdapter(endpoint: string, fetchImpl: typeof fetch = fetch): InquiryAdapter {
+  return {
+    async submit(inquiry) {
+      let response: Response;
+      try {
+        response = await fetchImpl(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+          body: JSON.stringify(inquiry),
+        });
+      } catch {
+        return { ok: false, error: 'network' };
+      }
+
+      try {
+        const result = (await response.json()) as SubmissionResult;
+        if (response.ok && result.ok) return result;
+        if (!result.ok) return result;
+      } catch {
+        // Non-JSON error page (proxy, 404…) falls through to a generic server error
+      }
+      return { ok: false, error: 'server' };
+    },
+  };
+}
+
+/**
+ * Adapter storing inquiries in memory; `inquiries` exposes what was submitted.
+ */
+export function createMemoryAdapter(): InquiryAdapter & { inquiries: InquiryInput[] } {
+  const inquiries: InquiryInput[] = [];
+  return {
+    inquiries,
+    async submit(inquiry) {
+      inquiries.push(inquiry);
+      return { ok: true, id: `memory-${inquiries.length}` };
+    },
+  };
+}
+
+/**
+ * Endpoint of the contact handler, set at build time from the CONTACT_ENDPOINT environment variable.
+ * An empty value switches the site to the in-memory adapter.
+ */
+const CONTACT_ENDPOINT = process.env.CONTACT_ENDPOINT ?? '/api/contact';
+
+/** Adapter used by the contact form */
+export const contactAdapter: InquiryAdapter = CONTACT_ENDPOINT
+  ? createHttpAdapter(CONTACT_ENDPOINT)
+  : createMemoryAdapter();
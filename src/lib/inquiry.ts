@@ -0,0 +1,80 @@
+/**
+ * Contact inquiry model
+ * Shared by the contact form (client) and the contact handler (server/contact.ts)
+ * so both sides enforce the same fields and limits.
+ * Validation messages are keys of the forms namespace (src/i18n/locales/en/forms.ts), so the form can show
+ * the same error in English or Arabic, including errors returned by the server.
+ */
+import { z } from 'zod';
+
+/** Maximum field lengths */
+export const INQUIRY_LIMITS = {
+  name: 100,
+  email: 254,
+  phone: 20,
+  subject: 150,
+  message: 5000,
+} as const;
+
+/** What a visitor submits */
+export interface InquiryInput {
+  name: string;
+  email: string;
+  phone?: string;
+  subject?: string;
+  message: string;
+  /** Site language the inquiry was sent from */
+  language: 'en' | 'ar';
+}
+
+/** A stored inquiry */
+export interface Inquiry extends InquiryInput {
+  /** Unique id assigned on receipt */
+  id: string;
+  /** ISO timestamp of receipt */
+  receivedAt: string;
+}
+
+/** Result of a submission, as returned by the handler and every adapter */
+export type SubmissionResult =
+  | { ok: true; id: string }
+  | { ok: false; error: 'invalid' | 'network' | 'server'; issues?: Array<{ path: string; message: string }> };
+
+/** Translation keys used as validation messages */
+export type InquiryMessageKey = 'validationRequired' | 'validationEmail' | 'validationPhone' | 'validationTooLong';
+
+/** Loose international phone check: optional +, common separators, 7–15 digits (E.164 length) */
+function isPhone(value: string): boolean {
+  if (!/^\+?[\d\s\-().]+$/.test(value)) return false;
+  const digits = value.replace(/\D/g, '').length;
+  return digits >= 7 && digits <= 15;
+}
+
+const message = (key: InquiryMessageKey) => ({ message: key });
+
+/** Fields the visitor fills in */
+export const inquiryFieldsSchema = z.object({
+  name: z.string().trim().min(1, message('validationRequired')).max(INQUIRY_LIMITS.name, message('validationTooLong')),
+  email: z
+    .string()
+    .trim()
+    .min(1, message('validationRequired'))
+    .max(INQUIRY_LIMITS.email, message('validationTooLong'))
+    .email(message('validationEmail')),
+  phone: z
+    .string()
+    .trim()
+    .max(INQUIRY_LIMITS.phone, message('validationTooLong'))
+    .refine((value) => value === '' || isPhone(value), message('validationPhone'))
+    .optional(),
+  subject: z.string().trim().max(INQUIRY_LIMITS.subject, message('validationTooLong')).optional(),
+  message: z.string().trim().min(1, message('validationRequired')).max(INQUIRY_LIMITS.message, message('validationTooLong')),
+});
+
+/** Form values (everything but the language) */
+export type InquiryFields = z.infer<typeof inquiryFieldsSchema>;
+
+/** Validation schema for a submitted inquiry */
+export const inquirySchema: z.ZodType<InquiryInput> = inquiryFieldsSchema.extend({
+  language: z.enum(['en', 'ar']),
+});
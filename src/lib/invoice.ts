@@ -0,0 +1,120 @@
+/**
+ * Invoice / quotation model
+ * Document metadata, client details and numbering for the printable document generator (pages/Invoice.tsx).
+ * Line items and totals come from the quote model (lib/quote.ts), so amounts are SAR with 15% VAT.
+ */
+import { SELLER_VAT_NUMBER } from '../config/invoice';
+import { VAT_RATE, type Quote } from './quote';
+
+/** Kind of document being issued */
+export type DocumentKind = 'quotation' | 'invoice';
+
+/** Who the document is addressed to */
+export interface ClientDetails {
+  name: string;
+  company: string;
+  /** Client VAT registration number (shown on tax invoices when provided) */
+  vatNumber: string;
+  address: string;
+  email: string;
+  phone: string;
+}
+
+/** Document header data */
+export interface DocumentMeta {
+  kind: DocumentKind;
+  /** e.g. INV-2026-0007 */
+  number: string;
+  /** ISO date (yyyy-mm-dd) */
+  issueDate: string;
+  /** Payment due date (invoice) or validity date (quotation), ISO */
+  dueDate: string;
+  /** Free-text notes / payment terms */
+  notes: string;
+}
+
+/** Number prefix per document kind */
+const NUMBER_PREFIX: Record<DocumentKind, string> = { quotation: 'QUO', invoice: 'INV' };
+
+/** Days until payment is due / the quotation expires */
+export const DUE_DAYS: Record<DocumentKind, number> = { quotation: 30, invoice: 14 };
+
+/** Document kinds, in editor order (titles are in the invoice namespace, `kind.*`) */
+export const DOCUMENT_KINDS: DocumentKind[] = ['quotation', 'invoice'];
+
+/**
+ * True when a document kind can be issued: tax invoices need the seller's VAT registration number.
+ */
+export function canIssue(kind: DocumentKind): boolean {
+  return kind !== 'invoice' || SELLER_VAT_NUMBER.trim() !== '';
+}
+
+/** Tax invoices always charge VAT; quotations may be issued without it */
+export const requiresVat = (kind: DocumentKind) => kind === 'invoice';
+
+/**
+ * VAT per quote line, rounded to halalas so the column adds up to the quote's VAT:
+ * each line is rounded on its own and the rounding remainder goes to the last line.
+ */
+export function allocateLineVat(quote: Quote): number[] {
+  const amounts = quote.lines.map((line) => Math.round(line.total * VAT_RATE * 100) / 100);
+  if (amounts.length > 0) {
+    const remainder = quote.vat - amounts.reduce((sum, value) => sum + value, 0);
+    amounts[amounts.length - 1] = Math.round((amounts[amounts.length - 1] + remainder) * 100) / 100;
+  }
+  return amounts;
+}
+
+export const emptyClient: ClientDetails = { name: '', company: '', vatNumber: '', address: '', email: '', phone: '' };
+
+/** localStorage key of the last issued sequence per kind and year */
+const counterKey = (kind: DocumentKind, year: number) => `documentCounter:${kind}:${year}`;
+
+/** Format a document number, e.g. INV-2026-0007 */
+export function formatDocumentNumber(kind: DocumentKind, year: number, sequence: number): string {
+  return `${NUMBER_PREFIX[kind]}-${year}-${String(sequence).padStart(4, '0')}`;
+}
+
+/**
+ * Next document number for this browser, without reserving it.
+ * Numbers are only reserved by commitDocumentNumber (when the document is printed).
+ */
+export function peekDocumentNumber(kind: DocumentKind, date = new Date()): string {
+  const year = date.getFullYear();
+  const last = Number(localStorage.getItem(counterKey(kind, year))) || 0;
+  return formatDocumentNumber(kind, year, last + 1);
+}
+
+/**
+ * Remember a printed document number so the next one continues after it.
+ * Custom numbers that don't follow the PREFIX-YEAR-SEQ pattern are ignored.
+ */
+export function commitDocumentNumber(kind: DocumentKind, number: string): void {
+  const match = new RegExp(`^${NUMBER_PREFIX[kind]}-(\\d{4})-(\\d+)$`).exec(number.trim());
+  if (!match) return;
+  const key = counterKey(kind, Number(match[1]));
+  const sequence = Number(match[2]);
+  if (sequence > (Number(localStorage.getItem(key)) || 0)) localStorage.setItem(key, String(sequence));
+}
+
+/** ISO date (yyyy-mm-dd) in local time */
+export function toIsoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** ISO date plus a number of days */
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+}
+
+/**
+ * Long localized date; Gregorian calendar in Arabic too (ar-SA defaults to Hijri).
+ */
+export function formatDocumentDate(isoDate: string, lang: 'en' | 'ar'): string {
+  const date = new Date(`${isoDate}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleDateString(lang === 'en' ? 'en-SA' : 'ar-SA-u-ca-gregory', { dateStyle: 'long' });
+}
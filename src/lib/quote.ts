@@ -0,0 +1,221 @@
+/**
+ * Quote builder model
+ * Pricing rules, totals and export helpers for the Services quote calculator and the printable quote page.
+ * All amounts are SAR (converted only when formatted); a quote selection round-trips through the query string so it can be
+ * opened on the printable page or shared as a link.
+ */
+import type { TFunction } from 'i18next';
+import { SERVICE_IDS, TIER_IDS, type Service, type ServiceId, type TierId } from '../data/services';
+import type { CurrencyCode } from '../config/currency';
+import { formatPriceText, formatSar } from '../utils/currency';
+
+type Lang = 'en' | 'ar';
+
+/** Saudi VAT rate */
+export const VAT_RATE = 0.15;
+
+/** Largest quantity per service or add-on */
+export const MAX_QUANTITY = 10;
+
+/** How an add-on is priced */
+export type AddOnPricing =
+  /** Fixed SAR amount per unit (quantity applies) */
+  | { type: 'perUnit'; amount: number }
+  /** Percentage of the services subtotal */
+  | { type: 'percent'; rate: number }
+  /** Fixed SAR amount per selected service line */
+  | { type: 'perService'; amount: number };
+
+/** Add-on ids (label and description are in the quote namespace, `addOn.<id>.*`) */
+export type AddOnId = 'extra-concepts' | 'rush' | 'source-files' | 'print-ready';
+
+/** Optional extra on top of the selected services */
+export interface AddOn {
+  id: AddOnId;
+  pricing: AddOnPricing;
+  /** Whether the visitor picks a quantity */
+  hasQuantity?: boolean;
+}
+
+/** Add-ons offered in the quote builder */
+export const ADD_ONS: AddOn[] = [
+  { id: 'extra-concepts', pricing: { type: 'perUnit', amount: 150 }, hasQuantity: true },
+  { id: 'rush', pricing: { type: 'percent', rate: 0.3 } },
+  { id: 'source-files', pricing: { type: 'perService', amount: 200 } },
+  { id: 'print-ready', pricing: { type: 'perService', amount: 150 } },
+];
+
+/** What the visitor picked */
+export interface QuoteSelection {
+  /** Quantity per service id */
+  services: Partial<Record<ServiceId, number>>;
+  /** Package tier per service id (Basic when missing) */
+  tiers: Partial<Record<ServiceId, TierId>>;
+  /** Quantity per add-on id (1 for on/off add-ons) */
+  addOns: Record<string, number>;
+  /** Show totals including VAT */
+  includeVat: boolean;
+}
+
+/** What a quote line is for: a service at a package tier, or an add-on */
+export type QuoteItem = { type: 'service'; service: Service; tier: TierId } | { type: 'addOn'; id: AddOnId };
+
+/** One priced row of a quote (see quoteLineLabel for its text) */
+export interface QuoteLine {
+  item: QuoteItem;
+  unitPrice: number;
+  quantity: number;
+  total: number;
+}
+
+/** Calculated quote */
+export interface Quote {
+  lines: QuoteLine[];
+  subtotal: number;
+  vat: number;
+  total: number;
+  includeVat: boolean;
+}
+
+export const emptySelection: QuoteSelection = { services: {}, tiers: {}, addOns: {}, includeVat: true };
+
+/** Round to halalas */
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Clamp a quantity to 0..MAX_QUANTITY */
+export function clampQuantity(value: number): number {
+  return Number.isFinite(value) ? Math.min(Math.max(Math.round(value), 0), MAX_QUANTITY) : 0;
+}
+
+/** True for a known package tier id */
+export function isTierId(value: unknown): value is TierId {
+  return (TIER_IDS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Price a selection: one line per service (at its chosen tier), then add-ons, then VAT.
+ */
+export function calculateQuote(selection: QuoteSelection, services: Service[]): Quote {
+  const serviceLines: QuoteLine[] = services.flatMap((service) => {
+    const quantity = selection.services[service.id] ?? 0;
+    const tierId = selection.tiers[service.id] ?? 'basic';
+    const tier = service.tiers.find((t) => t.id === tierId) ?? service.tiers[0];
+    if (!tier || quantity <= 0) return [];
+    return [
+      {
+        item: { type: 'service', service, tier: tier.id },
+        unitPrice: tier.priceSar,
+        quantity,
+        total: tier.priceSar * quantity,
+      },
+    ];
+  });
+
+  const servicesSubtotal = serviceLines.reduce((sum, line) => sum + line.total, 0);
+  const serviceCount = serviceLines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const addOnLines: QuoteLine[] = ADD_ONS.filter((addOn) => (selection.addOns[addOn.id] ?? 0) > 0 && serviceCount > 0).map(
+    (addOn) => {
+      const quantity = addOn.hasQuantity ? selection.addOns[addOn.id] : 1;
+      const { pricing } = addOn;
+      const unitPrice =
+        pricing.type === 'perUnit'
+          ? pricing.amount
+          : pricing.type === 'perService'
+            ? pricing.amount * serviceCount
+            : round(servicesSubtotal * pricing.rate);
+      return { item: { type: 'addOn', id: addOn.id }, unitPrice, quantity, total: round(unitPrice * quantity) };
+    }
+  );
+
+  const lines = [...serviceLines, ...addOnLines];
+  const subtotal = round(lines.reduce((sum, line) => sum + line.total, 0));
+  const vat = selection.includeVat ? round(subtotal * VAT_RATE) : 0;
+
+  return { lines, subtotal, vat, total: round(subtotal + vat), includeVat: selection.includeVat };
+}
+
+/**
+ * Text of a quote line, e.g. "Logo Design (Standard)" or "Rush delivery".
+ * `t` and `tc` are the quote and common namespaces in `lang`.
+ */
+export function quoteLineLabel(line: QuoteLine, lang: Lang, t: TFunction<'quote'>, tc: TFunction<'common'>): string {
+  const { item } = line;
+  return item.type === 'service'
+    ? t('serviceLine', { service: item.service.title[lang], tier: tc(`tier.${item.tier}`) })
+    : t(`addOn.${item.id}.label`);
+}
+
+/**
+ * Encode a selection as query parameters (s=logo-design:1,web-design:2:premium&a=rush:1&vat=0).
+ * The tier is appended to a service entry unless it is Basic.
+ */
+export function serializeSelection(selection: QuoteSelection): URLSearchParams {
+  const params = new URLSearchParams();
+  const pairs = (record: Partial<Record<string, number>>, suffix: (key: string) => string = () => '') =>
+    Object.entries(record)
+      .filter(([, quantity]) => (quantity ?? 0) > 0)
+      .map(([key, quantity]) => `${key}:${quantity}${suffix(key)}`)
+      .join(',');
+  const tierSuffix = (key: string) => {
+    const tier = selection.tiers[key as ServiceId];
+    return tier && tier !== 'basic' ? `:${tier}` : '';
+  };
+  if (pairs(selection.services)) params.set('s', pairs(selection.services, tierSuffix));
+  if (pairs(selection.addOns)) params.set('a', pairs(selection.addOns));
+  if (!selection.includeVat) params.set('vat', '0');
+  return params;
+}
+
+/**
+ * Decode a selection from query parameters, ignoring malformed entries.
+ */
+export function parseSelection(params: URLSearchParams): QuoteSelection {
+  const pairs = (value: string | null) =>
+    (value ?? '')
+      .split(',')
+      .map((pair) => pair.split(':'))
+      .filter(([key, quantity]) => key && clampQuantity(Number(quantity)) > 0)
+      .map(([key, quantity, tier]) => [key, clampQuantity(Number(quantity)), tier] as const);
+  const services = pairs(params.get('s')).filter(([key]) => (SERVICE_IDS as readonly string[]).includes(key));
+
+  return {
+    services: Object.fromEntries(services.map(([key, quantity]) => [key, quantity])),
+    tiers: Object.fromEntries(services.filter(([, , tier]) => isTierId(tier)).map(([key, , tier]) => [key, tier as TierId])),
+    addOns: Object.fromEntries(
+      pairs(params.get('a'))
+        .filter(([key]) => ADD_ONS.some((a) => a.id === key))
+        .map(([key, quantity]) => [key, quantity])
+    ),
+    includeVat: params.get('vat') !== '0',
+  };
+}
+
+/**
+ * Plain-text quote for WhatsApp / email, in the visitor's currency
+ * (with the SAR total added when another currency is shown). `t` and `tc` are the quote and common namespaces in `lang`.
+ */
+export function buildQuoteText(
+  quote: Quote,
+  lang: Lang,
+  t: TFunction<'quote'>,
+  tc: TFunction<'common'>,
+  currency: CurrencyCode = 'SAR'
+): string {
+  const amount = (value: number) => formatPriceText(value, currency, lang, tc);
+  const lines = quote.lines.map(
+    (line) => `• ${quoteLineLabel(line, lang, t, tc)}${line.quantity > 1 ? ` × ${formatSar(line.quantity, lang)}` : ''}: ${amount(line.total)}`
+  );
+
+  return [
+    t('message.intro'),
+    ...lines,
+    `${t('subtotal')}: ${amount(quote.subtotal)}`,
+    quote.includeVat && `${t('vat')}: ${amount(quote.vat)}`,
+    `${t('total')}: ${amount(quote.total)}${quote.includeVat ? '' : ` ${t('exclVat')}`}`,
+    currency !== 'SAR' && `${t('totalSar')}: ${formatPriceText(quote.total, 'SAR', lang, tc)}`,
+    t('message.outro'),
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,205 @@
+/**
+ * Structured data (JSON-LD) builders
+ * schema.org nodes for the designer (Person + ProfessionalService), the service packages (Service + Offer in SAR)
+ * and portfolio projects (CreativeWork + ImageObject/VideoObject/DigitalDocument + Review). Every builder takes the page language,
+ * so the English and Arabic pages describe the same entities in their own language.
+ * Nodes reference each other by @id and are emitted as one @graph by components/StructuredData.tsx.
+ */
+import type { TFunction } from 'i18next';
+import { getMediaPoster, isVideoFile, type MediaItem, type Project, type ProjectCategory } from '../data/projects';
+import { formatDelivery, formatRevisions, type Service } from '../data/services';
+import { PROFILE, education, experiences, spokenLanguages } from '../data/profile';
+import { localize } from '../utils/localize';
+import { SITE_URL, absoluteUrl, type Language } from '../utils/routes';
+
+/** A schema.org node */
+export type JsonLdNode = Record<string, unknown>;
+
+/** Stable node ids (language independent, so both page versions describe the same entity) */
+export const PERSON_ID = `${SITE_URL}/#person`;
+export const BUSINESS_ID = `${SITE_URL}/#business`;
+
+/** Project categories listed as the designer's fields (names come from the common namespace) */
+const CATEGORIES: ProjectCategory[] = ['logos', 'branding', 'print', 'uiux'];
+
+function address(lang: Language): JsonLdNode {
+  return { '@type': 'PostalAddress', addressLocality: PROFILE.city[lang], addressCountry: PROFILE.country };
+}
+
+/**
+ * The designer: job title, current employers, experience, credentials and languages.
+ * `t` is the common namespace in the same language (category names).
+ */
+export function personSchema(lang: Language, t: TFunction<'common'>): JsonLdNode {
+  return {
+    '@type': 'Person',
+    '@id': PERSON_ID,
+    name: PROFILE.name[lang],
+    jobTitle: PROFILE.jobTitle[lang],
+    description: PROFILE.description[lang],
+    image: PROFILE.photo,
+    url: absoluteUrl('/about', lang),
+    email: `mailto:${PROFILE.email}`,
+    telephone: PROFILE.phone,
+    nationality: { '@type': 'Country', name: PROFILE.nationality },
+    address: address(lang),
+    worksFor: experiences
+      .filter((exp) => exp.status)
+      .map((exp) => ({ '@type': 'Organization', name: exp.company[lang] })),
+    hasOccupation: experiences.map((exp) => ({
+      '@type': 'Occupation',
+      name: exp.title[lang],
+      description: exp.description[lang],
+      occupationLocation: {
+        '@type': 'Place',
+        name: typeof exp.location === 'string' ? exp.location : exp.location[lang],
+      },
+    })),
+    hasCredential: education.map((item) => ({
+      '@type': 'EducationalOccupationalCredential',
+      name: item.title[lang],
+      dateCreated: item.year,
+    })),
+    knowsLanguage: spokenLanguages.map((item) => ({
+      '@type': 'Language',
+      name: item.name[lang],
+      alternateName: item.code,
+    })),
+    knowsAbout: CATEGORIES.map((category) => t(`category.${category}`)),
+  };
+}
+
+/**
+ * The design studio run by the designer (local business, prices in SAR).
+ * `t` is the common namespace in the same language (the studio name is the site title).
+ */
+export function professionalServiceSchema(lang: Language, t: TFunction<'common'>): JsonLdNode {
+  return {
+    '@type': 'ProfessionalService',
+    '@id': BUSINESS_ID,
+    name: t('title'),
+    description: PROFILE.description[lang],
+    url: absoluteUrl('/', lang),
+    logo: PROFILE.logo,
+    image: PROFILE.logo,
+    email: PROFILE.email,
+    telephone: PROFILE.phone,
+    address: address(lang),
+    areaServed: { '@type': 'Country', name: 'SA' },
+    currenciesAccepted: 'SAR',
+    founder: { '@id': PERSON_ID },
+    employee: { '@id': PERSON_ID },
+  };
+}
+
+/**
+ * One Service per catalog entry, with an Offer per package priced in SAR.
+ * `t` and `tc` are the services and common namespaces in the same language (revision and delivery wording, tier names).
+ */
+export function serviceSchemas(
+  services: Service[],
+  lang: Language,
+  t: TFunction<'services'>,
+  tc: TFunction<'common'>
+): JsonLdNode[] {
+  const url = absoluteUrl('/services', lang);
+  return services.map((service) => ({
+    '@type': 'Service',
+    '@id': `${SITE_URL}/#service-${service.id}`,
+    name: service.title[lang],
+    description: service.description[lang],
+    serviceType: service.title.en,
+    url,
+    provider: { '@id': BUSINESS_ID },
+    areaServed: { '@type': 'Country', name: 'SA' },
+    offers: service.tiers.map((tier) => ({
+      '@type': 'Offer',
+      name: `${service.title[lang]} — ${tc(`tier.${tier.id}`)}`,
+      description: [formatRevisions(tier, t), formatDelivery(tier, t), ...tier.features[lang]].join(' · '),
+      price: tier.priceSar,
+      priceCurrency: 'SAR',
+      url: `${url}#packages`,
+      availability: 'https://schema.org/InStock',
+    })),
+  }));
+}
+
+/** Absolute URL of a media file (self-hosted files are site-relative) */
+const mediaUrl = (src: string) => new URL(src, SITE_URL).href;
+
+/**
+ * One gallery item: images (and animated images) as ImageObject, videos and video loops as VideoObject,
+ * PDFs as DigitalDocument.
+ */
+function mediaSchema(item: MediaItem, name: string, caption: string, lang: Language): JsonLdNode {
+  const credit = typeof item.credit === 'string' ? item.credit : item.credit && localize(item.credit, lang);
+  const common = { name, caption, creator: { '@id': PERSON_ID }, ...(credit && { creditText: credit }) };
+  if (item.type === 'pdf') {
+    return {
+      '@type': 'DigitalDocument',
+      ...common,
+      url: mediaUrl(item.src),
+      encodingFormat: 'application/pdf',
+      thumbnailUrl: mediaUrl(getMediaPoster(item)),
+    };
+  }
+  if (item.type === 'video' || (item.type === 'animation' && isVideoFile(item.src))) {
+    return {
+      '@type': 'VideoObject',
+      ...common,
+      contentUrl: mediaUrl(item.src),
+      thumbnailUrl: mediaUrl(getMediaPoster(item)),
+    };
+  }
+  return { '@type': 'ImageObject', ...common, contentUrl: mediaUrl(item.src), url: mediaUrl(item.src) };
+}
+
+/**
+ * A portfolio project: the work itself, its media and the client comments as reviews.
+ * Reviews are attributed to the client named in the case study; without one the comments are left out,
+ * since a Review needs a real author.
+ * `t` is the common namespace in the same language (the category used as genre).
+ */
+export function projectSchema(project: Project, lang: Language, t: TFunction<'common'>): JsonLdNode {
+  const url = absoluteUrl(`/portfolio/${project.id}`, lang);
+  const name = localize(project.title, lang);
+  const client = project.caseStudy?.client && localize(project.caseStudy.client, lang);
+  const media = project.media.map((item, index) =>
+    mediaSchema(
+      item,
+      item.alt ? localize(item.alt, lang) : `${name} — ${index + 1}`,
+      localize(item.caption ?? project.description, lang),
+      lang
+    )
+  );
+  const videos = media.filter((node) => node['@type'] === 'VideoObject');
+  const documents = media.filter((node) => node['@type'] === 'DigitalDocument');
+
+  return {
+    '@type': 'CreativeWork',
+    '@id': url,
+    url,
+    name,
+    description: localize(project.description, lang),
+    inLanguage: lang,
+    dateCreated: String(project.year),
+    genre: t(`category.${project.category}`),
+    keywords: project.tags.join(', '),
+    creator: { '@id': PERSON_ID },
+    ...(client && { sourceOrganization: { '@type': 'Organization', name: client } }),
+    image: media.filter((node) => node['@type'] === 'ImageObject'),
+    ...(videos.length > 0 && { video: videos }),
+    ...(documents.length > 0 && { associatedMedia: documents }),
+    ...(client &&
+      project.comments &&
+      project.comments.length > 0 && {
+        review: project.comments.map((comment) => ({
+          '@type': 'Review',
+          reviewBody: localize(comment, lang),
+          inLanguage: lang,
+          author: { '@type': 'Organization', name: client },
+          itemReviewed: { '@id': url },
+        })),
+      }),
+  };
+}
@@ -1,6 +1,40 @@
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router'
+import { HelmetProvider } from 'react-helmet-async'
 import './shadcn.css'
 import App from './App'
+import { i18n } from './i18n'
+import { localeBackend } from './i18n/backend'
+import { I18N_OPTIONS } from './i18n/config'
+import { languageFromPathname, legacyHashToPath, preferredLanguage } from './utils/routes'
 
-const root = createRoot(document.getElementById('app')!)
-root.render(<App />)
+// Old shared links used the HashRouter (/#/portfolio/3); move them to the path-based route
+const legacyPath = legacyHashToPath(window.location.hash, preferredLanguage())
+if (legacyPath) {
+  window.history.replaceState(null, '', legacyPath)
+}
+
+// Strings are fetched per namespace from /locales; start with the shared namespace of the page language
+i18n.use(localeBackend).init({
+  ...I18N_OPTIONS,
+  lng: languageFromPathname(window.location.pathname) ?? preferredLanguage(),
+})
+
+const container = document.getElementById('app')!
+
+// Prerendered pages ship with markup inside #app; hydrate those instead of re-rendering
+const prerendered = !legacyPath && container.firstElementChild !== null
+
+const app = (
+  <HelmetProvider>
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
+  </HelmetProvider>
+)
+
+if (prerendered) {
+  hydrateRoot(container, app)
+} else {
+  createRoot(container).render(app)
+}
@@ -0,0 +1,641 @@
+/**
+ * Project brief wizard
+ * Multi-step intake replacing the free-text message for new projects:
+ * 1. Service  2. Business info  3. Style & reference projects  4. Budget (SAR) & deadline
+ * 5. File links  6. Summary
+ * The summary (in the current language) can be sent through the contact backend,
+ * copied to the clipboard or pushed into a WhatsApp message.
+ * Each step is validated before moving on; ?service=<service id> preselects a service.
+ */
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { arSA, enUS } from 'date-fns/locale';
+import { ArrowLeft, ArrowRight, Check, CheckCircle2, AlertCircle, Copy, MessageSquare, Plus, Send, Trash2 } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import { Calendar } from '../components/ui/calendar';
+import { Form, FormControl, FormField, FormItem, FormLabel } from '../components/ui/form';
+import FieldError from '../components/FieldError';
+import SRLogoIcon from '../components/icons/SRLogo';
+import SEO from '../components/SEO';
+import ResponsiveImage from '../components/ResponsiveImage';
+import { getMediaAlt } from '../components/ProjectMedia';
+import { useTheme } from '../contexts/ThemeContext';
+import { useTranslation } from '../i18n';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { getServiceById, services } from '../data/services';
+import { getProjectThumbnail, projects } from '../data/projects';
+import { localize } from '../utils/localize';
+import { contactAdapter } from '../lib/contact';
+import {
+  BRIEF_LIMITS,
+  BRIEF_STEP_FIELDS,
+  BUDGET_RANGES,
+  MAX_FILE_LINKS,
+  STYLE_OPTIONS,
+  briefSchema,
+  briefToInquiry,
+  buildBriefSummary,
+  emptyBrief,
+  formatBudget,
+  summaryOverflow,
+  type BriefData,
+  type StyleId,
+} from '../lib/brief';
+
+/** WhatsApp number for direct contact */
+const WHATSAPP_NUMBER = '+966504487308';
+
+/** Wizard steps (brief namespace keys under `steps`) */
+const steps = ['service', 'business', 'style', 'budget', 'files', 'summary'] as const;
+
+const SUMMARY_STEP = steps.length - 1;
+
+/** Status messages (brief namespace, `status.*`) */
+type StatusKey = 'sending' | 'sent' | 'sendFailed' | 'copied' | 'copyFailed';
+
+const labelClass = 'block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2';
+const fieldClass =
+  'border-[#d9cab1] dark:border-[#9c7860] focus:border-[#8f1819] dark:focus:border-[#bd7b6a] focus:ring-2 focus:ring-[#8f1819]/20 dark:focus:ring-[#bd7b6a]/20 transition-shadow aria-[invalid=true]:border-red-500 dark:aria-[invalid=true]:border-red-400';
+const outlineButtonClass =
+  'border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent';
+
+/** Selectable card used for services, budgets and reference projects */
+const OptionCard: React.FC<{ selected: boolean; onClick: () => void; className?: string; children: React.ReactNode }> = ({
+  selected,
+  onClick,
+  className = '',
+  children,
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={selected}
+    className={`relative text-start rounded-xl border-2 transition-all duration-200 ${
+      selected
+        ? 'border-[#8f1819] dark:border-[#bd7b6a] bg-[#8f1819]/5 dark:bg-[#bd7b6a]/10'
+        : 'border-[#d9cab1] dark:border-[#9c7860]/40 hover:border-[#bd7b6a]'
+    } ${className}`}
+  >
+    {selected && (
+      <span className="absolute top-2 ltr:right-2 rtl:left-2 h-6 w-6 rounded-full bg-[#8f1819] dark:bg-[#bd7b6a] text-white flex items-center justify-center">
+        <Check className="h-4 w-4" />
+      </span>
+    )}
+    {children}
+  </button>
+);
+
+/** Progress indicator */
+const StepIndicator: React.FC<{ current: number }> = ({ current }) => {
+  const { t } = useTranslation('brief');
+  return (
+    <ol className="flex flex-wrap items-center justify-center gap-2 mb-10">
+      {steps.map((step, index) => {
+        const done = index < current;
+        const active = index === current;
+        return (
+          <li key={step} className="flex items-center gap-2" aria-current={active ? 'step' : undefined}>
+            <span
+              className={`h-8 w-8 rounded-full flex items-center justify-center text-sm font-semibold ${
+                active
+                  ? 'bg-[#8f1819] dark:bg-[#bd7b6a] text-white'
+                  : done
+                    ? 'bg-[#8f1819]/15 dark:bg-[#bd7b6a]/20 text-[#8f1819] dark:text-[#bd7b6a]'
+                    : 'bg-[#d9cab1]/60 dark:bg-[#2d2d2d] text-[#9c7860] dark:text-[#d9cab1]/60'
+              }`}
+            >
+              {done ? <Check className="h-4 w-4" /> : index + 1}
+            </span>
+            <span className={`hidden sm:inline text-sm ${active ? 'font-semibold text-[#8f1819] dark:text-[#bd7b6a]' : 'text-[#9c7860] dark:text-[#d9cab1]/70'}`}>
+              {t(`steps.${step}`)}
+            </span>
+            {index < steps.length - 1 && <span className="hidden sm:block w-6 h-px bg-[#d9cab1] dark:bg-[#9c7860]/40" />}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+const BriefPage: React.FC = () => {
+  const { language } = useTheme();
+  const { t } = useTranslation('brief');
+  const { t: tc } = useTranslation('common');
+  const { currency } = useCurrency();
+  const [searchParams] = useSearchParams();
+  const [step, setStep] = useState(0);
+  // The message key is stored (not the text) so the status follows a language switch
+  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; key: StatusKey } | null>(null);
+  // Content of the last brief sent, so neither repeated clicks nor going back and forth send it twice
+  const [sentContent, setSentContent] = useState<string | null>(null);
+
+  const preselected = getServiceById(searchParams.get('service') ?? '');
+  const form = useForm<BriefData>({
+    resolver: zodResolver(briefSchema),
+    defaultValues: {
+      ...emptyBrief,
+      serviceId: preselected?.id,
+    },
+    mode: 'onTouched',
+  });
+  const fileLinks = useFieldArray({ control: form.control, name: 'fileLinks' });
+
+  const values = form.watch();
+  // Validated brief, captured on entering the summary step (the summary follows language and currency changes)
+  const [brief, setBrief] = useState<BriefData | null>(null);
+  const summary = useMemo(
+    () => (brief ? buildBriefSummary(brief, language, t, tc, { services, projects }, currency) : ''),
+    [brief, language, t, tc, currency]
+  );
+  const overflow = summaryOverflow(summary);
+  // Keyed on the brief data rather than the summary, which also changes with the language and currency
+  const briefContent = useMemo(() => (brief ? JSON.stringify(brief) : null), [brief]);
+  const sent = briefContent !== null && briefContent === sentContent;
+
+  /**
+   * Validate the current step before moving forward.
+   * Entering the summary validates the whole brief and goes back to the first step with an error, if any.
+   */
+  const goNext = async () => {
+    const valid = await form.trigger(BRIEF_STEP_FIELDS[step], { shouldFocus: true });
+    if (!valid) return;
+    setStatus(null);
+    if (step === SUMMARY_STEP - 1) {
+      const result = briefSchema.safeParse(form.getValues());
+      if (!result.success) {
+        const invalid = result.error.issues.map((issue) => issue.path[0]);
+        const firstInvalid = BRIEF_STEP_FIELDS.findIndex((fields) => fields.some((field) => invalid.includes(field)));
+        setStep(Math.max(firstInvalid, 0));
+        await form.trigger(BRIEF_STEP_FIELDS[Math.max(firstInvalid, 0)]);
+        return;
+      }
+      setBrief(result.data);
+    }
+    setStep((s) => Math.min(s + 1, SUMMARY_STEP));
+  };
+
+  const goBack = () => {
+    setStatus(null);
+    setStep((s) => Math.max(s - 1, 0));
+  };
+
+  /** Toggle a style keyword */
+  const toggleStyle = (id: StyleId) => {
+    const current = form.getValues('styles');
+    form.setValue('styles', current.includes(id) ? current.filter((v) => v !== id) : [...current, id], { shouldDirty: true });
+  };
+
+  /** Toggle a reference project */
+  const toggleReference = (id: number) => {
+    const current = form.getValues('referenceIds');
+    form.setValue('referenceIds', current.includes(id) ? current.filter((v) => v !== id) : [...current, id], { shouldDirty: true });
+  };
+
+  /**
+   * Send the brief through the contact backend
+   */
+  const handleSend = async () => {
+    if (!brief || sent || overflow > 0) return;
+    setStatus({ type: 'info', key: 'sending' });
+    const result = await contactAdapter.submit(
+      briefToInquiry(brief, summary, language, t, getServiceById(brief.serviceId)?.title[language] ?? '')
+    );
+    if (result.ok) setSentContent(briefContent);
+    setStatus(
+      result.ok
+        ? { type: 'success', key: 'sent' }
+        : { type: 'error', key: 'sendFailed' }
+    );
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      setStatus({ type: 'success', key: 'copied' });
+    } catch {
+      setStatus({ type: 'error', key: 'copyFailed' });
+    }
+  };
+
+  const handleWhatsApp = () => {
+    window.open(`https://wa.me/${WHATSAPP_NUMBER}?text=${encodeURIComponent(summary)}`, '_blank');
+  };
+
+  return (
+    <div className="py-20">
+      <SEO
+        title={t('title')}
+        description={t('subtitle')}
+        path="/brief"
+        setTitle
+      />
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="text-center space-y-4 mb-12">
+          <h1 className="text-5xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">
+            {t('title')}
+          </h1>
+          <p className="text-xl text-[#9c7860] dark:text-[#d9cab1]/80 max-w-2xl mx-auto">
+            {t('subtitle')}
+          </p>
+        </div>
+
+        <StepIndicator current={step} />
+
+        <div className="bg-white dark:bg-[#2d2d2d] rounded-2xl p-6 sm:p-8 shadow-lg">
+          <h2 className="text-2xl font-bold text-[#8f1819] dark:text-[#bd7b6a] mb-6">{t(`steps.${steps[step]}`)}</h2>
+
+          <Form {...form}>
+            <form onSubmit={(e) => e.preventDefault()} noValidate className="space-y-6">
+              {/* Step 1: Service */}
+              {step === 0 && (
+                <FormField
+                  control={form.control}
+                  name="serviceId"
+                  render={({ field }) => (
+                    <FormItem className="space-y-0">
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4" role="group" aria-label={t('steps.service')}>
+                        {services.map((service) => {
+                          const Icon = service.icon;
+                          return (
+                            <OptionCard key={service.id} selected={field.value === service.id} onClick={() => field.onChange(service.id)} className="p-4">
+                              <div className="flex items-center gap-3">
+                                <span className="h-10 w-10 rounded-lg bg-[#8f1819]/10 dark:bg-[#bd7b6a]/10 flex items-center justify-center flex-shrink-0">
+                                  <Icon className="h-5 w-5 text-[#8f1819] dark:text-[#bd7b6a]" />
+                                </span>
+                                <div className="min-w-0">
+                                  <div className="font-semibold text-[#2d2d2d] dark:text-[#d9cab1]">{service.title[language]}</div>
+                                  <div className="text-xs text-[#9c7860] dark:text-[#d9cab1]/70 line-clamp-2">{service.description[language]}</div>
+                                </div>
+                              </div>
+                            </OptionCard>
+                          );
+                        })}
+                      </div>
+                      <FieldError />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {/* Step 2: Business */}
+              {step === 1 && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem className="space-y-0">
+                          <FormLabel className={labelClass}>{t('name')} *</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="name" aria-required="true" maxLength={BRIEF_LIMITS.name} className={fieldClass} {...field} />
+                          </FormControl>
+                          <FieldError max={BRIEF_LIMITS.name} />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="businessName"
+                      render={({ field }) => (
+                        <FormItem className="space-y-0">
+                          <FormLabel className={labelClass}>{t('businessName')} *</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="organization" aria-required="true" maxLength={BRIEF_LIMITS.businessName} className={fieldClass} {...field} />
+                          </FormControl>
+                          <FieldError max={BRIEF_LIMITS.businessName} />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem className="space-y-0">
+                          <FormLabel className={labelClass}>{t('email')} *</FormLabel>
+                          <FormControl>
+                            <Input type="email" autoComplete="email" dir="ltr" aria-required="true" maxLength={BRIEF_LIMITS.email} className={fieldClass} {...field} />
+                          </FormControl>
+                          <FieldError max={BRIEF_LIMITS.email} />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="phone"
+                      render={({ field }) => (
+                        <FormItem className="space-y-0">
+                          <FormLabel className={labelClass}>{t('phone')}</FormLabel>
+                          <FormControl>
+                            <Input type="tel" autoComplete="tel" inputMode="tel" dir="ltr" maxLength={BRIEF_LIMITS.phone} placeholder="+966 5X XXX XXXX" className={fieldClass} {...field} />
+                          </FormControl>
+                          <FieldError max={BRIEF_LIMITS.phone} />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="industry"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className={labelClass}>{t('industry')}</FormLabel>
+                        <FormControl>
+                          <Input
+                            maxLength={BRIEF_LIMITS.industry}
+                            placeholder={t('industryPlaceholder')}
+                            className={fieldClass}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FieldError max={BRIEF_LIMITS.industry} />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="about"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className={labelClass}>{t('about')}</FormLabel>
+                        <FormControl>
+                          <Textarea rows={4} maxLength={BRIEF_LIMITS.about} className={`${fieldClass} resize-none`} {...field} />
+                        </FormControl>
+                        <FieldError max={BRIEF_LIMITS.about} />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              {/* Step 3: Style */}
+              {step === 2 && (
+                <>
+                  <div>
+                    <span className={labelClass}>{t('styles')}</span>
+                    <div className="flex flex-wrap gap-2" role="group">
+                      {STYLE_OPTIONS.map((id) => {
+                        const active = values.styles?.includes(id);
+                        return (
+                          <button
+                            key={id}
+                            type="button"
+                            aria-pressed={active}
+                            onClick={() => toggleStyle(id)}
+                            className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors duration-200 ${
+                              active
+                                ? 'bg-[#8f1819] text-white dark:bg-[#bd7b6a] dark:text-[#1a1a1a]'
+                                : 'bg-[#d9cab1]/60 text-[#8f1819] hover:bg-[#d9cab1] dark:bg-[#1a1a1a] dark:text-[#bd7b6a]'
+                            }`}
+                          >
+                            {t(`style.${id}`)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="colors"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className={labelClass}>{t('colors')}</FormLabel>
+                        <FormControl>
+                          <Input
+                            maxLength={BRIEF_LIMITS.colors}
+                            placeholder={t('colorsPlaceholder')}
+                            className={fieldClass}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FieldError max={BRIEF_LIMITS.colors} />
+                      </FormItem>
+                    )}
+                  />
+                  <div>
+                    <span className={labelClass}>
+                      {t('references')}
+                    </span>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                      {projects.map((project) => (
+                        <OptionCard
+                          key={project.id}
+                          selected={values.referenceIds?.includes(project.id) ?? false}
+                          onClick={() => toggleReference(project.id)}
+                          className="overflow-hidden"
+                        >
+                          <div className="aspect-[4/3] bg-[#d9cab1] dark:bg-[#1a1a1a]">
+                            <ResponsiveImage
+                              src={getProjectThumbnail(project)}
+                              sizes="(min-width: 896px) 260px, (min-width: 640px) 30vw, 45vw"
+                              alt={getMediaAlt(project.media[0], language, localize(project.title, language))}
+                              className="w-full h-full object-cover"
+                            />
+                          </div>
+                          <div className="p-2 text-xs font-medium text-[#2d2d2d] dark:text-[#d9cab1] line-clamp-2">
+                            {localize(project.title, language)}
+                          </div>
+                        </OptionCard>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {/* Step 4: Budget & deadline */}
+              {step === 3 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                  <FormField
+                    control={form.control}
+                    name="budgetId"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <span className={labelClass}>
+                          {t('budget')} *
+                        </span>
+                        <div className="space-y-2" role="group">
+                          {BUDGET_RANGES.map((range) => (
+                            <OptionCard
+                              key={range.id}
+                              selected={field.value === range.id}
+                              onClick={() => field.onChange(range.id)}
+                              className="w-full px-4 py-3 flex items-center gap-2 font-medium text-[#2d2d2d] dark:text-[#d9cab1]"
+                            >
+                              {currency === 'SAR' && <SRLogoIcon className="h-4 w-4" />}
+                              <span>{formatBudget(range.id, language, t, tc, currency)}</span>
+                            </OptionCard>
+                          ))}
+                        </div>
+                        <FieldError />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="deadline"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <span className={labelClass}>{t('deadline')}</span>
+                        <div className="rounded-xl border border-[#d9cab1] dark:border-[#9c7860]/40 inline-block">
+                          <Calendar
+                            mode="single"
+                            selected={field.value}
+                            onSelect={field.onChange}
+                            disabled={{ before: new Date() }}
+                            locale={language === 'ar' ? arSA : enUS}
+                            dir={language === 'ar' ? 'rtl' : 'ltr'}
+                          />
+                        </div>
+                        <div className="mt-2">
+                          <button
+                            type="button"
+                            onClick={() => field.onChange(undefined)}
+                            className="text-sm font-medium text-[#8f1819] dark:text-[#bd7b6a] hover:underline"
+                          >
+                            {t('noDeadline')}
+                          </button>
+                        </div>
+                        <FieldError />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              {/* Step 5: Files */}
+              {step === 4 && (
+                <>
+                  <div className="space-y-3">
+                    <span className={labelClass}>
+                      {t('fileLinks')}
+                    </span>
+                    {fileLinks.fields.map((item, index) => (
+                      <FormField
+                        key={item.id}
+                        control={form.control}
+                        name={`fileLinks.${index}.url`}
+                        render={({ field }) => (
+                          <FormItem className="space-y-0">
+                            <div className="flex items-center gap-2">
+                              <FormControl>
+                                <Input type="url" dir="ltr" placeholder="https://" maxLength={BRIEF_LIMITS.fileLink} className={fieldClass} {...field} />
+                              </FormControl>
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="icon"
+                                onClick={() => fileLinks.remove(index)}
+                                aria-label={t('removeLink')}
+                                className={outlineButtonClass}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            <FieldError max={BRIEF_LIMITS.fileLink} />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                    {fileLinks.fields.length < MAX_FILE_LINKS && (
+                      <Button type="button" variant="outline" size="sm" onClick={() => fileLinks.append({ url: '' })} className={outlineButtonClass}>
+                        <Plus className="h-4 w-4 ltr:mr-1 rtl:ml-1" />
+                        {t('addLink')}
+                      </Button>
+                    )}
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className={labelClass}>{t('notes')}</FormLabel>
+                        <FormControl>
+                          <Textarea rows={4} maxLength={BRIEF_LIMITS.notes} className={`${fieldClass} resize-none`} {...field} />
+                        </FormControl>
+                        <FieldError max={BRIEF_LIMITS.notes} />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              {/* Step 6: Summary */}
+              {step === SUMMARY_STEP && (
+                <div className="space-y-6">
+                  <pre
+                    className="whitespace-pre-wrap font-sans text-sm leading-relaxed rounded-xl bg-[#fff9f3] dark:bg-[#1f1f1f] p-5 text-[#2d2d2d] dark:text-[#d9cab1] border border-[#d9cab1] dark:border-[#9c7860]/30"
+                    dir={language === 'ar' ? 'rtl' : 'ltr'}
+                  >
+                    {summary}
+                  </pre>
+
+                  {overflow > 0 && (
+                    <p role="alert" className="text-sm font-medium text-red-600 dark:text-red-400">
+                      {t('status.tooLong', { count: overflow })}
+                    </p>
+                  )}
+
+                  <div role="status" aria-live="polite">
+                    {status && (
+                      <div
+                        className={`flex items-center gap-2 rounded-xl px-4 py-3 ${
+                          status.type === 'success' ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' :
+                          status.type === 'error' ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' :
+                          'bg-[#d9cab1] text-[#8f1819] dark:bg-[#1a1a1a] dark:text-[#bd7b6a]'
+                        }`}
+                      >
+                        {status.type === 'success' ? <CheckCircle2 className="w-5 h-5" /> : status.type === 'error' ? <AlertCircle className="w-5 h-5" /> : <Send className="w-5 h-5" />}
+                        <span className="text-sm">{t(`status.${status.key}`)}</span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <Button
+                      type="button"
+                      onClick={handleSend}
+                      disabled={status?.type === 'info' || sent || overflow > 0}
+                      className="bg-[#8f1819] hover:bg-[#bd7b6a] text-white"
+                    >
+                      {sent ? <CheckCircle2 className="h-4 w-4 ltr:mr-2 rtl:ml-2" /> : <Send className="h-4 w-4 ltr:mr-2 rtl:ml-2" />}
+                      {sent ? t('sent') : t('send')}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={handleCopy} className={outlineButtonClass}>
+                      <Copy className="h-4 w-4 ltr:mr-2 rtl:ml-2" />
+                      {t('copy')}
+                    </Button>
+                    <Button type="button" onClick={handleWhatsApp} className="bg-[#25D366] hover:bg-[#128C7E] text-white">
+                      <MessageSquare className="h-4 w-4 ltr:mr-2 rtl:ml-2" />
+                      {t('whatsapp')}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Navigation */}
+              <div className="flex items-center justify-between pt-6 border-t border-[#d9cab1] dark:border-[#9c7860]/20">
+                <Button type="button" variant="outline" onClick={goBack} disabled={step === 0} className={outlineButtonClass}>
+                  <ArrowLeft className="h-4 w-4 ltr:mr-2 rtl:ml-2 rtl:rotate-180" />
+                  {t('back')}
+                </Button>
+                {step < SUMMARY_STEP && (
+                  <Button type="button" onClick={goNext} className="bg-[#8f1819] hover:bg-[#bd7b6a] text-white">
+                    {step === SUMMARY_STEP - 1 ? t('review') : t('next')}
+                    <ArrowRight className="h-4 w-4 ltr:ml-2 rtl:mr-2 rtl:rotate-180" />
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BriefPage;
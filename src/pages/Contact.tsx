@@ -2,108 +2,121 @@
  * Contact page component with contact form and information
  * Provides multiple ways to get in touch including form, WhatsApp, and social media
  * - Enhanced focus styling
- * - Animated status message on submit
+ * - Form built on react-hook-form + the shared zod inquiry schema, with bilingual
+ *   field-level errors announced to screen readers
+ * - Animated status message reflecting the real submission result
+ * - Inquiries are sent through the pluggable contact adapter (lib/contact.ts)
  */
 import React, { useState } from 'react';
 import { Mail, Phone, MapPin, Send, Instagram, Linkedin, MessageSquare, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Link } from 'react-router';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Textarea } from '../components/ui/textarea';
+import { Form, FormControl, FormField, FormItem, FormLabel } from '../components/ui/form';
+import FieldError from '../components/FieldError';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { useTheme } from '../contexts/ThemeContext';
-import { useTranslation } from '../utils/translations';
+import { useTranslation } from '../i18n';
+import { localizePath } from '../utils/routes';
+import SEO from '../components/SEO';
+import { contactAdapter } from '../lib/contact';
+import { INQUIRY_LIMITS, inquiryFieldsSchema, type InquiryFields } from '../lib/inquiry';
 
 /** Centralized contact email */
 const CONTACT_EMAIL = 'info@emadalddine.com';
 
+/** Shared input styling */
+const fieldClass =
+  'border-[#d9cab1] dark:border-[#9c7860] focus:border-[#8f1819] dark:focus:border-[#bd7b6a] focus:ring-2 focus:ring-[#8f1819]/20 dark:focus:ring-[#bd7b6a]/20 transition-shadow aria-[invalid=true]:border-red-500 dark:aria-[invalid=true]:border-red-400';
+
+const emptyForm: InquiryFields = { name: '', email: '', phone: '', subject: '', message: '' };
+
+/** Status messages (contact namespace, `status.*`) */
+type StatusKey = 'sending' | 'sent' | 'fixFields' | 'invalid' | 'network' | 'server';
+
 const ContactPage: React.FC = () => {
   const { language } = useTheme();
-  const { t } = useTranslation(language);
-  const [formData, setFormData] = useState({
-    name: '',
-    email: '',
-    subject: '',
-    message: '',
+  const { t } = useTranslation('contact');
+  const { t: tc } = useTranslation('common');
+  const form = useForm<InquiryFields>({
+    resolver: zodResolver(inquiryFieldsSchema),
+    defaultValues: emptyForm,
+    mode: 'onTouched',
   });
-  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
+  // The message key is stored (not the text) so the status follows a language switch
+  const [status, setStatus] = useState<{ type: 'success' | 'error' | 'info'; key: StatusKey } | null>(null);
+  const submitting = form.formState.isSubmitting;
 
   /**
-   * Handle controlled input changes
+   * Submit handler (runs after schema validation passes)
+   * Sends the inquiry through the contact adapter; the status reflects the real result,
+   * and field errors reported by the server are shown on their fields
    */
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: value,
-    }));
-  };
+  const handleSubmit = async (values: InquiryFields) => {
+    setStatus({
+      type: 'info',
+      key: 'sending',
+    });
 
-  /**
-   * Submit handler
-   * Performs basic validation and opens a pre-filled mailto draft
-   */
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+    const result = await contactAdapter.submit({
+      ...values,
+      phone: values.phone || undefined,
+      subject: values.subject || undefined,
+      language,
+    });
 
-    // Basic validation
-    if (!formData.name || !formData.email || !formData.message) {
+    if (result.ok) {
+      form.reset(emptyForm);
       setStatus({
-        type: 'error',
-        text: language === 'en' ? 'Please fill in the required fields.' : 'يرجى ملء الحقول المطلوبة.',
+        type: 'success',
+        key: 'sent',
       });
-      setTimeout(() => setStatus(null), 2500);
       return;
     }
 
-    setStatus({
-      type: 'info',
-      text: language === 'en' ? 'Opening your email app…' : 'يتم فتح تطبيق البريد…',
+    result.issues?.forEach((issue) => {
+      if (issue.path in emptyForm) {
+        form.setError(issue.path as keyof InquiryFields, { message: issue.message }, { shouldFocus: true });
+      }
     });
+    setStatus({ type: 'error', key: result.error });
+  };
 
-    const subject = encodeURIComponent(formData.subject || 'Design Project Inquiry');
-    const body = encodeURIComponent(`
-Name: ${formData.name}
-Email: ${formData.email}
-
-Message:
-${formData.message}
-    `);
-    
-    const mailtoLink = `mailto:${CONTACT_EMAIL}?subject=${subject}&body=${body}`;
-    window.location.href = mailtoLink;
-
-    // Show success briefly
-    setTimeout(() => {
-      setStatus({
-        type: 'success',
-        text: language === 'en' ? 'Email draft opened. I will get back to you soon!' : 'تم فتح مسودة البريد. سأعاود الاتصال بك قريبًا!',
-      });
-      setTimeout(() => setStatus(null), 2500);
-    }, 800);
+  /**
+   * Invalid submit: errors are shown per field; the first invalid field receives focus
+   */
+  const handleInvalid = () => {
+    setStatus({
+      type: 'error',
+      key: 'fixFields',
+    });
   };
 
   const contactInfo = [
     {
       icon: Mail,
-      title: { en: 'Email', ar: 'البريد الإلكتروني' },
+      title: t('info.email'),
       value: CONTACT_EMAIL,
       link: `mailto:${CONTACT_EMAIL}`,
     },
     {
       icon: Phone,
-      title: { en: 'Phone', ar: 'الهاتف' },
+      title: t('info.phone'),
       value: '+966 504487308',
       link: 'tel:+966504487308',
     },
     {
       icon: MapPin,
-      title: { en: 'Location', ar: 'الموقع' },
+      title: t('info.location'),
       value: 'Al-Madina, Saudi Arabia',
       link: null,
     },
     {
       icon: MessageSquare,
-      title: { en: 'WhatsApp', ar: 'واتساب' },
-      value: { en: 'Quick Chat', ar: 'محادثة سريعة' },
+      title: t('info.whatsapp'),
+      value: t('info.quickChat'),
       link: 'https://wa.me/+966504487308',
     },
   ];
@@ -138,26 +151,37 @@ ${formData.message}
 
   return (
     <div className="py-20">
+      <SEO title={t('title')} description={t('subtitle')} path="/contact" setTitle />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Header */}
         <div className="text-center space-y-4 mb-16">
           <h1 className="text-5xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">
-            {t('contactTitle')}
+            {t('title')}
           </h1>
           <p className="text-xl text-[#9c7860] dark:text-[#d9cab1]/80 max-w-3xl mx-auto">
-            {t('contactSubtitle')}
+            {t('subtitle')}
           </p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
           {/* Contact Form */}
           <div className="bg-white dark:bg-[#2d2d2d] rounded-2xl p-8 shadow-lg">
-            <h2 className="text-2xl font-bold text-[#8f1819] dark:text-[#bd7b6a] mb-6">
-              {language === 'en' ? 'Send me a message' : 'أرسل لي رسالة'}
+            <h2 className="text-2xl font-bold text-[#8f1819] dark:text-[#bd7b6a] mb-2">
+              {t('formTitle')}
             </h2>
+            <p className="text-sm text-[#9c7860] dark:text-[#d9cab1]/80 mb-6">
+              {t('briefPrompt')}
+              <Link to={localizePath('/brief', language)} className="font-medium text-[#8f1819] dark:text-[#bd7b6a] hover:underline">
+                {t('briefLink')}
+              </Link>
+            </p>
 
             {/* Animated status */}
-            <div className={`overflow-hidden transition-all duration-300 ${status ? 'max-h-24 mb-4' : 'max-h-0 mb-0'}`}>
+            <div
+              role="status"
+              aria-live="polite"
+              className={`overflow-hidden transition-all duration-300 ${status ? 'max-h-24 mb-4' : 'max-h-0 mb-0'}`}
+            >
               {status && (
                 <div
                   className={`flex items-center gap-2 rounded-xl px-4 py-3 ${
@@ -167,85 +191,152 @@ ${formData.message}
                   }`}
                 >
                   {status.type === 'success' ? <CheckCircle2 className="w-5 h-5" /> : status.type === 'error' ? <AlertCircle className="w-5 h-5" /> : <Send className="w-5 h-5" />}
-                  <span className="text-sm">{status.text}</span>
+                  <span className="text-sm">{t(`status.${status.key}`)}</span>
                 </div>
               )}
             </div>
             
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <label className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
-                    {t('name')} *
-                  </label>
-                  <Input
-                    type="text"
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)} noValidate className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
                     name="name"
-                    value={formData.name}
-                    onChange={handleInputChange}
-                    required
-                    placeholder={language === 'en' ? 'Your name' : 'اسمك'}
-                    className="border-[#d9cab1] dark:border-[#9c7860] focus:border-[#8f1819] dark:focus:border-[#bd7b6a] focus:ring-2 focus:ring-[#8f1819]/20 dark:focus:ring-[#bd7b6a]/20 transition-shadow"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
+                          {t('name')} *
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="text"
+                            autoComplete="name"
+                            aria-required="true"
+                            maxLength={INQUIRY_LIMITS.name}
+                            placeholder={t('namePlaceholder')}
+                            className={fieldClass}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FieldError max={INQUIRY_LIMITS.name} />
+                      </FormItem>
+                    )}
                   />
-                </div>
-                
-                <div>
-                  <label className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
-                    {t('email')} *
-                  </label>
-                  <Input
-                    type="email"
+
+                  <FormField
+                    control={form.control}
                     name="email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    required
-                    placeholder={language === 'en' ? 'your.email@example.com' : 'your.email@example.com'}
-                    className="border-[#d9cab1] dark:border-[#9c7860] focus:border-[#8f1819] dark:focus:border-[#bd7b6a] focus:ring-2 focus:ring-[#8f1819]/20 dark:focus:ring-[#bd7b6a]/20 transition-shadow"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
+                          {t('email')} *
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="email"
+                            autoComplete="email"
+                            dir="ltr"
+                            aria-required="true"
+                            maxLength={INQUIRY_LIMITS.email}
+                            placeholder="your.email@example.com"
+                            className={fieldClass}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FieldError max={INQUIRY_LIMITS.email} />
+                      </FormItem>
+                    )}
                   />
                 </div>
-              </div>
 
-              <div>
-                <label className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
-                  {language === 'en' ? 'Subject' : 'الموضوع'}
-                </label>
-                <Input
-                  type="text"
-                  name="subject"
-                  value={formData.subject}
-                  onChange={handleInputChange}
-                  placeholder={language === 'en' ? 'Project inquiry' : 'استفسار عن مشروع'}
-                  className="border-[#d9cab1] dark:border-[#9c7860] focus:border-[#8f1819] dark:focus:border-[#bd7b6a] focus:ring-2 focus:ring-[#8f1819]/20 dark:focus:ring-[#bd7b6a]/20 transition-shadow"
-                />
-              </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
+                          {t('phone')}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="tel"
+                            autoComplete="tel"
+                            inputMode="tel"
+                            dir="ltr"
+                            maxLength={INQUIRY_LIMITS.phone}
+                            placeholder="+966 5X XXX XXXX"
+                            className={fieldClass}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FieldError max={INQUIRY_LIMITS.phone} />
+                      </FormItem>
+                    )}
+                  />
 
-              <div>
-                <label className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
-                  {t('message')} *
-                </label>
-                <Textarea
+                  <FormField
+                    control={form.control}
+                    name="subject"
+                    render={({ field }) => (
+                      <FormItem className="space-y-0">
+                        <FormLabel className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
+                          {t('subject')}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="text"
+                            maxLength={INQUIRY_LIMITS.subject}
+                            placeholder={t('subjectPlaceholder')}
+                            className={fieldClass}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FieldError max={INQUIRY_LIMITS.subject} />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
                   name="message"
-                  value={formData.message}
-                  onChange={handleInputChange}
-                  required
-                  rows={6}
-                  placeholder={language === 'en' 
-                    ? 'Tell me about your project, timeline, and budget...' 
-                    : 'أخبرني عن مشروعك والجدول الزمني والميزانية...'
-                  }
-                  className="border-[#d9cab1] dark:border-[#9c7860] focus:border-[#8f1819] dark:focus:border-[#bd7b6a] focus:ring-2 focus:ring-[#8f1819]/20 dark:focus:ring-[#bd7b6a]/20 resize-none transition-shadow"
+                  render={({ field }) => (
+                    <FormItem className="space-y-0">
+                      <FormLabel className="block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-2">
+                        {t('message')} *
+                      </FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={6}
+                          aria-required="true"
+                          maxLength={INQUIRY_LIMITS.message}
+                          placeholder={t('messagePlaceholder')}
+                          className={`${fieldClass} resize-none`}
+                          {...field}
+                        />
+                      </FormControl>
+                      <div className="flex items-start justify-between gap-4">
+                        <FieldError max={INQUIRY_LIMITS.message} />
+                        <span className="mt-1 ltr:ml-auto rtl:mr-auto text-xs text-[#9c7860] dark:text-[#d9cab1]/60" dir="ltr">
+                          {field.value.length}/{INQUIRY_LIMITS.message}
+                        </span>
+                      </div>
+                    </FormItem>
+                  )}
                 />
-              </div>
 
-              <Button
-                type="submit"
-                size="lg"
-                className="w-full bg-[#8f1819] hover:bg-[#bd7b6a] text-white active:brightness-95 transition-all duration-300 ease-in-out"
-              >
-                <Send className={`h-5 w-5 ${language === 'ar' ? 'mr-2' : 'mr-2'}`} />
-                {t('sendMessage')}
-              </Button>
-            </form>
+                <Button
+                  type="submit"
+                  size="lg"
+                  disabled={submitting}
+                  className="w-full bg-[#8f1819] hover:bg-[#bd7b6a] text-white active:brightness-95 transition-all duration-300 ease-in-out"
+                >
+                  <Send className={`h-5 w-5 ${language === 'ar' ? 'mr-2' : 'mr-2'}`} />
+                  {t('sendMessage')}
+                </Button>
+              </form>
+            </Form>
           </div>
 
           {/* Contact Information */}
@@ -265,7 +356,7 @@ ${formData.message}
                       </div>
                       <div className="flex-1 min-w-0">
                         <h3 className="text-lg font-semibold text-[#8f1819] dark:text-[#bd7b6a] mb-2">
-                          {info.title[language]}
+                          {info.title}
                         </h3>
                         {info.link ? (
                           <a
@@ -274,7 +365,7 @@ ${formData.message}
                             target={info.link.startsWith('http') ? '_blank' : '_self'}
                             rel={info.link.startsWith('http') ? 'noopener noreferrer' : ''}
                           >
-                            {typeof info.value === 'string' ? info.value : info.value[language]}
+                            {info.value}
                           </a>
                         ) : (
                           <span className="text-[#9c7860] dark:text-[#d9cab1]/80">
@@ -298,26 +389,23 @@ ${formData.message}
                 />
               </div>
               <h3 className="text-xl font-bold text-[#8f1819] dark:text-[#bd7b6a] mb-2">
-                {t('title')}
+                {tc('title')}
               </h3>
               <p className="text-[#9c7860] dark:text-[#d9cab1]/80 mb-6">
-                {t('subtitle')}
+                {tc('subtitle')}
               </p>
               
               {/* Response Time */}
               <div className="bg-[#d9cab1] dark:bg-[#1a1a1a] rounded-xl p-4 mb-6">
                 <p className="text-sm text-[#8f1819] dark:text-[#bd7b6a] font-medium">
-                  {language === 'en' 
-                    ? '⚡ Usually responds within 2 hours' 
-                    : '⚡ يرد عادة خلال ساعتين'
-                  }
+                  {t('responseTime')}
                 </p>
               </div>
 
               {/* Social Media Links */}
               <div className="space-y-4">
                 <h4 className="text-lg font-semibold text-[#8f1819] dark:text-[#bd7b6a]">
-                  {t('followMe')}
+                  {tc('followMe')}
                 </h4>
                 <div className="flex justify-center space-x-4 rtl:space-x-reverse">
                   {socialLinks.map((social) => {
@@ -352,7 +440,7 @@ ${formData.message}
                   rel="noopener noreferrer"
                 >
                   <MessageSquare className={`h-5 w-5 ${language === 'ar' ? 'mr-2' : 'mr-2'}`} />
-                  {language === 'en' ? 'WhatsApp' : 'واتساب'}
+                  {t('whatsapp')}
                 </a>
               </Button>
               
@@ -364,7 +452,7 @@ ${formData.message}
               >
                 <a href="tel:+966504487308">
                   <Phone className={`h-5 w-5 ${language === 'ar' ? 'mr-2' : 'mr-2'}`} />
-                  {language === 'en' ? 'Call Now' : 'اتصل الآن'}
+                  {t('callNow')}
                 </a>
               </Button>
             </div>
@@ -374,32 +462,26 @@ ${formData.message}
         {/* FAQ Section */}
         <div className="mt-20 bg-white dark:bg-[#2d2d2d] rounded-2xl p-12 shadow-lg">
           <h2 className="text-3xl font-bold text-[#8f1819] dark:text-[#bd7b6a] text-center mb-12">
-            {language === 'en' ? 'Frequently Asked Questions' : 'الأسئلة الشائعة'}
+            {t('faqTitle')}
           </h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div className="space-y-6">
               <div>
                 <h3 className="text-lg font-semibold text-[#8f1819] dark:text-[#bd7b6a] mb-2">
-                  {language === 'en' ? "What's your typical turnaround time?" : 'ما هو الوقت المعتاد للتسليم؟'}
+                  {t('faq.turnaround.question')}
                 </h3>
                 <p className="text-[#9c7860] dark:text-[#d9cab1]/80">
-                  {language === 'en' 
-                    ? 'Logo design: 3-5 days, Brand identity: 1-2 weeks, Complex projects: 2-4 weeks. Rush orders available.'
-                    : 'تصميم الشعار: 3-5 أيام، الهوية التجارية: 1-2 أسبوع، المشاريع المعقدة: 2-4 أسابيع. طلبات عاجلة متاحة.'
-                  }
+                  {t('faq.turnaround.answer')}
                 </p>
               </div>
               
               <div>
                 <h3 className="text-lg font-semibold text-[#8f1819] dark:text-[#bd7b6a] mb-2">
-                  {language === 'en' ? 'Do you offer revisions?' : 'هل تقدم تعديلات؟'}
+                  {t('faq.revisions.question')}
                 </h3>
                 <p className="text-[#9c7860] dark:text-[#d9cab1]/80">
-                  {language === 'en' 
-                    ? "Yes! I offer unlimited revisions until you're 100% satisfied with the final design."
-                    : 'نعم! أقدم تعديلات غير محدودة حتى تكون راضياً بنسبة 100% عن التصميم النهائي.'
-                  }
+                  {t('faq.revisions.answer')}
                 </p>
               </div>
             </div>
@@ -407,25 +489,19 @@ ${formData.message}
             <div className="space-y-6">
               <div>
                 <h3 className="text-lg font-semibold text-[#8f1819] dark:text-[#bd7b6a] mb-2">
-                  {language === 'en' ? 'What file formats do you provide?' : 'ما هي تنسيقات الملفات التي تقدمها؟'}
+                  {t('faq.formats.question')}
                 </h3>
                 <p className="text-[#9c7860] dark:text-[#d9cab1]/80">
-                  {language === 'en' 
-                    ? 'All projects include vector files (AI, EPS), high-res raster files (PNG, JPG), and web-optimized versions.'
-                    : 'جميع المشاريع تشمل ملفات فيكتور (AI, EPS)، ملفات عالية الدقة (PNG, JPG)، وإصدارات محسنة للويب.'
-                  }
+                  {t('faq.formats.answer')}
                 </p>
               </div>
               
               <div>
                 <h3 className="text-lg font-semibold text-[#8f1819] dark:text-[#bd7b6a] mb-2">
-                  {language === 'en' ? 'How do we communicate during the project?' : 'كيف نتواصل أثناء المشروع؟'}
+                  {t('faq.communication.question')}
                 </h3>
                 <p className="text-[#9c7860] dark:text-[#d9cab1]/80">
-                  {language === 'en' 
-                    ? 'Primary communication via WhatsApp and email. Regular updates and progress sharing throughout the project.'
-                    : 'التواصل الأساسي عبر واتساب والبريد الإلكتروني. تحديثات منتظمة ومشاركة التقدم خلال المشروع.'
-                  }
+                  {t('faq.communication.answer')}
                 </p>
               </div>
             </div>
@@ -11,38 +11,41 @@ import { Link } from 'react-router';
 import { ArrowRight, Star, Users, Award, Briefcase } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { useTheme } from '../contexts/ThemeContext';
-import { useTranslation } from '../utils/translations';
+import { useTranslation } from '../i18n';
 import { useInView } from '../hooks/useInView';
 import Parallax from '../components/Parallax';
 import WhatsAppIcon from '../components/icons/WhatsAppIcon';
 import Testimonials from '../components/Testimonials';
 import SEO from '../components/SEO';
+import StructuredData from '../components/StructuredData';
+import { personSchema, professionalServiceSchema } from '../lib/structuredData';
+import { localizePath } from '../utils/routes';
+import { localize } from '../utils/localize';
+import { getProjectThumbnail, projects } from '../data/projects';
+import ResponsiveImage from '../components/ResponsiveImage';
+import { getMediaAlt } from '../components/ProjectMedia';
+
+/** Brand logo shown in the hero */
+const brandLogo =
+  'https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/2f8833bb-848a-4376-9d94-4e9992a5b2b2.png';
 
 const HomePage: React.FC = () => {
   const { language } = useTheme();
-  const { t } = useTranslation(language);
+  const { t } = useTranslation('home');
+  const { t: tc } = useTranslation('common');
 
   // Stats (Awards removed as requested)
   const stats = [
-    { icon: Briefcase, value: '9+', label: language === 'en' ? 'Years Experience' : 'سنوات خبرة' },
-    { icon: Users, value: '200+', label: language === 'en' ? 'Happy Clients' : 'عميل سعيد' },
-    { icon: Star, value: '500+', label: language === 'en' ? 'Projects Completed' : 'مشروع مكتمل' },
+    { icon: Briefcase, value: '9+', label: t('stats.years') },
+    { icon: Users, value: '200+', label: t('stats.clients') },
+    { icon: Star, value: '500+', label: t('stats.projects') },
   ];
 
-  const featuredProjects = [
-    {
-      id: 1,
-      image: 'https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/160a3f0c-bc9c-4a75-8e33-245300003eda.jpg',
-    },
-    {
-      id: 2,
-      image: 'https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/4f105e41-42fd-4247-9128-198f8887e857.jpg',
-    },
-    {
-      id: 3,
-      image: 'https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/45b52b6a-1af8-4ba9-9528-8ec3e506eb17.jpg',
-    },
-  ];
+  // Latest work: featured projects, newest first
+  const featuredProjects = projects
+    .filter((project) => project.featured)
+    .sort((a, b) => b.year - a.year)
+    .slice(0, 3);
 
   // Staggered reveals
   const heroText = useInView({ threshold: 0.15, once: true });
@@ -53,13 +56,13 @@ const HomePage: React.FC = () => {
     <>
       {/* Per-page SEO and Open Graph tags (does not override tab title) */}
       <SEO
-        title="Eng.EmadAlddine"
+        title={tc('title')}
         description={t('heroSubtitle')}
-        image={brandLogo}
-        url="https://emadalddine.com/"
+        path="/"
         type="website"
         setTitle={false}
       />
+      <StructuredData nodes={[personSchema(language, tc), professionalServiceSchema(language, tc)]} />
 
       <div className="overflow-hidden">
         {/* Hero Section */}
@@ -76,7 +79,7 @@ const HomePage: React.FC = () => {
                   <div className="flex items-center gap-3 sm:gap-4">
                     <img
                       src={brandLogo}
-                      alt="Brand Logo"
+                      alt={t('brandLogoAlt')}
                       className="h-12 w-auto sm:h-14 object-contain drop-shadow-md"
                       loading="eager"
                     />
@@ -99,13 +102,13 @@ const HomePage: React.FC = () => {
                   className={`flex flex-col sm:flex-row gap-4 transition-all duration-500 delay-100 ${heroActions.inView ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-6'}`}
                 >
                   <Button asChild size="lg" className="bg-[#8f1819] hover:bg-[#bd7b6a] text-white active:brightness-95 transition-all duration-300 ease-in-out">
-                    <Link to="/portfolio">
+                    <Link to={localizePath('/portfolio', language)}>
                       {t('seeMyWork')}
                       <ArrowRight className={`h-5 w-5 ${language === 'ar' ? 'mr-2 rotate-180' : 'ml-2'}`} />
                     </Link>
                   </Button>
                   <Button asChild variant="outline" size="lg" className="border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent active:brightness-95 transition-all duration-300 ease-in-out">
-                    <Link to="/contact">
+                    <Link to={localizePath('/contact', language)}>
                       {t('hireMe')}
                     </Link>
                   </Button>
@@ -144,7 +147,7 @@ const HomePage: React.FC = () => {
                   <div className="absolute inset-8 rounded-full overflow-hidden border-4 border-white dark:border-[#2d2d2d] shadow-2xl">
                     <img
                       src="https://pub-cdn.sider.ai/u/U0AWH647XGE/web-coder/68867f69f2d3a0ac8dcde35e/resource/855be7ed-4b6e-432c-8175-95813175c674.jpg"
-                      alt="Profile"
+                      alt={t('profileAlt')}
                       className="w-full h-full object-cover"
                     />
                   </div>
@@ -167,23 +170,25 @@ const HomePage: React.FC = () => {
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
             <div className="text-center space-y-4 mb-16">
               <h2 className="text-4xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">
-                {language === 'en' ? 'Lates Work' : 'آخر الأعمال'}
+                {t('latestWorkTitle')}
               </h2>
               <p className="text-xl text-[#9c7860] dark:text-[#d9cab1]/80 max-w-2xl mx-auto">
-                {language === 'en' 
-                  ? 'A showcase of my recent creative projects and design solutions'
-                  : 'عرض لأحدث مشاريعي الإبداعية وحلول التصميم'
-                }
+                {t('latestWorkSubtitle')}
               </p>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
               {featuredProjects.map((project) => (
-                <div key={project.id} className="group relative overflow-hidden rounded-2xl shadow-lg hover:shadow-2xl transition-all duration-300 transform hover:scale-105">
+                <Link
+                  key={project.id}
+                  to={localizePath(`/portfolio/${project.id}`, language)}
+                  className="group relative block overflow-hidden rounded-2xl shadow-lg hover:shadow-2xl transition-all duration-300 transform hover:scale-105"
+                >
                   <div className="aspect-[4/3] overflow-hidden">
-                    <img
-                      src={project.image}
-                      alt={project.title}
+                    <ResponsiveImage
+                      src={getProjectThumbnail(project)}
+                      sizes="(min-width: 1280px) 395px, (min-width: 1024px) 30vw, (min-width: 768px) 45vw, 92vw"
+                      alt={getMediaAlt(project.media[0], language, localize(project.title, language))}
                       className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
                     />
                   </div>
@@ -191,21 +196,21 @@ const HomePage: React.FC = () => {
                   <div className="absolute bottom-0 left-0 right-0 p-6 text-white transform translate-y-6 group-hover:translate-y-0 transition-transform duration-300">
                     <div className="space-y-2">
                       <span className="text-sm font-medium text-[#bd7b6a]">
-                        {project.category}
+                        {tc(`category.${project.category}`)}
                       </span>
                       <h3 className="text-lg font-bold">
-                        {project.title}
+                        {localize(project.title, language)}
                       </h3>
                     </div>
                   </div>
-                </div>
+                </Link>
               ))}
             </div>
 
             <div className="text-center mt-12">
               <Button asChild size="lg" className="bg-[#8f1819] hover:bg-[#bd7b6a] text-white active:brightness-95 transition-all duration-300 ease-in-out">
-                <Link to="/portfolio">
-                  {language === 'en' ? 'View All Projects' : 'عرض جميع المشاريع'}
+                <Link to={localizePath('/portfolio', language)}>
+                  {t('viewAllProjects')}
                   <ArrowRight className={`h-5 w-5 ${language === 'ar' ? 'mr-2 rotate-180' : 'ml-2'}`} />
                 </Link>
               </Button>
@@ -220,24 +225,21 @@ const HomePage: React.FC = () => {
         <section className="py-20 bg-[#a76552] dark:bg-[#1a1a1a] text-white">
           <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center space-y-8">
             <h2 className="text-4xl font-bold">
-              {language === 'en' ? 'Ready to Start Your Project?' : 'جاهز لبدء مشروعك؟'}
+              {t('ctaTitle')}
             </h2>
             <p className="text-xl opacity-90 max-w-2xl mx-auto">
-              {language === 'en' 
-                ? "Let's work together to create something amazing. Contact me today to discuss your design needs."
-                : 'دعنا نعمل معاً لإنشاء شيء مذهل. تواصل معي اليوم لمناقشة احتياجات التصميم الخاصة بك.'
-              }
+              {t('ctaText')}
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <Button asChild size="lg" variant="outline" className="border-white text-white hover:bg-white hover:text-[#a76552] bg-transparent active:brightness-95 transition-all duration-300 ease-in-out">
-                <Link to="/contact">
-                  {t('contact')}
+                <Link to={localizePath('/contact', language)}>
+                  {tc('contact')}
                 </Link>
               </Button>
               <Button asChild size="lg" variant="outline" className="border-white text-white hover:bg-white hover:text-[#a76552] bg-transparent active:brightness-95 transition-all duration-300 ease-in-out">
                 <a href="https://wa.me/+966504487308" target="_blank" rel="noopener noreferrer" className="inline-flex items-center">
                   <WhatsAppIcon className={`h-5 w-5 ${language === 'ar' ? 'ml-2' : 'mr-2'}`} />
-                  {language === 'en' ? 'WhatsApp' : 'واتساب'}
+                  {t('whatsapp')}
                 </a>
               </Button>
             </div>
@@ -0,0 +1,330 @@
+/**
+ * Invoice / quotation generator page
+ * Builds a quotation or tax invoice from the service catalog (with packages and add-ons),
+ * client details and a document number, and prints it as an A4 PDF through the browser.
+ * A quote selection in the query string (same format as /quote) prefills the line items.
+ * Only the document is printed; the editor and site chrome are hidden.
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router';
+import { Helmet } from 'react-helmet-async';
+import { AlertCircle, ArrowLeft, Printer } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import { Switch } from '../components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import InvoiceDocument from '../components/InvoiceDocument';
+import { useTheme } from '../contexts/ThemeContext';
+import { usePackagePreview } from '../contexts/PackagePreviewContext';
+import { useTranslation } from '../i18n';
+import { hasPackages, type ServiceId } from '../data/services';
+import { localizePath } from '../utils/routes';
+import {
+  ADD_ONS,
+  MAX_QUANTITY,
+  calculateQuote,
+  clampQuantity,
+  emptySelection,
+  isTierId,
+  parseSelection,
+  type QuoteSelection,
+} from '../lib/quote';
+import {
+  DOCUMENT_KINDS,
+  DUE_DAYS,
+  addDays,
+  canIssue,
+  commitDocumentNumber,
+  emptyClient,
+  peekDocumentNumber,
+  requiresVat,
+  toIsoDate,
+  type ClientDetails,
+  type DocumentKind,
+  type DocumentMeta,
+} from '../lib/invoice';
+
+const labelClass = 'block text-sm font-medium text-[#9c7860] dark:text-[#d9cab1] mb-1';
+const fieldClass =
+  'border-[#d9cab1] dark:border-[#9c7860] focus:border-[#8f1819] dark:focus:border-[#bd7b6a] focus:ring-2 focus:ring-[#8f1819]/20 dark:focus:ring-[#bd7b6a]/20 transition-shadow';
+const panelClass = 'bg-white dark:bg-[#2d2d2d] rounded-2xl p-6 shadow-lg space-y-4';
+const panelTitleClass = 'text-lg font-bold text-[#8f1819] dark:text-[#bd7b6a]';
+
+/** Client fields in editor order */
+const clientFields: Array<{ key: keyof ClientDetails; multiline?: boolean; ltr?: boolean }> = [
+  { key: 'name' },
+  { key: 'company' },
+  { key: 'vatNumber', ltr: true },
+  { key: 'address', multiline: true },
+  { key: 'email', ltr: true },
+  { key: 'phone', ltr: true },
+];
+
+const InvoicePage: React.FC = () => {
+  const { language } = useTheme();
+  const { t } = useTranslation('invoice');
+  const { t: tq } = useTranslation('quote');
+  const { t: tc } = useTranslation('common');
+  const { services } = usePackagePreview();
+  const [searchParams] = useSearchParams();
+  const [selection, setSelection] = useState<QuoteSelection>(emptySelection);
+  const [client, setClient] = useState<ClientDetails>(emptyClient);
+  // Number and dates depend on the browser (local counter, today) and the selection on the query string,
+  // which the prerendered page does not have, so they are filled in after mount
+  const [meta, setMeta] = useState<DocumentMeta>({ kind: 'quotation', number: '', issueDate: '', dueDate: '', notes: '' });
+  // Tax invoices always charge VAT, whatever the quote link or the switch says
+  const vatForced = requiresVat(meta.kind);
+  const quote = useMemo(
+    () => calculateQuote({ ...selection, includeVat: selection.includeVat || vatForced }, services),
+    [selection, vatForced, services]
+  );
+
+  useEffect(() => {
+    setSelection(parseSelection(searchParams));
+    const today = toIsoDate(new Date());
+    setMeta((prev) => ({
+      ...prev,
+      number: peekDocumentNumber(prev.kind),
+      issueDate: today,
+      dueDate: addDays(today, DUE_DAYS[prev.kind]),
+    }));
+  }, []);
+
+  const setKind = (kind: DocumentKind) =>
+    setMeta((prev) => ({
+      ...prev,
+      kind,
+      number: peekDocumentNumber(kind),
+      dueDate: prev.issueDate ? addDays(prev.issueDate, DUE_DAYS[kind]) : prev.dueDate,
+    }));
+
+  const setServiceQuantity = (id: ServiceId, quantity: number) =>
+    setSelection((prev) => ({ ...prev, services: { ...prev.services, [id]: clampQuantity(quantity) } }));
+
+  const setServiceTier = (id: ServiceId, tier: string) => {
+    if (isTierId(tier)) setSelection((prev) => ({ ...prev, tiers: { ...prev.tiers, [id]: tier } }));
+  };
+
+  const setAddOnQuantity = (id: string, quantity: number) =>
+    setSelection((prev) => ({ ...prev, addOns: { ...prev.addOns, [id]: clampQuantity(quantity) } }));
+
+  const handlePrint = () => {
+    commitDocumentNumber(meta.kind, meta.number);
+    window.print();
+  };
+
+  return (
+    <div className="py-12 print:py-0">
+      <Helmet>
+        <title>{`${t(`kind.${meta.kind}`)} ${meta.number}`.trim()} — Eng.EmadAlddine</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 print:px-0 print:max-w-none">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6 print:hidden">
+          <Link
+            to={localizePath('/services', language)}
+            className="inline-flex items-center gap-2 text-sm font-medium text-[#8f1819] dark:text-[#bd7b6a] hover:underline"
+          >
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+            {t('backToServices')}
+          </Link>
+          <Button onClick={handlePrint} disabled={quote.lines.length === 0} className="bg-[#8f1819] hover:bg-[#bd7b6a] text-white">
+            <Printer className="h-4 w-4 ltr:mr-2 rtl:ml-2" />
+            {t('print')}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-[380px_1fr] gap-8 items-start print:block">
+          {/* Editor */}
+          <div className="space-y-6 print:hidden">
+            <section className={panelClass} aria-labelledby="invoice-document-title">
+              <h2 id="invoice-document-title" className={panelTitleClass}>{t('documentTitle')}</h2>
+              <div className="grid grid-cols-2 gap-2" role="group" aria-label={t('documentType')}>
+                {DOCUMENT_KINDS.map((kind) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => setKind(kind)}
+                    disabled={!canIssue(kind)}
+                    aria-pressed={meta.kind === kind}
+                    className={`rounded-lg px-3 py-2 text-sm font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      meta.kind === kind
+                        ? 'bg-[#8f1819] dark:bg-[#bd7b6a] border-transparent text-white'
+                        : 'border-[#d9cab1] dark:border-[#9c7860]/40 text-[#9c7860] dark:text-[#d9cab1] enabled:hover:border-[#8f1819] dark:enabled:hover:border-[#bd7b6a]'
+                    }`}
+                  >
+                    {t(`kind.${kind}`)}
+                  </button>
+                ))}
+              </div>
+              {!canIssue('invoice') && (
+                <p role="note" className="flex items-start gap-2 rounded-lg bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200 px-3 py-2 text-xs">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  {t('taxInvoiceUnavailable')}
+                </p>
+              )}
+              <div>
+                <label htmlFor="invoice-number" className={labelClass}>{t('number')}</label>
+                <Input
+                  id="invoice-number"
+                  dir="ltr"
+                  value={meta.number}
+                  onChange={(e) => setMeta((prev) => ({ ...prev, number: e.target.value }))}
+                  className={fieldClass}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="invoice-issue-date" className={labelClass}>{t('issueDate')}</label>
+                  <Input
+                    id="invoice-issue-date"
+                    type="date"
+                    value={meta.issueDate}
+                    onChange={(e) => setMeta((prev) => ({ ...prev, issueDate: e.target.value }))}
+                    className={fieldClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="invoice-due-date" className={labelClass}>
+                    {meta.kind === 'invoice' ? t('dueDate') : t('validUntil')}
+                  </label>
+                  <Input
+                    id="invoice-due-date"
+                    type="date"
+                    value={meta.dueDate}
+                    onChange={(e) => setMeta((prev) => ({ ...prev, dueDate: e.target.value }))}
+                    className={fieldClass}
+                  />
+                </div>
+              </div>
+            </section>
+
+            <section className={panelClass} aria-labelledby="invoice-client-title">
+              <h2 id="invoice-client-title" className={panelTitleClass}>{t('clientTitle')}</h2>
+              {clientFields.map((field) => (
+                <div key={field.key}>
+                  <label htmlFor={`invoice-client-${field.key}`} className={labelClass}>{t(`client.${field.key}`)}</label>
+                  {field.multiline ? (
+                    <Textarea
+                      id={`invoice-client-${field.key}`}
+                      rows={2}
+                      value={client[field.key]}
+                      onChange={(e) => setClient((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                      className={fieldClass}
+                    />
+                  ) : (
+                    <Input
+                      id={`invoice-client-${field.key}`}
+                      dir={field.ltr ? 'ltr' : undefined}
+                      value={client[field.key]}
+                      onChange={(e) => setClient((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                      className={fieldClass}
+                    />
+                  )}
+                </div>
+              ))}
+            </section>
+
+            <section className={panelClass} aria-labelledby="invoice-items-title">
+              <h2 id="invoice-items-title" className={panelTitleClass}>{t('items')}</h2>
+              <ul className="space-y-3">
+                {services.map((service) => (
+                  <li key={service.id} className="grid grid-cols-[1fr_auto_auto] items-center gap-2">
+                    <span className="text-sm font-medium truncate">{service.title[language]}</span>
+                    {hasPackages(service) ? (
+                      <Select value={selection.tiers[service.id] ?? 'basic'} onValueChange={(value) => setServiceTier(service.id, value)}>
+                        <SelectTrigger
+                          className="w-28 h-9 border-[#d9cab1] dark:border-[#9c7860]/40 bg-transparent text-sm"
+                          aria-label={t('servicePackage', { service: service.title[language] })}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {service.tiers.map((tier) => (
+                            <SelectItem key={tier.id} value={tier.id}>
+                              {tc(`tier.${tier.id}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span />
+                    )}
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_QUANTITY}
+                      value={selection.services[service.id] ?? 0}
+                      onChange={(e) => setServiceQuantity(service.id, Number(e.target.value))}
+                      aria-label={t('serviceQuantity', { service: service.title[language] })}
+                      className={`w-16 h-9 ${fieldClass}`}
+                    />
+                  </li>
+                ))}
+              </ul>
+              <h3 className="text-sm font-semibold text-[#9c7860] dark:text-[#d9cab1]/80 pt-2">{t('addOns')}</h3>
+              <ul className="space-y-3">
+                {ADD_ONS.map((addOn) => (
+                  <li key={addOn.id} className="flex items-center justify-between gap-2">
+                    <label htmlFor={`invoice-addon-${addOn.id}`} className="text-sm">{tq(`addOn.${addOn.id}.label`)}</label>
+                    {addOn.hasQuantity ? (
+                      <Input
+                        id={`invoice-addon-${addOn.id}`}
+                        type="number"
+                        min={0}
+                        max={MAX_QUANTITY}
+                        value={selection.addOns[addOn.id] ?? 0}
+                        onChange={(e) => setAddOnQuantity(addOn.id, Number(e.target.value))}
+                        className={`w-16 h-9 ${fieldClass}`}
+                      />
+                    ) : (
+                      <Switch
+                        id={`invoice-addon-${addOn.id}`}
+                        checked={(selection.addOns[addOn.id] ?? 0) > 0}
+                        onCheckedChange={(checked) => setAddOnQuantity(addOn.id, checked ? 1 : 0)}
+                        className="data-[state=checked]:bg-[#8f1819] dark:data-[state=checked]:bg-[#bd7b6a]"
+                      />
+                    )}
+                  </li>
+                ))}
+                <li className="flex items-center justify-between gap-2 pt-2 border-t border-[#d9cab1] dark:border-[#9c7860]/20">
+                  <label htmlFor="invoice-vat" className="text-sm font-medium">
+                    {t('chargeVat')}
+                    {vatForced && <span className="block text-xs font-normal text-[#9c7860] dark:text-[#d9cab1]/80">{t('vatRequired')}</span>}
+                  </label>
+                  <Switch
+                    id="invoice-vat"
+                    checked={quote.includeVat}
+                    disabled={vatForced}
+                    onCheckedChange={(checked) => setSelection((prev) => ({ ...prev, includeVat: checked }))}
+                    className="data-[state=checked]:bg-[#8f1819] dark:data-[state=checked]:bg-[#bd7b6a]"
+                  />
+                </li>
+              </ul>
+            </section>
+
+            <section className={panelClass} aria-labelledby="invoice-notes-title">
+              <h2 id="invoice-notes-title" className={panelTitleClass}>{t('notesTitle')}</h2>
+              <Textarea
+                aria-labelledby="invoice-notes-title"
+                rows={3}
+                value={meta.notes}
+                onChange={(e) => setMeta((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder={t('notesPlaceholder')}
+                className={fieldClass}
+              />
+            </section>
+          </div>
+
+          {/* Document preview (the only thing printed) */}
+          <InvoiceDocument meta={meta} client={client} quote={quote} language={language} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoicePage;
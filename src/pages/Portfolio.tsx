@@ -2,61 +2,109 @@
  * Portfolio page with per-project carousels
  * Each project card shows a swipeable/arrow-controlled preview slider
  * - Header and grid reveal animations
- * - Load More paging: show 9 initially, reveal more in steps of 9
+ * - Combined category / tag / year filters and sort order, kept in the query string
+ *   so filtered views can be shared and back/forward restores them (applied after mount, since the
+ *   prerendered page is the unfiltered grid)
+ * - Load More paging: show 9 initially, reveal more in steps of 9 (also kept in the URL)
  */
-import React, { useEffect, useState } from 'react';
+import React, { useMemo } from 'react';
+import { X } from 'lucide-react';
 import { Button } from '../components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { useTheme } from '../contexts/ThemeContext';
-import { useTranslation } from '../utils/translations';
+import { useTranslation } from '../i18n';
 import ProjectCard from '../components/ProjectCard';
-import { projects as allProjects } from '../data/projects';
+import SEO from '../components/SEO';
+import { projects as allProjects, type ProjectCategory } from '../data/projects';
 import { useInView } from '../hooks/useInView';
+import { useClientSearchParams } from '../hooks/useClientSearchParams';
+import {
+  PAGE_SIZE,
+  SORT_OPTIONS,
+  applyFilters,
+  collectTags,
+  collectYears,
+  hasActiveFilters,
+  parseFilters,
+  serializeFilters,
+  type PortfolioFilters,
+  type PortfolioSort,
+} from '../utils/portfolioFilters';
 
-type FilterKey = 'all' | 'logos' | 'branding' | 'print' | 'uiux';
+/** Category filter buttons, in display order (labels are common:category.<key>) */
+const categoryFilters: ProjectCategory[] = ['logos', 'branding', 'print', 'uiux'];
 
-const PAGE_SIZE = 9;
+const tagOptions = collectTags(allProjects);
+const yearOptions = collectYears(allProjects);
+
+/** Toggle a value in a list */
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+const activeButtonClass =
+  'bg-[#8f1819] hover:bg-[#bd7b6a] text-white active:brightness-95 transition-all duration-300 ease-in-out';
+const inactiveButtonClass =
+  'border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent active:brightness-95 transition-all duration-300 ease-in-out';
+
+/** Small pill toggle used for tags and years */
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={active}
+    className={`px-3 py-1 text-xs font-medium rounded-full transition-colors duration-200 ${
+      active
+        ? 'bg-[#8f1819] text-white dark:bg-[#bd7b6a] dark:text-[#1a1a1a]'
+        : 'bg-[#d9cab1]/60 text-[#8f1819] hover:bg-[#d9cab1] dark:bg-[#2d2d2d] dark:text-[#bd7b6a] dark:hover:bg-[#3a3a3a]'
+    }`}
+  >
+    {children}
+  </button>
+);
 
 const PortfolioPage: React.FC = () => {
   const { language } = useTheme();
-  const { t } = useTranslation(language);
-  const [activeFilter, setActiveFilter] = useState<FilterKey>('all');
-  const [visibleCount, setVisibleCount] = useState<number>(PAGE_SIZE);
-
-  const filters = [
-    { key: 'all', label: { en: 'All Projects', ar: 'جميع المشاريع' } },
-    { key: 'logos', label: { en: 'Logos', ar: 'الشعارات' } },
-    { key: 'branding', label: { en: 'Branding', ar: 'العلامة التجارية' } },
-    { key: 'print', label: { en: 'Print Design', ar: 'التصميم الطباعي' } },
-    { key: 'uiux', label: { en: 'UI/UX', ar: 'واجهات المستخدم' } },
-  ] as const;
-
-  // Filter projects by category
-  const filteredProjects = activeFilter === 'all'
-    ? allProjects
-    : allProjects.filter(p => p.category === activeFilter);
+  const { t } = useTranslation('portfolio');
+  const { t: tc } = useTranslation('common');
+  const [searchParams, setSearchParams] = useClientSearchParams();
+
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+  const filteredProjects = useMemo(() => applyFilters(allProjects, filters, language), [filters, language]);
 
   // Visible slice (pagination)
-  const visibleProjects = filteredProjects.slice(0, visibleCount);
+  const visibleProjects = filteredProjects.slice(0, filters.visibleCount);
 
   const headerReveal = useInView({ threshold: 0.1, once: true });
   const gridReveal = useInView({ threshold: 0.1, once: true });
 
   /**
-   * Reset visible count when filter changes
+   * Apply a filter change as a new history entry; paging restarts from the first page
    */
-  useEffect(() => {
-    setVisibleCount(PAGE_SIZE);
-  }, [activeFilter]);
+  const updateFilters = (patch: Partial<PortfolioFilters>) => {
+    setSearchParams(serializeFilters({ ...filters, ...patch, visibleCount: PAGE_SIZE }));
+  };
 
   /**
-   * Load next page of projects
+   * Load next page of projects (replaces the entry so Back leaves the page instead of un-paging)
    */
   const handleLoadMore = () => {
-    setVisibleCount((prev) => prev + PAGE_SIZE);
+    setSearchParams(serializeFilters({ ...filters, visibleCount: filters.visibleCount + PAGE_SIZE }), {
+      replace: true,
+      preventScrollReset: true,
+    });
   };
 
+  const clearFilters = () => updateFilters({ categories: [], tags: [], years: [] });
+
   return (
     <div className="py-20">
+      <SEO
+        title={t('title')}
+        description={t('subtitle')}
+        path="/portfolio"
+        setTitle
+      />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Header */}
         <div
@@ -64,29 +112,105 @@ const PortfolioPage: React.FC = () => {
           className={`text-center space-y-4 mb-16 transition-all duration-500 ease-in-out ${headerReveal.inView ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-6'}`}
         >
           <h1 className="text-5xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">
-            {t('portfolioTitle')}
+            {t('title')}
           </h1>
           <p className="text-xl text-[#9c7860] dark:text-[#d9cab1]/80 max-w-3xl mx-auto">
-            {t('portfolioSubtitle')}
+            {t('subtitle')}
           </p>
         </div>
 
-        {/* Filter Buttons */}
-        <div className="flex flex-wrap justify-center gap-4 mb-12">
-          {filters.map((filter) => (
-            <Button
-              key={filter.key}
-              onClick={() => setActiveFilter(filter.key as FilterKey)}
-              variant={activeFilter === filter.key ? 'default' : 'outline'}
-              className={
-                activeFilter === filter.key
-                  ? 'bg-[#8f1819] hover:bg-[#bd7b6a] text-white active:brightness-95 transition-all duration-300 ease-in-out'
-                  : 'border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent active:brightness-95 transition-all duration-300 ease-in-out'
-              }
-            >
-              {filter.label[language]}
-            </Button>
-          ))}
+        {/* Category Buttons */}
+        <div className="flex flex-wrap justify-center gap-4 mb-6">
+          <Button
+            onClick={() => updateFilters({ categories: [] })}
+            variant={filters.categories.length === 0 ? 'default' : 'outline'}
+            className={filters.categories.length === 0 ? activeButtonClass : inactiveButtonClass}
+          >
+            {t('allProjects')}
+          </Button>
+          {categoryFilters.map((category) => {
+            const active = filters.categories.includes(category);
+            return (
+              <Button
+                key={category}
+                onClick={() => updateFilters({ categories: toggle(filters.categories, category) })}
+                variant={active ? 'default' : 'outline'}
+                aria-pressed={active}
+                className={active ? activeButtonClass : inactiveButtonClass}
+              >
+                {tc(`category.${category}`)}
+              </Button>
+            );
+          })}
+        </div>
+
+        {/* Tags & Years */}
+        <div className="space-y-3 mb-6">
+          <div className="flex flex-wrap justify-center items-center gap-2">
+            <span className="text-sm font-medium text-[#9c7860] dark:text-[#d9cab1]/80 ltr:mr-1 rtl:ml-1">
+              {t('tags')}
+            </span>
+            {tagOptions.map((tag) => (
+              <Chip
+                key={tag.key}
+                active={filters.tags.includes(tag.key)}
+                onClick={() => updateFilters({ tags: toggle(filters.tags, tag.key) })}
+              >
+                {tag.label}
+              </Chip>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-center items-center gap-2">
+            <span className="text-sm font-medium text-[#9c7860] dark:text-[#d9cab1]/80 ltr:mr-1 rtl:ml-1">
+              {t('year')}
+            </span>
+            {yearOptions.map((year) => (
+              <Chip
+                key={year}
+                active={filters.years.includes(year)}
+                onClick={() => updateFilters({ years: toggle(filters.years, year) })}
+              >
+                {year}
+              </Chip>
+            ))}
+          </div>
+        </div>
+
+        {/* Result count, clear & sort */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-3 text-sm text-[#9c7860] dark:text-[#d9cab1]/80" aria-live="polite">
+            <span>
+              {t('resultCount', { count: filteredProjects.length, total: allProjects.length })}
+            </span>
+            {hasActiveFilters(filters) && (
+              <button
+                type="button"
+                onClick={clearFilters}
+                className="inline-flex items-center gap-1 font-medium text-[#8f1819] dark:text-[#bd7b6a] hover:underline"
+              >
+                <X className="h-4 w-4" />
+                {t('clearFilters')}
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-[#9c7860] dark:text-[#d9cab1]/80">{t('sortBy')}</span>
+            <Select value={filters.sort} onValueChange={(value) => updateFilters({ sort: value as PortfolioSort })}>
+              <SelectTrigger
+                className="w-40 border-[#9c7860] text-[#9c7860] dark:border-[#d9cab1] dark:text-[#d9cab1] bg-transparent"
+                aria-label={t('sortBy')}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`sort.${option}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         {/* Projects Grid */}
@@ -99,16 +223,23 @@ const PortfolioPage: React.FC = () => {
           ))}
         </div>
 
+        {/* Empty state */}
+        {filteredProjects.length === 0 && (
+          <p className="text-center text-[#9c7860] dark:text-[#d9cab1]/80 py-12">
+            {t('noResults')}
+          </p>
+        )}
+
         {/* Load More Button */}
-        {filteredProjects.length > visibleCount && (
+        {filteredProjects.length > filters.visibleCount && (
           <div className="text-center mt-12">
             <Button
               onClick={handleLoadMore}
               variant="outline"
               size="lg"
-              className="border-[#9c7860] text-[#9c7860] hover:bg-[#9c7860] hover:text-white dark:border-[#d9cab1] dark:text-[#d9cab1] dark:hover:bg-[#d9cab1] dark:hover:text-[#1a1a1a] bg-transparent active:brightness-95 transition-all duration-300 ease-in-out"
+              className={inactiveButtonClass}
             >
-              {language === 'en' ? 'Load More Projects' : 'تحميل المزيد من المشاريع'}
+              {t('loadMore')}
             </Button>
           </div>
         )}
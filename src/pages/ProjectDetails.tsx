@@ -2,66 +2,79 @@
  * Project Details page
  * Shows a larger carousel and full information for a single project
  * - Fade-in sections
- * - Click image to open lightbox with fade-in
- * - Images now repeated 5x (same behavior as cards)
+ * - Carousel with one slide per media item (static for a single one), lazy-loaded slides and a thumbnails rail
+ * - Videos, PDFs and animations preview in the carousel and play/page in the lightbox
+ * - Caption and credit of the current item under the carousel
+ * - Click image to open the gallery lightbox; the open image is kept in the URL (?image=3)
+ * - Optional case study sections (facts, story, before/after, palette)
  */
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { useParams, Link } from 'react-router';
-import useEmblaCarousel from 'embla-carousel-react';
-import { ArrowLeft, ChevronLeft, ChevronRight, Tag, X } from 'lucide-react';
-import { getProjectById } from '../data/projects';
+import React, { useEffect } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router';
+import { ArrowLeft, ChevronLeft, ChevronRight, Tag } from 'lucide-react';
+import { getMediaPoster, getProjectById } from '../data/projects';
 import { Button } from '../components/ui/button';
 import { useTheme } from '../contexts/ThemeContext';
+import { useCarousel } from '../hooks/useCarousel';
 import { useInView } from '../hooks/useInView';
+import { useTranslation } from '../i18n';
 import { localize } from '../utils/localize';
-
-/**
- * buildRepeatedSlides
- * Repeats the provided images array `times` to extend the carousel length.
- * Matches the behavior used on project cards.
- */
-function buildRepeatedSlides(images: string[], times: number): string[] {
-  const base = images && images.length > 0 ? images : [];
-  return Array.from({ length: times }).flatMap(() => base);
-}
+import { localizePath } from '../utils/routes';
+import CaseStudy from '../components/CaseStudy';
+import Lightbox from '../components/Lightbox';
+import ProjectMedia, { getMediaAlt, getMediaCaption, getMediaCredit } from '../components/ProjectMedia';
+import ResponsiveImage from '../components/ResponsiveImage';
+import SEO from '../components/SEO';
+import StructuredData from '../components/StructuredData';
+import { personSchema, projectSchema } from '../lib/structuredData';
 
 const ProjectDetailsPage: React.FC = () => {
   const params = useParams();
   const id = Number(params.id);
   const project = getProjectById(id);
+  const media = project?.media ?? [];
+  const multiple = media.length > 1;
   const { language } = useTheme();
+  const { t } = useTranslation('project');
+  const { t: tc } = useTranslation('common');
+  const [searchParams, setSearchParams] = useSearchParams();
 
-  const [emblaRef, embla] = useEmblaCarousel({ loop: true, align: 'start' });
-  const [selected, setSelected] = useState(0);
-  const [lightboxSrc, setLightboxSrc] = useState<string | null>(null);
+  const gallery = useCarousel({ loop: true, align: 'start', active: multiple });
+  const thumbs = useCarousel({ containScroll: 'keepSnaps', dragFree: true, active: multiple });
 
   const headerReveal = useInView({ threshold: 0.1, once: true });
   const galleryReveal = useInView({ threshold: 0.1, once: true });
   const metaReveal = useInView({ threshold: 0.1, once: true });
 
+  // Lightbox position from the 1-based ?image= parameter (ignored when out of range)
+  const imageParam = Number(searchParams.get('image'));
+  const lightboxIndex = Number.isInteger(imageParam) && imageParam >= 1 && imageParam <= media.length ? imageParam - 1 : null;
+
+  const { selectedIndex, scrollTo } = gallery;
+  const scrollThumbsTo = thumbs.scrollTo;
+
   /**
-   * Sync selected index with Embla carousel
+   * Keep the active thumbnail in view
    */
-  const onSelect = useCallback(() => {
-    if (!embla) return;
-    setSelected(embla.selectedScrollSnap());
-  }, [embla]);
+  useEffect(() => {
+    scrollThumbsTo(selectedIndex);
+  }, [selectedIndex, scrollThumbsTo]);
 
+  /**
+   * Follow the lightbox (and deep links) so closing it lands on the image that was viewed
+   */
   useEffect(() => {
-    if (!embla) return;
-    embla.on('select', onSelect);
-    onSelect();
-  }, [embla, onSelect]);
+    if (lightboxIndex !== null) scrollTo(lightboxIndex, true);
+  }, [lightboxIndex, scrollTo]);
 
   if (!project) {
     return (
       <div className="py-20">
         <div className="max-w-3xl mx-auto px-4">
           <p className="text-[#9c7860] dark:text-[#d9cab1]/80">
-            {language === 'en' ? 'Project not found.' : 'المشروع غير موجود.'}
+            {t('notFound')}
           </p>
           <Button asChild className="mt-6 bg-[#8f1819] hover:bg-[#bd7b6a] text-white">
-            <Link to="/portfolio">{language === 'en' ? 'Back to Portfolio' : 'العودة للأعمال'}</Link>
+            <Link to={localizePath('/portfolio', language)}>{t('backToPortfolio')}</Link>
           </Button>
         </div>
       </div>
@@ -71,19 +84,42 @@ const ProjectDetailsPage: React.FC = () => {
   // Localized strings (defensive)
   const title = localize(project.title, language);
   const description = localize(project.description, language);
+  const selectedItem = media[selectedIndex] ?? media[0];
+  const selectedCaption = getMediaCaption(selectedItem, language);
+  const selectedCredit = getMediaCredit(selectedItem, language);
 
-  // Repeat images 5x for the details carousel as requested
-  const slides = useMemo(() => buildRepeatedSlides(project.images, 5), [project.images]);
+  /**
+   * Open, move or close the lightbox by rewriting ?image= (replaced, so browsing images doesn't fill the history)
+   */
+  const showImage = (index: number | null) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (index === null) next.delete('image');
+        else next.set('image', String(index + 1));
+        return next;
+      },
+      { replace: true, preventScrollReset: true }
+    );
+  };
 
   return (
     <div className="py-20">
+      <SEO
+        title={title}
+        description={description}
+        path={`/portfolio/${project.id}`}
+        type="article"
+        setTitle
+      />
+      <StructuredData nodes={[projectSchema(project, language, tc), personSchema(language, tc)]} />
       <div className="max-w-6xl mx-auto px-4">
         {/* Back */}
         <div className="mb-6">
           <Button asChild variant="outline" className="bg-transparent">
-            <Link to="/portfolio" className="inline-flex items-center">
+            <Link to={localizePath('/portfolio', language)} className="inline-flex items-center">
               <ArrowLeft className={`h-4 w-4 ${language === 'ar' ? 'ml-2 rotate-180' : 'mr-2'}`} />
-              {language === 'en' ? 'Back to Portfolio' : 'العودة للأعمال'}
+              {t('backToPortfolio')}
             </Link>
           </Button>
         </div>
@@ -101,54 +137,96 @@ const ProjectDetailsPage: React.FC = () => {
           </p>
         </div>
 
-        {/* Carousel */}
+        {/* Long-form body (HTML compiled from the project's Markdown at build time) */}
         <div
-          ref={galleryReveal.ref as unknown as React.RefObject<HTMLDivElement>}
-          className={`relative mb-8 transition-all duration-500 ease-in-out delay-100 ${galleryReveal.inView ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-6'}`}
+          className="mb-8 max-w-3xl text-[#9c7860] dark:text-[#d9cab1]/80 leading-relaxed [&_p]:mb-4 [&_h2]:text-2xl [&_h2]:font-bold [&_h2]:text-[#8f1819] dark:[&_h2]:text-[#bd7b6a] [&_h2]:mt-8 [&_h2]:mb-3 [&_ul]:list-disc [&_ul]:ps-6 [&_ul]:mb-4 [&_a]:text-[#8f1819] dark:[&_a]:text-[#bd7b6a] [&_a]:underline"
+          dangerouslySetInnerHTML={{ __html: localize(project.body, language) }}
+        />
+
+        {/* Carousel */}
+        <figure
+          ref={galleryReveal.ref as unknown as React.RefObject<HTMLElement>}
+          className={`mb-8 transition-all duration-500 ease-in-out delay-100 ${galleryReveal.inView ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-6'}`}
         >
-          <div className="overflow-hidden rounded-2xl" ref={emblaRef}>
-            <div className="flex">
-              {slides.map((src, idx) => (
-                <div key={idx} className="min-w-0 flex-[0_0_100%]">
+          <div className="relative">
+            <div className="overflow-hidden rounded-2xl" ref={gallery.emblaRef}>
+              <div className="flex">
+                {media.map((item, idx) => (
+                  <div key={idx} className="min-w-0 flex-[0_0_100%]">
+                    <button
+                      type="button"
+                      onClick={() => showImage(idx)}
+                      className="block w-full text-start cursor-zoom-in"
+                      aria-label={tc('openMedia', { type: tc(`mediaType.${item.type}`), number: idx + 1 })}
+                    >
+                      <div className="aspect-[16/9] bg-[#d9cab1] dark:bg-[#1a1a1a]">
+                        {gallery.isLoaded(idx) && (
+                          <ProjectMedia
+                            item={item}
+                            sizes="(min-width: 1152px) 1120px, 94vw"
+                            loading={idx === 0 ? 'eager' : 'lazy'}
+                            alt={getMediaAlt(item, language, `${title} - ${idx + 1}`)}
+                            className="w-full h-full object-cover"
+                          />
+                        )}
+                      </div>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+            {multiple && (
+              <div className="pointer-events-none absolute inset-0 flex items-center justify-between px-2">
+                <button
+                  aria-label={tc('previous')}
+                  onClick={gallery.scrollPrev}
+                  className="pointer-events-auto m-1 p-3 rounded-full bg-white/90 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] shadow"
+                >
+                  <ChevronLeft className="h-5 w-5 rtl:rotate-180" />
+                </button>
+                <button
+                  aria-label={tc('next')}
+                  onClick={gallery.scrollNext}
+                  className="pointer-events-auto m-1 p-3 rounded-full bg-white/90 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] shadow"
+                >
+                  <ChevronRight className="h-5 w-5 rtl:rotate-180" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Caption and credit of the current item */}
+          {(selectedCaption || selectedCredit) && (
+            <figcaption className="mt-3 text-sm text-[#9c7860] dark:text-[#d9cab1]/80">
+              {selectedCaption}
+              {selectedCredit && (
+                <span className={`text-xs opacity-80 ${selectedCaption ? 'block mt-0.5' : ''}`}>
+                  {tc('credit', { credit: selectedCredit })}
+                </span>
+              )}
+            </figcaption>
+          )}
+
+          {/* Thumbnails rail */}
+          {multiple && (
+            <div className="mt-3 overflow-hidden" ref={thumbs.emblaRef}>
+              <div className="flex gap-2">
+                {media.map((item, i) => (
                   <button
+                    key={i}
                     type="button"
-                    onClick={() => setLightboxSrc(src)}
-                    className="block w-full text-left"
-                    aria-label="Open image"
+                    onClick={() => scrollTo(i)}
+                    aria-label={tc('showMedia', { type: tc(`mediaType.${item.type}`), number: i + 1 })}
+                    aria-current={i === selectedIndex}
+                    className={`min-w-0 flex-[0_0_6rem] sm:flex-[0_0_8rem] aspect-[16/9] rounded-lg overflow-hidden bg-[#d9cab1] dark:bg-[#1a1a1a] ring-2 transition-all ${i === selectedIndex ? 'ring-[#8f1819] opacity-100' : 'ring-transparent opacity-60 hover:opacity-100'}`}
                   >
-                    <div className="aspect-[16/9] bg-[#d9cab1] dark:bg-[#1a1a1a]">
-                      <img src={src} alt={`${title} - ${idx + 1}`} className="w-full h-full object-cover" />
-                    </div>
+                    <ResponsiveImage src={getMediaPoster(item)} sizes="128px" alt="" className="w-full h-full object-cover" />
                   </button>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
-          </div>
-          <div className="absolute inset-0 flex items-center justify-between px-2">
-            <button
-              aria-label="Previous"
-              onClick={() => embla?.scrollPrev()}
-              className="m-1 p-3 rounded-full bg-white/90 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] shadow"
-            >
-              <ChevronLeft className="h-5 w-5" />
-            </button>
-            <button
-              aria-label="Next"
-              onClick={() => embla?.scrollNext()}
-              className="m-1 p-3 rounded-full bg-white/90 dark:bg-black/40 hover:bg-white dark:hover:bg-black text-[#8f1819] shadow"
-            >
-              <ChevronRight className="h-5 w-5" />
-            </button>
-          </div>
-          <div className="mt-3 flex items-center justify-center gap-2">
-            {slides.map((_, i) => (
-              <span
-                key={i}
-                className={`h-1.5 w-4 rounded-full ${i === selected ? 'bg-[#8f1819]' : 'bg-[#d9cab1] dark:bg-[#1a1a1a]'}`}
-              />
-            ))}
-          </div>
-        </div>
+          )}
+        </figure>
 
         {/* Meta */}
         <div
@@ -164,30 +242,23 @@ const ProjectDetailsPage: React.FC = () => {
             ))}
           </div>
         </div>
+
+        {/* Case study sections (optional per project) */}
+        {project.caseStudy && (
+          <div className="mt-8">
+            <CaseStudy caseStudy={project.caseStudy} />
+          </div>
+        )}
       </div>
 
       {/* Lightbox */}
-      {lightboxSrc && (
-        <div
-          role="dialog"
-          aria-modal="true"
-          className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in"
-          onClick={() => setLightboxSrc(null)}
-        >
-          <div className="relative max-w-5xl w-full" onClick={(e) => e.stopPropagation()}>
-            <button
-              onClick={() => setLightboxSrc(null)}
-              aria-label="Close"
-              className="absolute -top-12 right-0 text-white/90 hover:text-white transition-colors"
-            >
-              <X className="w-6 h-6" />
-            </button>
-            <div className="w-full aspect-[16/9] rounded-xl overflow-hidden">
-              <img src={lightboxSrc} alt="Preview" className="w-full h-full object-contain bg-black" />
-            </div>
-          </div>
-        </div>
-      )}
+      <Lightbox
+        items={media}
+        index={lightboxIndex}
+        onIndexChange={showImage}
+        onClose={() => showImage(null)}
+        title={title}
+      />
     </div>
   );
 };
@@ -0,0 +1,152 @@
+/**
+ * Printable quote page
+ * Renders a quote built on the Services page (selection carried in the query string)
+ * as a clean, print-friendly document. Site chrome is hidden when printing.
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router';
+import { ArrowLeft, FileText, Printer } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import Price from '../components/Price';
+import SEO from '../components/SEO';
+import { useTheme } from '../contexts/ThemeContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { usePackagePreview } from '../contexts/PackagePreviewContext';
+import { useTranslation } from '../i18n';
+import { useClientSearchParams } from '../hooks/useClientSearchParams';
+import { formatPriceText, formatSar } from '../utils/currency';
+import { EXCHANGE_RATES } from '../config/currency';
+import { localizePath } from '../utils/routes';
+import { calculateQuote, parseSelection, quoteLineLabel } from '../lib/quote';
+import { formatDocumentDate, toIsoDate } from '../lib/invoice';
+
+const QuotePage: React.FC = () => {
+  const { language } = useTheme();
+  const { t } = useTranslation('quote');
+  const { t: tc } = useTranslation('common');
+  const { currency } = useCurrency();
+  // The selection is read after mount: /quote is prerendered without one
+  const [searchParams] = useClientSearchParams();
+  const { services } = usePackagePreview();
+  const quote = useMemo(() => calculateQuote(parseSelection(searchParams), services), [searchParams, services]);
+
+  // Today depends on the browser clock, so it is filled in after mount to keep hydration stable
+  const [today, setToday] = useState('');
+  useEffect(() => setToday(toIsoDate(new Date())), []);
+  const amount = (value: number) => <Price amount={value} iconVariant="light" />;
+
+  return (
+    <div className="py-12 print:py-0">
+      <SEO
+        title={t('title')}
+        description={t('description')}
+        path="/quote"
+        setTitle
+      />
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 print:px-0 print:max-w-none">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6 print:hidden">
+          <Link
+            to={localizePath('/services', language)}
+            className="inline-flex items-center gap-2 text-sm font-medium text-[#8f1819] dark:text-[#bd7b6a] hover:underline"
+          >
+            <ArrowLeft className="h-4 w-4 rtl:rotate-180" />
+            {t('backToServices')}
+          </Link>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button asChild variant="outline" className="border-[#8f1819] text-[#8f1819] hover:bg-[#8f1819] hover:text-white dark:border-[#bd7b6a] dark:text-[#bd7b6a] dark:hover:bg-[#bd7b6a] dark:hover:text-white bg-transparent">
+              <Link to={`${localizePath('/invoice', language)}?${searchParams.toString()}`}>
+                <FileText className="h-4 w-4 ltr:mr-2 rtl:ml-2" />
+                {t('createInvoice')}
+              </Link>
+            </Button>
+            <Button onClick={() => window.print()} className="bg-[#8f1819] hover:bg-[#bd7b6a] text-white">
+              <Printer className="h-4 w-4 ltr:mr-2 rtl:ml-2" />
+              {t('print')}
+            </Button>
+          </div>
+        </div>
+
+        {/* Document */}
+        <article className="bg-white text-[#2d2d2d] rounded-2xl shadow-lg p-8 sm:p-12 print:shadow-none print:rounded-none print:p-0">
+          <header className="flex items-start justify-between gap-6 pb-6 border-b-2 border-[#8f1819]">
+            <div>
+              <h1 className="text-3xl font-bold text-[#8f1819]">{t('title')}</h1>
+              <p className="text-sm text-[#9c7860] mt-1">{today && formatDocumentDate(today, language)}</p>
+            </div>
+            <div className="text-end">
+              <div className="font-bold text-[#8f1819]">{tc('title')}</div>
+              <div className="text-sm text-[#9c7860]">{tc('subtitle')}</div>
+              <div className="text-sm text-[#9c7860]" dir="ltr">info@emadalddine.com · +966 504487308</div>
+            </div>
+          </header>
+
+          {quote.lines.length === 0 ? (
+            <p className="py-12 text-center text-[#9c7860]">
+              {t('empty')}
+            </p>
+          ) : (
+            <table className="w-full mt-8 text-sm">
+              <thead>
+                <tr className="text-[#9c7860] border-b border-[#d9cab1]">
+                  <th className="py-2 text-start font-medium">{t('item')}</th>
+                  <th className="py-2 text-end font-medium">{t('unitPrice')}</th>
+                  <th className="py-2 text-end font-medium">{t('quantity')}</th>
+                  <th className="py-2 text-end font-medium">{t('amount')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quote.lines.map((line, idx) => (
+                  <tr key={idx} className="border-b border-[#d9cab1]/60">
+                    <td className="py-3">{quoteLineLabel(line, language, t, tc)}</td>
+                    <td className="py-3 text-end">{amount(line.unitPrice)}</td>
+                    <td className="py-3 text-end tabular-nums">{formatSar(line.quantity, language)}</td>
+                    <td className="py-3 text-end">{amount(line.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={3} className="pt-4 text-end">{t('subtotal')}</td>
+                  <td className="pt-4 text-end">{amount(quote.subtotal)}</td>
+                </tr>
+                {quote.includeVat && (
+                  <tr>
+                    <td colSpan={3} className="pt-1 text-end">{t('vat')}</td>
+                    <td className="pt-1 text-end">{amount(quote.vat)}</td>
+                  </tr>
+                )}
+                <tr className="text-lg font-bold text-[#8f1819]">
+                  <td colSpan={3} className="pt-3 text-end">
+                    {t('total')}
+                    {!quote.includeVat && (
+                      <span className="text-xs font-normal text-[#9c7860]"> {t('exclVat')}</span>
+                    )}
+                  </td>
+                  <td className="pt-3 text-end">{amount(quote.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+
+          <footer className="mt-10 pt-6 border-t border-[#d9cab1] text-xs text-[#9c7860] space-y-1">
+            {currency !== 'SAR' && quote.lines.length > 0 && (
+              <p>
+                {t('conversion', {
+                  currency,
+                  rate: formatSar(EXCHANGE_RATES[currency], language),
+                  total: formatPriceText(quote.total, 'SAR', language, tc),
+                })}
+              </p>
+            )}
+            <p>
+              {t('validity')}
+            </p>
+          </footer>
+        </article>
+      </div>
+    </div>
+  );
+};
+
+export default QuotePage;
@@ -1,47 +1,47 @@
 /**
  * Services page component showcasing design services offered
- * Professional cards, WhatsApp CTA (prefilled without price), and an infographic process section
- * Now priced in Saudi Riyal with a custom SR logo icon.
+ * Professional cards with related portfolio pieces, a package comparison table, WhatsApp CTA (prefilled without price),
+ * and an infographic process section. The catalog itself lives in data/services.ts.
+ * Priced in Saudi Riyal (SR logo icon), shown in the visitor's chosen currency.
  */
-import React from 'react';
+import React, { useState } from 'react';
 import {
-  Palette,
-  Layout,
-  Printer,
-  Globe,
-  Camera,
   CheckCircle,
   ArrowRight,
   Star,
-  // Infographic step icons and connectors
-  MessageSquare,
-  Lightbulb,
-  PenTool,
-  FileCheck,
+  // Infographic connectors
   ArrowDown,
 } from 'lucide-react';
+import { Link } from 'react-router';
 import { Button } from '../components/ui/button';
+import { Switch } from '../components/ui/switch';
 import { useTheme } from '../contexts/ThemeContext';
-import { useTranslation } from '../utils/translations';
-import SRLogoIcon from '../components/icons/SRLogo';
-
-/**
- * Service definition with localized content
- */
-interface Service {
-  /** Icon to illustrate the service */
-  icon: React.ElementType;
-  /** Localized title */
-  title: { en: string; ar: string };
-  /** Localized description */
-  description: { en: string; ar: string };
-  /** Localized feature bullets */
-  features: { en: string[]; ar: string[] };
-  /** Price value in SAR (shown with SR logo; label localized separately) */
-  priceSar: number;
-  /** Highlight as popular */
-  popular?: boolean;
-}
+import { usePackagePreview } from '../contexts/PackagePreviewContext';
+import { useTranslation } from '../i18n';
+import Price from '../components/Price';
+import { localizePath } from '../utils/routes';
+import QuoteCalculator from '../components/QuoteCalculator';
+import PackageComparison from '../components/PackageComparison';
+import ResponsiveImage from '../components/ResponsiveImage';
+import { getMediaAlt } from '../components/ProjectMedia';
+import {
+  formatDelivery,
+  formatRevisions,
+  hasDraftTiers,
+  hasPackages,
+  processSteps,
+  services as publishedServices,
+  startingPrice,
+  type ProcessStep,
+  type Service,
+  type ServiceId,
+  type ServiceTier,
+} from '../data/services';
+import { getProjectThumbnail, getProjectsByService, type Project } from '../data/projects';
+import { localize } from '../utils/localize';
+import SEO from '../components/SEO';
+import StructuredData from '../components/StructuredData';
+import { professionalServiceSchema, serviceSchemas } from '../lib/structuredData';
 
 /**
  * Props for the individual service card component
@@ -49,26 +49,22 @@ interface Service {
 interface ServiceCardProps {
   /** Service data to display */
   service: Service;
+  /** Portfolio pieces that demonstrate the service */
+  relatedProjects: Project[];
   /** Current language */
   language: 'en' | 'ar';
   /** Callback for WhatsApp CTA */
   onStart: (service: Service) => void;
-}
-
-/**
- * Format a SAR amount with locale-aware digits and grouping.
- */
-function formatSar(amount: number, lang: 'en' | 'ar') {
-  // Use Saudi locales for proper digits/grouping
-  const locale = lang === 'en' ? 'en-SA' : 'ar-SA';
-  return amount.toLocaleString(locale);
+  /** Show this service in the package comparison */
+  onCompare: (service: Service) => void;
 }
 
 /**
  * ServiceCard - a professional, compact card for a single service
- * Shows icon, title, short description, features list, and CTA for WhatsApp
+ * Shows icon, title, short description, features list, related work, and CTA for WhatsApp
  */
-const ServiceCard: React.FC<ServiceCardProps> = ({ service, language, onStart }) => {
+const ServiceCard: React.FC<ServiceCardProps> = ({ service, relatedProjects, language, onStart, onCompare }) => {
+  const { t } = useTranslation('services');
   const Icon = service.icon;
 
   return (
@@ -82,7 +78,7 @@ const ServiceCard: React.FC<ServiceCardProps> = ({ service, language, onStart })
       {service.popular && (
         <div className="absolute top-4 ltr:right-4 rtl:left-4 inline-flex items-center gap-1 rounded-full bg-[#8f1819] dark:bg-[#bd7b6a] text-white px-3 py-1 text-xs font-medium shadow">
           <Star className="h-3.5 w-3.5" />
-          <span>{language === 'en' ? 'Most Popular' : 'الأكثر شعبية'}</span>
+          <span>{t('mostPopular')}</span>
         </div>
       )}
 
@@ -112,22 +108,56 @@ const ServiceCard: React.FC<ServiceCardProps> = ({ service, language, onStart })
           ))}
         </div>
 
+        {/* Related work */}
+        {relatedProjects.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold uppercase tracking-wide text-[#9c7860] dark:text-[#d9cab1]/70">
+              {t('relatedWork')}
+            </h4>
+            <div className="grid grid-cols-3 gap-2">
+              {relatedProjects.map((project) => (
+                <Link
+                  key={project.id}
+                  to={localizePath(`/portfolio/${project.id}`, language)}
+                  className="block aspect-square rounded-lg overflow-hidden ring-1 ring-black/5 dark:ring-white/10 hover:ring-[#8f1819] dark:hover:ring-[#bd7b6a] transition"
+                  title={localize(project.title, language)}
+                >
+                  <ResponsiveImage
+                    src={getProjectThumbnail(project)}
+                    sizes="(min-width: 1280px) 100px, (min-width: 1024px) 8vw, (min-width: 768px) 13vw, 27vw"
+                    alt={getMediaAlt(project.media[0], language, localize(project.title, language))}
+                    className="h-full w-full object-cover transition-transform duration-300 hover:scale-105"
+                  />
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Price + CTA */}
         <div className="pt-6 border-t border-[#d9cab1] dark:border-[#9c7860]/20 flex items-center justify-between gap-4 flex-wrap">
-          {/* Price block with SR logo (no currency text) */}
+          {/* Price block (SR logo for SAR, currency symbol otherwise) */}
           <div className="text-xl font-bold text-[#8f1819] dark:text-[#bd7b6a] flex items-center gap-2">
-            <span>{language === 'en' ? 'Starting at' : 'ابتداءً من'}</span>
-            <SRLogoIcon className="h-5 w-5" />
-            <span>{formatSar(service.priceSar, language)}</span>
+            <span>{t('startingAt')}</span>
+            <Price amount={startingPrice(service)} iconClassName="h-5 w-5" />
           </div>
           <Button
             onClick={() => onStart(service)}
             className="bg-[#8f1819] hover:bg-[#bd7b6a] text-white btn-animate"
           >
-            {language === 'en' ? 'Get Started' : 'ابدأ الآن'}
+            {t('getStarted')}
             <ArrowRight className={`h-4 w-4 ${language === 'ar' ? 'mr-2 rotate-180' : 'ml-2'}`} />
           </Button>
         </div>
+        {hasPackages(service) && (
+          <button
+            type="button"
+            onClick={() => onCompare(service)}
+            className="text-sm font-medium text-[#9c7860] dark:text-[#d9cab1]/80 hover:text-[#8f1819] dark:hover:text-[#bd7b6a] underline-offset-4 hover:underline"
+          >
+            {t('comparePackages')}
+          </button>
+        )}
       </div>
 
       {/* Hover ring */}
@@ -148,20 +178,6 @@ function openWhatsAppPrefilled(
   window.open(url, '_blank');
 }
 
-/**
- * Process step definition for the infographic
- */
-interface ProcessStep {
-  /** Step index label like "01" */
-  step: string;
-  /** Localized title */
-  title: { en: string; ar: string };
-  /** Localized description */
-  description: { en: string; ar: string };
-  /** Icon component to represent the step */
-  icon: React.ElementType<React.SVGProps<SVGSVGElement>>;
-}
-
 /**
  * StepCard - a visual card for each step (used both in horizontal and vertical layouts)
  */
@@ -207,16 +223,15 @@ const ProcessInfographic: React.FC<{
   steps: ProcessStep[];
   language: 'en' | 'ar';
 }> = ({ steps, language }) => {
+  const { t } = useTranslation('services');
   return (
     <div className="bg-white dark:bg-[#2d2d2d] rounded-2xl p-12 shadow-lg mb-20">
       <div className="text-center space-y-4 mb-12">
         <h2 className="text-4xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">
-          {language === 'en' ? 'My Design Process' : 'عملية التصميم'}
+          {t('processTitle')}
         </h2>
         <p className="text-xl text-[#9c7860] dark:text-[#d9cab1]/80 max-w-2xl mx-auto">
-          {language === 'en'
-            ? 'A streamlined process to ensure your project is delivered on time and exceeds expectations'
-            : 'عملية مبسطة لضمان تسليم مشروعك في الوقت المحدد وتجاوز التوقعات'}
+          {t('processSubtitle')}
         </p>
       </div>
 
@@ -261,235 +276,134 @@ const ProcessInfographic: React.FC<{
 
 const ServicesPage: React.FC = () => {
   const { language } = useTheme();
-  const { t } = useTranslation(language);
+  const { t } = useTranslation('services');
+  const { t: tc } = useTranslation('common');
+  const { preview, setPreview, services } = usePackagePreview();
+  // Only services with more than one package (published, or drafts while previewing) are compared
+  const packaged = services.filter(hasPackages);
+  const [comparedId, setComparedId] = useState<ServiceId>();
+  const compared = packaged.find((s) => s.id === comparedId) ?? packaged.find((s) => s.popular) ?? packaged[0];
 
   // WhatsApp number for direct contact
   const WHATSAPP_NUMBER = '+966504487308';
 
   /**
-   * Services list
-   * Converted to SAR using ≈ 3.75 SAR per USD, rounded to the nearest 5 for tidy pricing.
-   * - Logo Design: $150 -> ~562.5 -> 560 SAR
-   * - Brand Identity: $400 -> 1500 SAR
-   * - Print Design: $100 -> 375 SAR
-   * - Web Design: $500 -> 1875 SAR
-   * - Social Media Design: $50 -> ~187.5 -> 190 SAR
+   * Build a localized WhatsApp message for a service request (no price included).
+   * With a tier, the package name, revisions, delivery time and its features are included.
    */
-  const services: Service[] = [
-    {
-      icon: Palette,
-      title: { en: 'Logo Design', ar: 'تصميم الشعارات' },
-      description: {
-        en: 'Creating unique and memorable logos that represent your brand identity perfectly.',
-        ar: 'إنشاء شعارات فريدة ولا تُنسى تمثل هوية علامتك التجارية بشكل مثالي.',
-      },
-      features: {
-        en: [
-          '3 Initial Concepts',
-          'Unlimited Revisions',
-          'Vector Files (AI, EPS)',
-          'PNG & JPG Files',
-          'Brand Guidelines',
-        ],
-        ar: ['3 مفاهيم أولية', 'تعديلات غير محدودة', 'ملفات فيكتور (AI, EPS)', 'ملفات PNG و JPG', 'إرشادات العلامة التجارية'],
-      },
-      priceSar: 560,
-      popular: true,
-    },
-    {
-      icon: Layout,
-      title: { en: 'Brand Identity', ar: 'الهوية التجارية' },
-      description: {
-        en: 'Complete brand identity packages including logo, colors, typography, and guidelines.',
-        ar: 'حزم هوية تجارية كاملة تشمل الشعار والألوان والطباعة والإرشادات.',
-      },
-      features: {
-        en: [
-          'Logo Design',
-          'Color Palette',
-          'Typography Guide',
-          'Business Cards',
-          'Letterhead Design',
-          'Brand Guidelines',
-        ],
-        ar: ['تصميم الشعار', 'لوحة الألوان', 'دليل الطباعة', 'بطاقات العمل', 'تصميم ورق الخطابات', 'إرشادات العلامة التجارية'],
-      },
-      priceSar: 1500,
-    },
-    {
-      icon: Printer,
-      title: { en: 'Print Design', ar: 'التصميم الطباعي' },
-      description: {
-        en: 'Professional print materials including brochures, flyers, posters, and marketing collateral.',
-        ar: 'مواد طباعة احترافية تشمل الكتيبات والنشرات والملصقات والمواد التسويقية.',
-      },
-      features: {
-        en: [
-          'Brochure Design',
-          'Flyer Design',
-          'Poster Design',
-          'Magazine Layout',
-          'Packaging Design',
-          'Print-Ready Files',
-        ],
-        ar: ['تصميم الكتيبات', 'تصميم النشرات', 'تصميم الملصقات', 'تخطيط المجلات', 'تصميم التعبئة', 'ملفات جاهزة للطباعة'],
-      },
-      priceSar: 375,
-    },
-    {
-      icon: Globe,
-      title: { en: 'Web Design', ar: 'تصميم المواقع' },
-      description: {
-        en: 'Modern and responsive website designs that engage users and drive conversions.',
-        ar: 'تصاميم مواقع عصرية ومتجاوبة تجذب المستخدمين وتحقق التحويلات.',
-      },
-      features: {
-        en: [
-          'Responsive Design',
-          'Landing Pages',
-          'E-commerce Design',
-          'CMS Integration',
-          'SEO Optimization',
-          'Performance Optimization',
-        ],
-        ar: ['تصميم متجاوب', 'صفحات الهبوط', 'تصميم التجارة الإلكترونية', 'تكامل CMS', 'تحسين SEO', 'تحسين الأداء'],
-      },
-      priceSar: 1875,
-    },
-    {
-      icon: Camera,
-      title: { en: 'Social Media Design', ar: 'تصميم وسائل التواصل' },
-      description: {
-        en: 'Eye-catching social media graphics and templates for all major platforms.',
-        ar: 'جرافيك وسائل التواصل الاجتماعي ونماذج جذابة لجميع المنصات الرئيسية.',
-      },
-      features: {
-        en: ['Instagram Posts', 'Facebook Covers', 'Twitter Headers', 'LinkedIn Banners', 'Story Templates', 'Animated Graphics'],
-        ar: ['منشورات إنستغرام', 'أغلفة فيسبوك', 'رؤوس تويتر', 'بانرات لينكدإن', 'قوالب القصص', 'رسوم متحركة'],
-      },
-      priceSar: 190,
-    },
-  ];
+  const buildMessage = (service: Service, tier?: ServiceTier) =>
+    [
+      t('message.intro'),
+      t('message.service', { service: service.title[language] }),
+      tier &&
+        t('message.package', {
+          tier: tc(`tier.${tier.id}`),
+          revisions: formatRevisions(tier, t),
+          delivery: formatDelivery(tier, t),
+        }),
+      t('message.features', { features: (tier ?? service).features[language].join(', ') }),
+      t('message.outro'),
+    ]
+      .filter(Boolean)
+      .join('\n');
 
   /**
-   * Build a localized WhatsApp message for a service request (no price included)
+   * Handle WhatsApp CTA with a prefilled message (optionally for a chosen package tier)
    */
-  const buildMessage = (service: Service, lang: 'en' | 'ar') => {
-    if (lang === 'ar') {
-      return [
-        'مرحباً! أود الاستفسار عن الخدمة التالية:',
-        `• الخدمة: ${service.title.ar}`,
-        `• المزايا: ${service.features.ar.join(', ')}`,
-        'يرجى التواصل معي لمناقشة التفاصيل والمدة الزمنية. شكراً لك.',
-      ].join('\n');
-    }
-    return [
-      "Hello! I'd like to inquire about the following service:",
-      `• Service: ${service.title.en}`,
-      `• Key features: ${service.features.en.join(', ')}`,
-      'Please contact me to discuss details and timeline. Thank you.',
-    ].join('\n');
+  const handleGetStarted = (service: Service, tier?: ServiceTier) => {
+    const message = buildMessage(service, tier);
+    openWhatsAppPrefilled(WHATSAPP_NUMBER, message);
+    // Note: price is intentionally excluded from the prefilled message
   };
 
   /**
-   * Handle WhatsApp CTA with a prefilled message
+   * Show a service in the package comparison and scroll to it
    */
-  const handleGetStarted = (service: Service) => {
-    const message = buildMessage(service, language);
-    openWhatsAppPrefilled(WHATSAPP_NUMBER, message);
-    // Note: price is intentionally excluded from the prefilled message
+  const handleCompare = (service: Service) => {
+    setComparedId(service.id);
+    document.getElementById('packages')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
-  // Infographic steps with icons
-  const processSteps: ProcessStep[] = [
-    {
-      step: '01',
-      title: { en: 'Consultation', ar: 'الاستشارة' },
-      description: {
-        en: 'We discuss your project requirements, goals, and vision in detail.',
-        ar: 'نناقش متطلبات مشروعك وأهدافك ورؤيتك بالتفصيل.',
-      },
-      icon: MessageSquare,
-    },
-    {
-      step: '02',
-      title: { en: 'Concept Development', ar: 'تطوير المفهوم' },
-      description: {
-        en: 'I create initial concepts and present multiple design directions.',
-        ar: 'أنشئ المفاهيم الأولية وأقدم اتجاهات تصميم متعددة.',
-      },
-      icon: Lightbulb,
-    },
-    {
-      step: '03',
-      title: { en: 'Design & Refinement', ar: 'التصميم والتحسين' },
-      description: {
-        en: 'Based on your feedback, I refine the chosen concept to perfection.',
-        ar: 'بناءً على ملاحظاتك، أقوم بتحسين المفهوم المختار إلى الكمال.',
-      },
-      icon: PenTool,
-    },
-    {
-      step: '04',
-      title: { en: 'Final Delivery', ar: 'التسليم النهائي' },
-      description: {
-        en: 'You receive all final files in various formats ready for use.',
-        ar: 'تتلقى جميع الملفات النهائية بتنسيقات مختلفة جاهزة للاستخدام.',
-      },
-      icon: FileCheck,
-    },
-  ];
-
   return (
     <div className="py-20">
+      <SEO title={t('title')} description={t('subtitle')} path="/services" setTitle />
+      <StructuredData nodes={[professionalServiceSchema(language, tc), ...serviceSchemas(publishedServices, language, t, tc)]} />
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         {/* Header */}
         <div className="text-center space-y-4 mb-16">
-          <h1 className="text-5xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">{t('servicesTitle')}</h1>
+          <h1 className="text-5xl font-bold text-[#8f1819] dark:text-[#bd7b6a]">{t('title')}</h1>
           <p className="text-xl text-[#9c7860] dark:text-[#d9cab1]/80 max-w-3xl mx-auto">
-            {t('servicesSubtitle')}
+            {t('subtitle')}
           </p>
         </div>
 
         {/* Services Grid (Professional layout) */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 mb-20">
-          {services.map((service, index) => (
+          {services.map((service) => (
             <ServiceCard
-              key={index}
+              key={service.id}
               service={service}
+              relatedProjects={getProjectsByService(service.id).slice(0, 3)}
               language={language}
               onStart={handleGetStarted}
+              onCompare={handleCompare}
             />
           ))}
         </div>
 
+        {/* Preview of the packages still awaiting sign-off */}
+        {hasDraftTiers && (
+          <div className="flex items-start justify-between gap-4 mb-8 rounded-xl border border-dashed border-[#9c7860] dark:border-[#9c7860]/60 px-5 py-4">
+            <label htmlFor="package-preview" className="text-sm font-medium text-[#8f1819] dark:text-[#bd7b6a]">
+              {t('preview.label')}
+              <span className="block text-xs font-normal text-[#9c7860] dark:text-[#d9cab1]/80">{t('preview.note')}</span>
+            </label>
+            <Switch
+              id="package-preview"
+              checked={preview}
+              onCheckedChange={setPreview}
+              className="data-[state=checked]:bg-[#8f1819] dark:data-[state=checked]:bg-[#bd7b6a]"
+            />
+          </div>
+        )}
+
+        {/* Package comparison */}
+        {compared && (
+          <PackageComparison
+            services={packaged}
+            serviceId={compared.id}
+            onServiceChange={setComparedId}
+            onChoose={handleGetStarted}
+            language={language}
+          />
+        )}
+
+        {/* Quote builder */}
+        <QuoteCalculator services={services} language={language} />
+
         {/* Process Section (Infographic) */}
         <ProcessInfographic steps={processSteps} language={language} />
 
         {/* CTA Section */}
         <div className="bg-[#a76552] dark:bg-[#1a1a1a] rounded-2xl p-12 text-center space-y-6">
           <h2 className="text-4xl font-bold text-white dark:text-[#d9cab1]">
-            {language === 'en' ? 'Ready to Get Started?' : 'جاهز للبدء؟'}
+            {t('ctaTitle')}
           </h2>
           <p className="text-white/90 dark:text-[#d9cab1]/80 text-xl max-w-2xl mx-auto">
-            {language === 'en'
-              ? "Let's discuss your project and create something amazing together. Contact me for a free consultation."
-              : 'دعنا نناقش مشروعك وننشئ شيئاً مذهلاً معاً. تواصل معي للحصول على استشارة مجانية.'}
+            {t('ctaText')}
           </p>
           <div className="flex flex-col sm:flex-row gap-4 justify-center">
             {/* Removed "Get Free Quote" button globally per user request */}
+            <Button asChild size="lg" className="bg-white text-[#a76552] hover:bg-[#d9cab1] dark:bg-[#bd7b6a] dark:text-white dark:hover:bg-[#8f1819]">
+              <Link to={localizePath('/brief', language)}>{t('startBrief')}</Link>
+            </Button>
             <Button
               size="lg"
               variant="outline"
               className="border-white text-white hover:bg-white hover:text-[#a76552] bg-transparent"
-              onClick={() => {
-                const generic = language === 'ar'
-                  ? 'مرحباً! أود التحدث حول مشروع تصميم جديد. هل يمكننا بدء المحادثة؟'
-                  : "Hello! I'd like to discuss a new design project. Could we start a chat?";
-                openWhatsAppPrefilled(WHATSAPP_NUMBER, generic);
-              }}
+              onClick={() => openWhatsAppPrefilled(WHATSAPP_NUMBER, t('message.generic'))}
             >
-              {language === 'en' ? 'WhatsApp Chat' : 'محادثة واتساب'}
+              {t('whatsappChat')}
             </Button>
           </div>
         </div>
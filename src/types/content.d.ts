@@ -0,0 +1,12 @@
+/**
+ * Virtual modules generated at build time by scripts/content.mjs
+ */
+declare module '@content/projects' {
+  const projects: import('@/data/projects').Project[];
+  export default projects;
+}
+
+declare module '@content/images' {
+  const images: Record<string, import('@/data/images').ResponsiveImage>;
+  export default images;
+}
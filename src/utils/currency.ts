@@ -0,0 +1,53 @@
+/**
+ * Currency helpers
+ * Prices are stored in Saudi Riyal; the SR symbol is rendered separately (SRLogoIcon).
+ * Other currencies are converted with the rates in config/currency and formatted with their own symbol.
+ */
+import type { TFunction } from 'i18next';
+import { CURRENCIES, EXCHANGE_RATES, type CurrencyCode } from '../config/currency';
+
+/** Saudi locales for proper digits/grouping */
+const localeFor = (lang: 'en' | 'ar') => (lang === 'en' ? 'en-SA' : 'ar-SA');
+
+/**
+ * Format a SAR amount with locale-aware digits and grouping.
+ */
+export function formatSar(amount: number, lang: 'en' | 'ar') {
+  return amount.toLocaleString(localeFor(lang));
+}
+
+/** True for a supported currency code */
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return CURRENCIES.includes(value as CurrencyCode);
+}
+
+/**
+ * Convert a SAR amount to another currency, rounded to 2 decimals.
+ */
+export function convertFromSar(amountSar: number, currency: CurrencyCode): number {
+  return Math.round((amountSar / EXCHANGE_RATES[currency]) * 100) / 100;
+}
+
+/**
+ * Format a SAR amount in the given currency.
+ * SAR returns the bare number (pair it with SRLogoIcon); other currencies include their symbol,
+ * e.g. "$149.33" or "١٤٩٫٣٣ US$".
+ */
+export function formatPrice(amountSar: number, currency: CurrencyCode, lang: 'en' | 'ar') {
+  if (currency === 'SAR') return formatSar(amountSar, lang);
+  return convertFromSar(amountSar, currency).toLocaleString(localeFor(lang), {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Format a SAR amount as plain text (messages, summaries): like formatPrice,
+ * with the SAR code spelled out since the SR symbol is an image. `t` is the common namespace in `lang`.
+ */
+export function formatPriceText(amountSar: number, currency: CurrencyCode, lang: 'en' | 'ar', t: TFunction<'common'>) {
+  if (currency === 'SAR') return `${formatSar(amountSar, lang)} ${t('currency.sarCode')}`;
+  return formatPrice(amountSar, currency, lang);
+}
@@ -0,0 +1,130 @@
+/**
+ * Portfolio filter state <-> query string
+ * Filters combine with AND across facets and OR inside a facet
+ * (e.g. ?category=branding&tag=medical&tag=luxury = branding projects tagged medical or luxury).
+ * Defaults are left out of the URL so the plain /portfolio link stays clean.
+ */
+import type { Project, ProjectCategory } from '../data/projects';
+import { localize } from './localize';
+
+/** Available sort orders */
+export type PortfolioSort = 'featured' | 'newest' | 'alphabetical';
+
+/** Everything the portfolio view keeps in the URL */
+export interface PortfolioFilters {
+  /** Selected categories (empty = all) */
+  categories: ProjectCategory[];
+  /** Selected tag keys, see tagKey() (empty = all) */
+  tags: string[];
+  /** Selected years (empty = all) */
+  years: number[];
+  /** Sort order */
+  sort: PortfolioSort;
+  /** Number of projects shown (Load More paging) */
+  visibleCount: number;
+}
+
+/** Projects shown initially and added per Load More click */
+export const PAGE_SIZE = 9;
+
+export const SORT_OPTIONS: PortfolioSort[] = ['featured', 'newest', 'alphabetical'];
+
+const DEFAULT_SORT: PortfolioSort = 'featured';
+
+const CATEGORIES: ProjectCategory[] = ['logos', 'branding', 'print', 'uiux'];
+
+/** Query string keys */
+const PARAM = {
+  category: 'category',
+  tag: 'tag',
+  year: 'year',
+  sort: 'sort',
+  visibleCount: 'show',
+} as const;
+
+/** Case-insensitive key for a tag, so "Branding" and "branding" are one filter */
+export function tagKey(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/** Unique, ordered values */
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * Read filters from the query string, ignoring unknown or malformed values.
+ */
+export function parseFilters(params: URLSearchParams): PortfolioFilters {
+  const categories = unique(params.getAll(PARAM.category)).filter((c): c is ProjectCategory =>
+    CATEGORIES.includes(c as ProjectCategory)
+  );
+  const tags = unique(params.getAll(PARAM.tag).map(tagKey).filter(Boolean));
+  const years = unique(params.getAll(PARAM.year).map(Number)).filter((y) => Number.isInteger(y));
+  const sortParam = params.get(PARAM.sort) as PortfolioSort | null;
+  const sort = sortParam && SORT_OPTIONS.includes(sortParam) ? sortParam : DEFAULT_SORT;
+  const shown = Number(params.get(PARAM.visibleCount));
+  const visibleCount = Number.isInteger(shown) && shown > PAGE_SIZE ? shown : PAGE_SIZE;
+
+  return { categories, tags, years, sort, visibleCount };
+}
+
+/**
+ * Write filters to a query string, omitting default values.
+ */
+export function serializeFilters(filters: PortfolioFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  filters.categories.forEach((c) => params.append(PARAM.category, c));
+  filters.tags.forEach((t) => params.append(PARAM.tag, t));
+  filters.years.forEach((y) => params.append(PARAM.year, String(y)));
+  if (filters.sort !== DEFAULT_SORT) params.set(PARAM.sort, filters.sort);
+  if (filters.visibleCount > PAGE_SIZE) params.set(PARAM.visibleCount, String(filters.visibleCount));
+  return params;
+}
+
+/** True when any facet narrows the list */
+export function hasActiveFilters(filters: PortfolioFilters): boolean {
+  return filters.categories.length > 0 || filters.tags.length > 0 || filters.years.length > 0;
+}
+
+/**
+ * Distinct tags across the catalog (case-insensitive), keeping the first spelling as label.
+ */
+export function collectTags(projects: Project[]): Array<{ key: string; label: string }> {
+  const tags = new Map<string, string>();
+  projects.forEach((p) =>
+    p.tags.forEach((tag) => {
+      const key = tagKey(tag);
+      if (key && !tags.has(key)) tags.set(key, tag.trim());
+    })
+  );
+  return Array.from(tags, ([key, label]) => ({ key, label })).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/** Distinct project years, newest first */
+export function collectYears(projects: Project[]): number[] {
+  return unique(projects.map((p) => p.year)).sort((a, b) => b - a);
+}
+
+/**
+ * Filter and sort the catalog. Alphabetical order follows the current language's collation.
+ */
+export function applyFilters(projects: Project[], filters: PortfolioFilters, language: 'en' | 'ar'): Project[] {
+  const { categories, tags, years, sort } = filters;
+
+  const filtered = projects.filter(
+    (p) =>
+      (categories.length === 0 || categories.includes(p.category)) &&
+      (tags.length === 0 || p.tags.some((tag) => tags.includes(tagKey(tag)))) &&
+      (years.length === 0 || years.includes(p.year))
+  );
+
+  const collator = new Intl.Collator(language, { sensitivity: 'base' });
+  const compare: Record<PortfolioSort, (a: Project, b: Project) => number> = {
+    featured: (a, b) => Number(!!b.featured) - Number(!!a.featured) || a.id - b.id,
+    newest: (a, b) => b.year - a.year || b.id - a.id,
+    alphabetical: (a, b) => collator.compare(localize(a.title, language), localize(b.title, language)),
+  };
+
+  return [...filtered].sort(compare[sort]);
+}
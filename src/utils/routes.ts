@@ -0,0 +1,88 @@
+/**
+ * Route helpers for language-prefixed URLs
+ * Every page lives under /en/... or /ar/...; the prefix is the single source of truth for the UI language.
+ * Shared by the router, the browser entry and the prerenderer.
+ */
+
+export type Language = 'en' | 'ar';
+
+/** Production origin (canonical URLs, structured data, sitemap) */
+export const SITE_URL = 'https://emadalddine.com';
+
+/** Supported URL language prefixes */
+export const LANGUAGES: readonly Language[] = ['en', 'ar'];
+
+/** Open Graph locale per language (og:locale, og:locale:alternate) */
+export const OG_LOCALES: Record<Language, string> = { en: 'en_US', ar: 'ar_SA' };
+
+/** Type guard for a URL segment that names a supported language */
+export function isLanguage(value: string | undefined | null): value is Language {
+  return value === 'en' || value === 'ar';
+}
+
+/**
+ * Read the language prefix from a pathname (e.g. "/ar/portfolio/3" -> "ar").
+ * Returns null when the path is not language-prefixed.
+ */
+export function languageFromPathname(pathname: string): Language | null {
+  const segment = pathname.split('/')[1];
+  return isLanguage(segment) ? segment : null;
+}
+
+/**
+ * Remove the language prefix from a pathname ("/ar/portfolio/3" -> "/portfolio/3").
+ */
+export function stripLanguage(pathname: string): string {
+  if (!languageFromPathname(pathname)) return pathname || '/';
+  const rest = pathname.replace(/^\/[^/]+/, '');
+  return rest || '/';
+}
+
+/**
+ * Build a language-prefixed path ("/portfolio", "ar" -> "/ar/portfolio").
+ */
+export function localizePath(path: string, language: Language): string {
+  const clean = stripLanguage(path.startsWith('/') ? path : `/${path}`);
+  return clean === '/' ? `/${language}` : `/${language}${clean}`;
+}
+
+/**
+ * Absolute production URL of a page in a language ("/about", "ar" -> "https://emadalddine.com/ar/about").
+ */
+export function absoluteUrl(path: string, language: Language): string {
+  return `${SITE_URL}${localizePath(path, language)}`;
+}
+
+/**
+ * Site-relative URL of a page's generated share image ("/portfolio/3", "ar" -> "/og/ar/portfolio-3.png").
+ * The images are rendered at build time by scripts/og-images.mjs.
+ */
+export function shareImagePath(path: string, language: Language): string {
+  const clean = stripLanguage(path.startsWith('/') ? path : `/${path}`);
+  const slug = clean === '/' ? 'home' : clean.slice(1).replace(/\/+$/, '').replace(/\//g, '-');
+  return `/og/${language}/${slug}.png`;
+}
+
+/**
+ * Language to use when the URL does not carry one (root URL, legacy links).
+ * Prefers the saved choice, then the browser language, then English.
+ */
+export function preferredLanguage(): Language {
+  try {
+    const saved = localStorage.getItem('language');
+    if (isLanguage(saved)) return saved;
+  } catch {
+    /* ignore */
+  }
+  if (typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('ar')) return 'ar';
+  return 'en';
+}
+
+/**
+ * Translate a legacy HashRouter URL ("#/portfolio/3") into its path-based equivalent.
+ * Returns null when the hash is not a legacy route.
+ */
+export function legacyHashToPath(hash: string, language: Language): string | null {
+  if (!hash.startsWith('#/')) return null;
+  return localizePath(hash.slice(1), language);
+}
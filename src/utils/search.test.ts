@@ -0,0 +1,59 @@
+/**
+ * Site search: Arabic normalization, light stemming and ranking over a fixed fixture
+ */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { Project } from '../data/projects';
+import { buildSearchIndex, normalizeText, searchIndex, stemWord } from './search';
+
+/** Only the fields the index reads */
+const projects = [
+  {
+    id: 1,
+    title: { en: 'Caesar', ar: 'سيزر' },
+    description: { en: 'Identity for a chain of restaurants', ar: 'هوية لسلسلة مطاعم' },
+    tags: ['Branding'],
+  },
+  {
+    id: 2,
+    title: { en: 'Smile Clinic', ar: 'عيادة الابتسامة' },
+    description: { en: 'Signage for a dental clinic', ar: 'لافتات لعيادة أسنان' },
+    tags: ['Medical'],
+  },
+] as unknown as Project[];
+
+const index = buildSearchIndex(projects, []);
+
+/** Document keys found for a query, best first */
+const keys = (query: string) => searchIndex(index, query).map((result) => result.document.key);
+
+test('normalizeText unifies Arabic letter variants and strips marks', () => {
+  assert.equal(normalizeText('أَحْمَد'), 'احمد');
+  assert.equal(normalizeText('إسلام آمنة'), 'اسلام امنه');
+  assert.equal(normalizeText('مستشفى مؤسسة هيئة'), 'مستشفي موسسه هييه');
+  assert.equal(normalizeText('٢٠٢٤ Café, Logo!'), '2024 cafe logo');
+});
+
+test('stemWord maps Arabic singulars and broken plurals to one stem', () => {
+  assert.equal(stemWord('مطعم'), stemWord('مطاعم'));
+  assert.equal(stemWord('المطعم'), stemWord('مطعم'));
+  assert.equal(stemWord(normalizeText('لافتات')), stemWord(normalizeText('لافته')));
+});
+
+test('stemWord drops an English plural s but keeps short words and double s', () => {
+  assert.equal(stemWord('restaurants'), 'restaurant');
+  assert.equal(stemWord('bus'), 'bus');
+  assert.equal(stemWord('glass'), 'glass');
+});
+
+test('searchIndex finds the singular of a plural in the project text', () => {
+  assert.deepEqual(keys('مطعم'), ['project-1']);
+  assert.deepEqual(keys('مطاعم'), ['project-1']);
+  assert.deepEqual(keys('restaurant'), ['project-1']);
+});
+
+test('searchIndex requires every query word', () => {
+  assert.deepEqual(keys('clinic signage'), ['project-2']);
+  assert.deepEqual(keys('clinic restaurant'), []);
+  assert.deepEqual(keys('عياده'), ['project-2']);
+});
@@ -0,0 +1,204 @@
+/**
+ * Client-side bilingual search
+ * Builds a small in-memory index over projects, their testimonials and the service catalog,
+ * with Arabic normalization so queries match regardless of hamza forms, taa marbuta,
+ * alef maqsura or diacritics (e.g. "اسرة" finds "أُسرة"), plus light stemming so singular and
+ * plural forms find each other (e.g. "مطعم" finds "مطاعم").
+ */
+import type { LocalizedText, Project } from '../data/projects';
+import type { Service } from '../data/services';
+
+/** Kind of result, used for grouping in the palette */
+export type SearchResultType = 'project' | 'service' | 'testimonial';
+
+/** One searchable entry */
+export interface SearchDocument {
+  /** Stable key (e.g. "project-3") */
+  key: string;
+  /** Result kind */
+  type: SearchResultType;
+  /** Display title */
+  title: LocalizedText;
+  /** Secondary line (description or quote) */
+  subtitle: LocalizedText;
+  /** Route without the language prefix, e.g. "/portfolio/3" */
+  path: string;
+  /** Normalized title tokens (both languages), weighted higher */
+  titleText: string;
+  /** Normalized full text (both languages) */
+  bodyText: string;
+  /** Stems of the full text words (see stemWord) */
+  bodyStems: string[];
+}
+
+/** A scored match */
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+}
+
+/** Arabic diacritics (tashkeel), superscript alef and tatweel */
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+
+/**
+ * Normalize text for matching:
+ * - lowercases Latin letters and strips Latin accents
+ * - removes Arabic diacritics and tatweel
+ * - unifies alef variants (أ إ آ ٱ -> ا), hamza carriers (ؤ -> و, ئ -> ي),
+ *   taa marbuta (ة -> ه) and alef maqsura (ى -> ي)
+ * - converts Arabic-Indic digits to Latin digits
+ * - collapses punctuation to spaces
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(ARABIC_MARKS, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ؤ/g, 'و')
+    .replace(/ئ/g, 'ي')
+    .replace(/ء/g, '')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/[\u0660-\u0669]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/** Arabic prefixes stripped by stemWord: conjunctions/prepositions with the definite article, then the article alone */
+const ARABIC_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+
+/** Arabic suffixes stripped by stemWord: sound plurals, duals and attached pronouns (after normalizeText) */
+const ARABIC_SUFFIXES = ['ات', 'ون', 'ين', 'ان', 'ها', 'يه', 'ه', 'ي'];
+
+/** Shortest stem kept when stripping affixes, so short roots are left intact */
+const MIN_STEM = 3;
+
+/**
+ * Light stem of a normalized word.
+ * Arabic words lose the definite article (with an attached و/ب/ك/ف/ل), one plural or pronoun suffix
+ * and the long vowels (ا و ي) after the first letter, so broken plurals share a stem with their
+ * singular ("مطاعم" and "المطعم" both stem to "مطعم"). English words lose a plural "s".
+ */
+export function stemWord(word: string): string {
+  if (!/[\u0600-\u06FF]/.test(word)) {
+    return word.length > MIN_STEM && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+  }
+
+  let stem = word;
+  const prefix = ARABIC_PREFIXES.find((p) => stem.startsWith(p) && stem.length - p.length >= MIN_STEM);
+  if (prefix) stem = stem.slice(prefix.length);
+  const suffix = ARABIC_SUFFIXES.find((s) => stem.endsWith(s) && stem.length - s.length >= MIN_STEM);
+  if (suffix) stem = stem.slice(0, -suffix.length);
+
+  const skeleton = stem[0] + stem.slice(1).replace(/[اوي]/g, '');
+  return skeleton.length >= MIN_STEM ? skeleton : stem;
+}
+
+/** Split normalized text into tokens */
+function tokenize(text: string): string[] {
+  return normalizeText(text).split(' ').filter(Boolean);
+}
+
+/** Join both languages of localized values into one normalized string */
+function joinLocalized(values: Array<LocalizedText | string | undefined>): string {
+  return normalizeText(
+    values
+      .filter(Boolean)
+      .map((v) => (typeof v === 'string' ? v : `${v!.en} ${v!.ar}`))
+      .join(' ')
+  );
+}
+
+/** Distinct stems of a normalized text */
+function stemsOf(text: string): string[] {
+  return [...new Set(text.split(' ').filter(Boolean).map(stemWord))];
+}
+
+/**
+ * Build the search index from the project catalog and service list.
+ */
+export function buildSearchIndex(projects: Project[], services: Service[]): SearchDocument[] {
+  const documents: Array<Omit<SearchDocument, 'bodyStems'>> = [];
+
+  for (const project of projects) {
+    const path = `/portfolio/${project.id}`;
+    documents.push({
+      key: `project-${project.id}`,
+      type: 'project',
+      title: project.title,
+      subtitle: project.description,
+      path,
+      titleText: joinLocalized([project.title]),
+      bodyText: joinLocalized([project.title, project.description, ...project.tags, ...(project.comments ?? [])]),
+    });
+
+    (project.comments ?? []).forEach((comment, index) => {
+      documents.push({
+        key: `testimonial-${project.id}-${index}`,
+        type: 'testimonial',
+        title: project.title,
+        subtitle: comment,
+        path,
+        titleText: joinLocalized([project.title]),
+        bodyText: joinLocalized([comment, project.title]),
+      });
+    });
+  }
+
+  services.forEach((service) => {
+    documents.push({
+      key: `service-${service.id}`,
+      type: 'service',
+      title: service.title,
+      subtitle: service.description,
+      path: '/services',
+      titleText: joinLocalized([service.title]),
+      bodyText: joinLocalized([
+        service.title,
+        service.description,
+        service.features.en.join(' '),
+        service.features.ar.join(' '),
+      ]),
+    });
+  });
+
+  return documents.map((document) => ({ ...document, bodyStems: stemsOf(document.bodyText) }));
+}
+
+/**
+ * Score a document against query tokens.
+ * Every token must match (as a word prefix, a substring or by stem); title hits and whole-word hits score higher.
+ */
+function scoreDocument(document: SearchDocument, tokens: string[]): number {
+  const titleWords = document.titleText.split(' ');
+  const bodyWords = document.bodyText.split(' ');
+  let score = 0;
+
+  for (const token of tokens) {
+    if (titleWords.includes(token)) score += 6;
+    else if (titleWords.some((w) => w.startsWith(token))) score += 4;
+    else if (bodyWords.includes(token)) score += 3;
+    else if (bodyWords.some((w) => w.startsWith(token))) score += 2;
+    else if (document.bodyText.includes(token)) score += 1;
+    else if (document.bodyStems.includes(stemWord(token))) score += 1;
+    else return 0;
+  }
+
+  return score;
+}
+
+/**
+ * Search the index; returns matches sorted by score (best first).
+ */
+export function searchIndex(index: SearchDocument[], query: string, limit = 20): SearchResult[] {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+
+  return index
+    .map((document) => ({ document, score: scoreDocument(document, tokens) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
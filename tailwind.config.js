@@ -58,6 +58,15 @@ module.exports = {
           border: 'hsl(var(--sidebar-border))',
           ring: 'hsl(var(--sidebar-ring))',
         },
+        // Brand palette (also used by the generated share images, scripts/og-images.mjs)
+        brand: {
+          red: '#8f1819',
+          terracotta: '#bd7b6a',
+          brown: '#9c7860',
+          sand: '#d9cab1',
+          charcoal: '#2d2d2d',
+          ink: '#1a1a1a',
+        },
       },
       borderRadius: {
         lg: 'var(--radius)',